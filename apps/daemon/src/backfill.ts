@@ -0,0 +1,283 @@
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from "node:fs";
+import type { DaemonConfig } from "@davidilie/claude-code-prometheus-shared";
+import { parseJSONLFile } from "./parser.js";
+import { getProjectPrivacy, type ProjectPrivacy } from "./privacy.js";
+import { ApiClient, DEFAULT_PUSH_BATCH_SIZE } from "./client.js";
+import { PushQueue, clearQueue, type QueuedBatch } from "./queue.js";
+import { BackoffController, clearBackoffState } from "./backoff.js";
+import {
+  getWatchedClaudeDirs,
+  getBackfillQueuePath,
+  getBackfillBackoffPath,
+  getBackfillCheckpointPath,
+} from "./config.js";
+import {
+  findSessionFiles,
+  isInRange,
+  emptyTotals,
+  addToTotals,
+  mergeTotals,
+  formatNumber,
+  formatTable,
+  type HistoryFilters,
+  type SessionFile,
+  type UsageTotals,
+} from "./history.js";
+
+export interface BackfillOptions extends HistoryFilters {
+  // Print per-project totals instead of pushing
+  dryRun?: boolean;
+  // Ignore a checkpoint left by an earlier run
+  restart?: boolean;
+}
+
+// Offsets of files already pushed, so an interrupted backfill resumes where it stopped
+interface BackfillCheckpoint {
+  // The filters the checkpoint was written for - a run with different ones starts over
+  filters: string;
+  files: Record<string, number>;
+}
+
+const PROGRESS_BAR_WIDTH = 30;
+// Give up after this many failed pushes in a row - the checkpoint keeps what was sent
+const MAX_CONSECUTIVE_FAILURES = 5;
+
+function getFilters(claudeDirs: string[], options: BackfillOptions): string {
+  return JSON.stringify({
+    claudeDirs,
+    since: options.since?.toISOString() ?? null,
+    until: options.until?.toISOString() ?? null,
+    projects: options.projects ?? null,
+    projectNaming: options.projectNaming ?? null,
+  });
+}
+
+function loadCheckpoint(filters: string): BackfillCheckpoint | null {
+  const path = getBackfillCheckpointPath();
+  if (!existsSync(path)) return null;
+
+  try {
+    const checkpoint = JSON.parse(readFileSync(path, "utf-8")) as BackfillCheckpoint;
+    return checkpoint.filters === filters ? checkpoint : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveCheckpoint(checkpoint: BackfillCheckpoint): void {
+  writeFileSync(getBackfillCheckpointPath(), JSON.stringify(checkpoint, null, 2));
+}
+
+function clearBackfillState(): void {
+  clearQueue(getBackfillQueuePath());
+  clearBackoffState(getBackfillBackoffPath());
+  if (existsSync(getBackfillCheckpointPath())) {
+    unlinkSync(getBackfillCheckpointPath());
+  }
+}
+
+function renderProgress(done: number, total: number, detail: string): void {
+  if (!process.stdout.isTTY) return;
+
+  const ratio = total > 0 ? done / total : 1;
+  const filled = Math.round(ratio * PROGRESS_BAR_WIDTH);
+  const bar = "█".repeat(filled) + "░".repeat(PROGRESS_BAR_WIDTH - filled);
+  process.stdout.write(`\r[${bar}] ${Math.floor(ratio * 100)}% ${done}/${total} files ${detail}\x1b[K`);
+}
+
+function endProgress(): void {
+  if (process.stdout.isTTY) process.stdout.write("\n");
+}
+
+function printProjectTotals(totals: Map<string, UsageTotals>): void {
+  const toRow = (project: string, t: UsageTotals): string[] => [
+    project,
+    formatNumber(t.sessions.size),
+    formatNumber(t.requests),
+    formatNumber(t.inputTokens),
+    formatNumber(t.outputTokens),
+    formatNumber(t.cacheCreationTokens),
+    formatNumber(t.cacheReadTokens),
+    `$${t.costUSD.toFixed(2)}`,
+  ];
+
+  const sum = emptyTotals();
+  const rows = [...totals.entries()]
+    .sort(([, a], [, b]) => b.costUSD - a.costUSD)
+    .map(([project, t]) => {
+      mergeTotals(sum, t);
+      return toRow(project, t);
+    });
+
+  console.log(
+    formatTable(
+      ["Project", "Sessions", "Requests", "Input", "Output", "Cache Write", "Cache Read", "Cost"],
+      rows,
+      toRow("Total", sum)
+    )
+  );
+}
+
+async function dryRun(
+  files: SessionFile[],
+  privacy: ProjectPrivacy,
+  options: BackfillOptions
+): Promise<void> {
+  const totals = new Map<string, UsageTotals>();
+  let entryCount = 0;
+
+  for (const [index, file] of files.entries()) {
+    // Totals under the project names the server would see
+    const { entries } = await parseJSONLFile(file.path, 0, options.projectNaming);
+
+    for (const entry of privacy.apply(entries)) {
+      if (!isInRange(entry, options)) continue;
+      entryCount++;
+
+      let project = totals.get(entry.project);
+      if (!project) {
+        project = emptyTotals();
+        totals.set(entry.project, project);
+      }
+      addToTotals(project, entry);
+    }
+
+    renderProgress(index + 1, files.length, `${formatNumber(entryCount)} entries`);
+  }
+  endProgress();
+
+  if (totals.size === 0) {
+    console.log("\nNo usage found for these filters.\n");
+    return;
+  }
+
+  console.log("");
+  printProjectTotals(totals);
+  console.log(`\nDry run - nothing was pushed. Costs use the bundled pricing table.\n`);
+}
+
+async function push(
+  config: DaemonConfig,
+  files: SessionFile[],
+  privacy: ProjectPrivacy,
+  checkpoint: BackfillCheckpoint,
+  options: BackfillOptions
+): Promise<void> {
+  const batchSize = config.pushBatchSize ?? DEFAULT_PUSH_BATCH_SIZE;
+  const backoff = new BackoffController(getBackfillBackoffPath());
+  const queue = new PushQueue(getBackfillQueuePath());
+  const client = new ApiClient(config.serverUrl, config.deviceApiKey, queue, backoff, {
+    enableNotifications: false,
+    batchSize,
+    // A file is checkpointed once the server has every entry read from it
+    onCommit: (batches: QueuedBatch[]) => {
+      for (const batch of batches) {
+        checkpoint.files[batch.filePath] = Math.max(checkpoint.files[batch.filePath] ?? 0, batch.position);
+      }
+      saveCheckpoint(checkpoint);
+    },
+  });
+
+  let filesDone = 0;
+  let pushed = 0;
+  let inserted = 0;
+  let duplicates = 0;
+
+  const detail = () => `${formatNumber(pushed)} entries pushed`;
+
+  async function drain(): Promise<void> {
+    while (client.hasPending()) {
+      const result = await client.flush();
+      pushed += result.processed;
+      inserted += result.inserted;
+      duplicates += result.duplicates;
+      if (result.success) continue;
+
+      if (backoff.getConsecutiveFailures() >= MAX_CONSECUTIVE_FAILURES) {
+        throw new Error(`${result.error ?? "Push failed"} - run the same backfill again to resume`);
+      }
+
+      const delay = client.getBackoffRemainingMs();
+      renderProgress(filesDone, files.length, `waiting ${Math.ceil(delay / 1000)}s (${result.error})`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  // Entries left in the queue by an interrupted run go first
+  if (queue.getEntryCount() > 0) {
+    console.log(`Resuming: ${formatNumber(queue.getEntryCount())} queued entries from the last run`);
+  }
+  await drain();
+
+  for (const file of files) {
+    const startPosition = checkpoint.files[file.path] ?? 0;
+
+    if (startPosition < file.size) {
+      const result = await parseJSONLFile(file.path, startPosition, options.projectNaming);
+      const entries = privacy.apply(result.entries.filter((entry) => isInRange(entry, options)));
+      // Queued even with no entries in range so the file is checkpointed
+      client.addEntries("backfill", file.path, result.newPosition, entries);
+
+      if (client.getQueueSize() >= batchSize) {
+        await drain();
+      }
+    }
+
+    filesDone++;
+    renderProgress(filesDone, files.length, detail());
+  }
+
+  await drain();
+  endProgress();
+
+  console.log(`\n✅ Backfill complete`);
+  console.log(`   Files:      ${formatNumber(files.length)}`);
+  console.log(`   Entries:    ${formatNumber(pushed)}`);
+  console.log(`   New:        ${formatNumber(inserted)}`);
+  console.log(`   Duplicates: ${formatNumber(duplicates)} (already on the server)\n`);
+}
+
+/**
+ * Read historical Claude Code transcripts once, without starting the watcher.
+ *
+ * Pushed files are checkpointed, so an interrupted backfill picks up where it
+ * stopped when run again with the same filters. Entries the server already
+ * has are deduplicated, so overlapping with the daemon is harmless.
+ */
+export async function backfill(config: DaemonConfig, options: BackfillOptions): Promise<void> {
+  const claudeDirs = getWatchedClaudeDirs(config);
+  const filters = getFilters(claudeDirs, options);
+
+  const files = findSessionFiles(claudeDirs, options);
+  const privacy = getProjectPrivacy(config);
+  console.log(`\n📦 Backfilling ${formatNumber(files.length)} session files`);
+  if (options.since) console.log(`   Since:    ${options.since.toLocaleString()}`);
+  if (options.until) console.log(`   Until:    ${options.until.toLocaleString()}`);
+  if (options.projects) console.log(`   Projects: ${options.projects.join(", ")}`);
+  console.log("");
+
+  if (options.dryRun) {
+    await dryRun(files, privacy, options);
+    return;
+  }
+
+  let checkpoint = options.restart ? null : loadCheckpoint(filters);
+  if (checkpoint) {
+    const done = files.filter((file) => (checkpoint!.files[file.path] ?? 0) >= file.size).length;
+    console.log(`Resuming from checkpoint: ${formatNumber(done)} files already pushed`);
+  } else {
+    // A different range or a fresh start - don't replay what an older run queued
+    clearBackfillState();
+    checkpoint = { filters, files: {} };
+    saveCheckpoint(checkpoint);
+  }
+
+  process.once("SIGINT", () => {
+    endProgress();
+    console.log("\n⏸️  Backfill interrupted - run the same command again to resume.\n");
+    process.exit(130);
+  });
+
+  await push(config, files, privacy, checkpoint, options);
+  clearBackfillState();
+}
@@ -0,0 +1,139 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync, unlinkSync } from "node:fs";
+import { dirname } from "node:path";
+
+export interface BackoffState {
+  consecutiveFailures: number;
+  // Unix ms until which pushes are paused (0 = not backing off)
+  pausedUntil: number;
+  reason: string | null;
+}
+
+export interface BackoffOptions {
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const DEFAULT_BASE_DELAY_MS = 5 * 1000;
+const DEFAULT_MAX_DELAY_MS = 10 * 60 * 1000; // 10 minutes
+
+const IDLE_STATE: BackoffState = {
+  consecutiveFailures: 0,
+  pausedUntil: 0,
+  reason: null,
+};
+
+/**
+ * Tracks push failures and decides how long to wait before the next attempt.
+ *
+ * Server errors and network failures back off exponentially with jitter;
+ * rate limits wait exactly as long as the server asks. State is mirrored to
+ * disk so `claude-usage-daemon status` can show it.
+ */
+export class BackoffController {
+  private state: BackoffState = { ...IDLE_STATE };
+  private statePath: string;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+
+  constructor(statePath: string, options: BackoffOptions = {}) {
+    this.statePath = statePath;
+    this.baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+    this.save();
+  }
+
+  isPaused(now: number = Date.now()): boolean {
+    return this.state.pausedUntil > now;
+  }
+
+  getRemainingMs(now: number = Date.now()): number {
+    return Math.max(0, this.state.pausedUntil - now);
+  }
+
+  getConsecutiveFailures(): number {
+    return this.state.consecutiveFailures;
+  }
+
+  recordSuccess(): void {
+    if (this.state.consecutiveFailures === 0 && this.state.pausedUntil === 0) return;
+    this.state = { ...IDLE_STATE };
+    this.save();
+  }
+
+  // 5xx and network errors - exponential backoff with full jitter, returns the delay
+  recordFailure(reason: string): number {
+    this.state.consecutiveFailures++;
+
+    const ceiling = Math.min(
+      this.maxDelayMs,
+      this.baseDelayMs * 2 ** (this.state.consecutiveFailures - 1)
+    );
+    // Keep at least half the ceiling so retries still spread out
+    const delay = Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+
+    this.pause(delay, reason);
+    return delay;
+  }
+
+  // 429 or an exhausted rate limit window - wait what the server asked for
+  recordRateLimit(delayMs: number, reason: string): number {
+    const delay = Math.min(this.maxDelayMs, Math.max(0, delayMs));
+    this.pause(delay, reason);
+    return delay;
+  }
+
+  private pause(delayMs: number, reason: string): void {
+    this.state.pausedUntil = Date.now() + delayMs;
+    this.state.reason = reason;
+    this.save();
+  }
+
+  private save(): void {
+    try {
+      const dir = dirname(this.statePath);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+      writeFileSync(this.statePath, JSON.stringify(this.state, null, 2));
+    } catch {
+      // Status display only - never break pushing over it
+    }
+  }
+}
+
+// How long the server wants us to wait, from Retry-After (seconds or HTTP date)
+// or our own X-RateLimit-Reset header (ISO date). Null if neither is usable.
+export function getRetryDelayMs(headers: Headers, now: number = Date.now()): number | null {
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+  }
+
+  const reset = headers.get("x-ratelimit-reset");
+  if (reset) {
+    const date = Date.parse(reset);
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+  }
+
+  return null;
+}
+
+export function loadBackoffState(statePath: string): BackoffState | null {
+  if (!existsSync(statePath)) return null;
+
+  try {
+    return JSON.parse(readFileSync(statePath, "utf-8")) as BackoffState;
+  } catch {
+    return null;
+  }
+}
+
+export function clearBackoffState(statePath: string): void {
+  if (existsSync(statePath)) {
+    unlinkSync(statePath);
+  }
+}
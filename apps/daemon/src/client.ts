@@ -1,6 +1,13 @@
 import { execSync } from "node:child_process";
 import { appendFileSync } from "node:fs";
-import type { UsageEntry, UsagePushResponse } from "@davidilie/claude-code-prometheus-shared";
+import { gzipSync } from "node:zlib";
+import type {
+  FileIdentity,
+  UsageEntry,
+  UsagePushResponse,
+} from "@davidilie/claude-code-prometheus-shared";
+import type { PushQueue, QueuedBatch } from "./queue.js";
+import { getRetryDelayMs, type BackoffController } from "./backoff.js";
 
 // Log to file for daemon mode
 function logError(message: string): void {
@@ -57,36 +64,110 @@ function sendNotification(title: string, message: string): void {
 
 export interface ApiClientOptions {
   enableNotifications?: boolean;
-  maxRetries?: number;
-  retryDelayMs?: number;
+  // Max entries per push request
+  batchSize?: number;
+  // Called with batches that left the queue (acknowledged or dropped) so their file offsets can be committed
+  onCommit?: (batches: QueuedBatch[]) => void;
+}
+
+type PushOutcome =
+  | { status: "ok"; data: UsagePushResponse }
+  | { status: "too_large" }
+  | { status: "rate_limited"; error: string }
+  | { status: "failed"; error?: string };
+
+export const DEFAULT_PUSH_BATCH_SIZE = 500;
+// A server that stops responding would otherwise hold every later push
+const PUSH_TIMEOUT_MS = 2 * 60 * 1000;
+
+export interface FlushResult {
+  success: boolean;
+  processed: number;
+  inserted: number;
+  duplicates: number;
+  failed: number;
+  error?: string;
+}
+
+function formatDelay(ms: number): string {
+  return ms >= 60_000 ? `${Math.round(ms / 60_000)}m` : `${Math.ceil(ms / 1000)}s`;
 }
 
 export class ApiClient {
   private serverUrl: string;
   private apiKey: string;
-  private queue: UsageEntry[] = [];
+  private queue: PushQueue;
+  private backoff: BackoffController;
+  private onCommit?: (batches: QueuedBatch[]) => void;
   private isSending = false;
+  // Leading entries of each queued batch the server has accepted, so an interrupted push
+  // resumes where it stopped. Not journaled - after a restart they come back as duplicates.
+  private sentEntries = new WeakMap<QueuedBatch, number>();
   private enableNotifications: boolean;
-  private maxRetries: number;
-  private retryDelayMs: number;
-  private consecutiveFailures = 0;
+  private batchSize: number;
   private lastNotificationTime = 0;
   private notificationCooldownMs = 5 * 60 * 1000; // 5 minutes between notifications
 
-  constructor(serverUrl: string, apiKey: string, options: ApiClientOptions = {}) {
+  constructor(
+    serverUrl: string,
+    apiKey: string,
+    queue: PushQueue,
+    backoff: BackoffController,
+    options: ApiClientOptions = {}
+  ) {
     this.serverUrl = serverUrl;
     this.apiKey = apiKey;
+    this.queue = queue;
+    this.backoff = backoff;
+    this.onCommit = options.onCommit;
     this.enableNotifications = options.enableNotifications ?? true;
-    this.maxRetries = options.maxRetries ?? 3;
-    this.retryDelayMs = options.retryDelayMs ?? 5000;
+    this.batchSize = options.batchSize ?? DEFAULT_PUSH_BATCH_SIZE;
   }
 
-  addEntries(entries: UsageEntry[]): void {
-    this.queue.push(...entries);
+  // Journal entries a source read from a file up to `position`
+  addEntries(
+    source: string,
+    filePath: string,
+    position: number,
+    entries: UsageEntry[],
+    identity?: FileIdentity
+  ): void {
+    this.queue.enqueue(source, filePath, position, entries, identity);
+    this.commit(this.queue.enforceLimits(), "dropped");
   }
 
   getQueueSize(): number {
-    return this.queue.length;
+    return this.queue.getEntryCount();
+  }
+
+  // Includes batches with no entries whose file offsets still need committing
+  hasPending(): boolean {
+    return this.queue.getBatchCount() > 0;
+  }
+
+  // While backing off, pushes are held until the server is ready again
+  isBackingOff(): boolean {
+    return this.backoff.isPaused();
+  }
+
+  getBackoffRemainingMs(): number {
+    return this.backoff.getRemainingMs();
+  }
+
+  // Latest read of a file still in the queue, if it has unacknowledged batches
+  getPendingBatch(source: string, filePath: string): QueuedBatch | undefined {
+    return this.queue.getPendingBatch(source, filePath);
+  }
+
+  private commit(batches: QueuedBatch[], reason: "acknowledged" | "dropped"): void {
+    if (batches.length === 0) return;
+
+    if (reason === "dropped") {
+      const dropped = batches.reduce((sum, batch) => sum + batch.entries.length, 0);
+      logError(`Queue limit reached - dropped ${dropped} unsent entries from ${batches.length} batches`);
+    }
+
+    this.onCommit?.(batches);
   }
 
   private shouldNotify(): boolean {
@@ -103,100 +184,202 @@ export class ApiClient {
     }
   }
 
-  async flush(): Promise<{ success: boolean; processed: number; error?: string }> {
-    if (this.queue.length === 0 || this.isSending) {
-      return { success: true, processed: 0 };
+  async flush(): Promise<FlushResult> {
+    const result: FlushResult = { success: true, processed: 0, inserted: 0, duplicates: 0, failed: 0 };
+
+    if (this.queue.getBatchCount() === 0 || this.isSending) {
+      return result;
+    }
+
+    if (this.backoff.isPaused()) {
+      return {
+        ...result,
+        success: false,
+        error: `Backing off for ${formatDelay(this.backoff.getRemainingMs())}`,
+      };
     }
 
     this.isSending = true;
 
-    // Take all entries from queue
-    const entriesToSend = [...this.queue];
-    this.queue = [];
+    try {
+      // Push the queue oldest-first, one server request per batch of up to batchSize entries.
+      // Queued batches stay journaled until the server has acknowledged all of their entries.
+      while (this.queue.getBatchCount() > 0) {
+        const batches = this.queue.peek(this.batchSize);
+        const unsent = batches.map((batch) => ({
+          batch,
+          rest: batch.entries.slice(this.sentEntries.get(batch) ?? 0),
+        }));
+        const entries = unsent.flatMap(({ rest }) => rest);
+        // Batch each entry belongs to, to record how far a batch got
+        const owners = unsent.flatMap(({ batch, rest }) => rest.map(() => batch));
+
+        // A single file read can exceed the batch size - send it in slices
+        for (let offset = 0; offset < entries.length; ) {
+          const slice = entries.slice(offset, offset + this.batchSize);
+          const push = await this.pushEntries(slice);
+
+          if (push.status === "too_large") {
+            // Server limit is lower than ours - shrink and resend this slice
+            continue;
+          }
+
+          if (push.status === "failed") {
+            this.handleFailure(push.error);
+            return { ...result, success: false, error: push.error };
+          }
 
-    let lastError: string | undefined;
-    let attempt = 0;
+          if (push.status === "rate_limited") {
+            return { ...result, success: false, error: push.error };
+          }
 
-    while (attempt < this.maxRetries) {
-      attempt++;
+          const { data } = push;
+          result.processed += data.processed;
+          result.inserted += data.inserted ?? data.processed;
+          result.duplicates += data.duplicates ?? 0;
+          result.failed += data.failed ?? 0;
 
-      try {
-        const response = await fetch(`${this.serverUrl}/api/usage`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "X-Device-Key": this.apiKey,
-          },
-          body: JSON.stringify({
-            entries: entriesToSend,
-          }),
-        });
-
-        if (response.ok) {
-          const data = (await response.json()) as UsagePushResponse;
-          this.consecutiveFailures = 0;
-          this.isSending = false;
-          return { success: true, processed: data.processed };
-        }
+          for (const batch of owners.slice(offset, offset + slice.length)) {
+            this.sentEntries.set(batch, (this.sentEntries.get(batch) ?? 0) + 1);
+          }
+          offset += slice.length;
 
-        // Handle specific error codes
-        if (response.status === 401) {
-          lastError = "Authentication failed - invalid or expired API key";
-          logError(`API Error: ${lastError}`);
-          this.notify("Claude Usage Daemon", `Error: ${lastError}`);
-          // Don't retry auth errors
-          break;
+          // Out of requests for this window - the remaining slices wait for the reset
+          if (this.backoff.isPaused() && offset < entries.length) return result;
         }
 
-        if (response.status === 429) {
-          lastError = "Rate limited - too many requests";
-          logError(`API Error: ${lastError}`);
-          // Wait longer before retry
-          await new Promise((r) => setTimeout(r, this.retryDelayMs * 2));
-          continue;
-        }
+        // Files with no usage lines only need their offsets committed
+        this.commit(this.queue.acknowledge(batches), "acknowledged");
 
-        const errorText = await response.text();
-        lastError = `Server error (${response.status}): ${errorText}`;
-        logError(`API Error: ${lastError}`);
-      } catch (error) {
-        if (error instanceof Error) {
-          if (error.message.includes("ECONNREFUSED")) {
-            lastError = "Cannot connect to server - is it running?";
-          } else if (error.message.includes("ETIMEDOUT")) {
-            lastError = "Connection timed out";
-          } else if (error.message.includes("ENOTFOUND")) {
-            lastError = "Server not found - check URL";
-          } else {
-            lastError = error.message;
-          }
-        } else {
-          lastError = "Unknown error occurred";
-        }
-        logError(`Network Error (attempt ${attempt}/${this.maxRetries}): ${lastError}`);
+        // The server said this window is used up - stop before it has to reject us
+        if (this.backoff.isPaused()) break;
       }
 
-      // Wait before retry
-      if (attempt < this.maxRetries) {
-        await new Promise((r) => setTimeout(r, this.retryDelayMs));
-      }
+      return result;
+    } finally {
+      this.isSending = false;
     }
+  }
 
-    // All retries failed - put entries back in queue
-    this.queue = [...entriesToSend, ...this.queue];
-    this.consecutiveFailures++;
-    this.isSending = false;
+  private handleFailure(lastError: string | undefined): void {
+    const delay = this.backoff.recordFailure(lastError ?? "Unknown error");
+    const failures = this.backoff.getConsecutiveFailures();
 
     // Send notification after multiple consecutive failures
-    if (this.consecutiveFailures >= 3) {
+    if (failures >= 3) {
       this.notify(
         "Claude Usage Daemon Error",
-        `Failed to sync data after ${this.consecutiveFailures} attempts. ${lastError}`
+        `Failed to sync data after ${failures} attempts. ${lastError}`
       );
     }
 
-    console.error(`Failed to push usage data after ${this.maxRetries} attempts: ${lastError}`);
-    return { success: false, processed: 0, error: lastError };
+    console.error(`Failed to push usage data (attempt ${failures}), retrying in ${formatDelay(delay)}: ${lastError}`);
+  }
+
+  // POST one gzipped batch. Failures are left to the backoff controller rather than retried here.
+  private async pushEntries(entries: UsageEntry[]): Promise<PushOutcome> {
+    const body = gzipSync(JSON.stringify({ entries }));
+
+    let lastError: string;
+
+    try {
+      const response = await fetch(`${this.serverUrl}/api/usage`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Encoding": "gzip",
+          "X-Device-Key": this.apiKey,
+        },
+        body,
+        signal: AbortSignal.timeout(PUSH_TIMEOUT_MS),
+      });
+
+      if (response.ok) {
+        const data = (await response.json()) as UsagePushResponse;
+
+        // Entries the server rejected as invalid won't succeed on retry - log and drop them
+        for (const entryError of data.errors ?? []) {
+          logError(`Server rejected entry ${entryError.uuid ?? `#${entryError.index}`}: ${entryError.error}`);
+        }
+
+        this.backoff.recordSuccess();
+
+        // Last request allowed in this window - wait for the reset instead of hitting a 429
+        if (response.headers.get("x-ratelimit-remaining") === "0") {
+          const delay = getRetryDelayMs(response.headers);
+          if (delay) {
+            this.backoff.recordRateLimit(delay, "Rate limit window exhausted");
+          }
+        }
+
+        return { status: "ok", data };
+      }
+
+      // Handle specific error codes
+      if (response.status === 401) {
+        lastError = "Authentication failed - invalid or expired API key";
+        logError(`API Error: ${lastError}`);
+        this.notify("Claude Usage Daemon", `Error: ${lastError}`);
+        return { status: "failed", error: lastError };
+      }
+
+      if (response.status === 413) {
+        const data = (await response.json().catch(() => ({}))) as { maxEntries?: number };
+        // Use the server's entry limit if that's what we hit, otherwise the body was too big - halve
+        const nextSize = Math.max(
+          1,
+          data.maxEntries && data.maxEntries < entries.length
+            ? data.maxEntries
+            : Math.floor(entries.length / 2)
+        );
+        if (entries.length <= 1 || nextSize >= this.batchSize) {
+          lastError = "Server rejected a single entry as too large";
+          logError(`API Error: ${lastError}`);
+          return { status: "failed", error: lastError };
+        }
+        logError(`Batch of ${entries.length} entries too large for server - reducing batch size to ${nextSize}`);
+        this.batchSize = nextSize;
+        return { status: "too_large" };
+      }
+
+      if (response.status === 429) {
+        // Wait exactly as long as the server asks, or fall back to regular backoff
+        const delay = getRetryDelayMs(response.headers);
+        if (delay === null) {
+          lastError = "Rate limited - too many requests";
+          logError(`API Error: ${lastError}`);
+          return { status: "failed", error: lastError };
+        }
+
+        lastError = `Rate limited - retrying in ${formatDelay(delay)}`;
+        logError(`API Error: ${lastError}`);
+        this.backoff.recordRateLimit(delay, "Rate limited by server");
+        return { status: "rate_limited", error: lastError };
+      }
+
+      const errorText = await response.text();
+      lastError = `Server error (${response.status}): ${errorText}`;
+      logError(`API Error: ${lastError}`);
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.name === "TimeoutError") {
+          lastError = `Server did not respond within ${formatDelay(PUSH_TIMEOUT_MS)}`;
+        } else if (error.message.includes("ECONNREFUSED")) {
+          lastError = "Cannot connect to server - is it running?";
+        } else if (error.message.includes("ETIMEDOUT")) {
+          lastError = "Connection timed out";
+        } else if (error.message.includes("ENOTFOUND")) {
+          lastError = "Server not found - check URL";
+        } else {
+          lastError = error.message;
+        }
+      } else {
+        lastError = "Unknown error occurred";
+      }
+      logError(`Network Error: ${lastError}`);
+    }
+
+    return { status: "failed", error: lastError };
   }
 
   // Test connection to server
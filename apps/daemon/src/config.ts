@@ -9,6 +9,35 @@ const configSchema = z.object({
   deviceApiKey: z.string(),
   claudeDir: z.string(),
   pushIntervalMs: z.number().int().positive(),
+  pushBatchSize: z.number().int().positive().optional(),
+  maxQueueEntries: z.number().int().positive().optional(),
+  maxQueueAgeDays: z.number().positive().optional(),
+  sources: z
+    .array(
+      z.discriminatedUnion("type", [
+        z.object({
+          type: z.literal("claude-code"),
+          dir: z.string().optional(),
+          profile: z.string().optional(),
+        }),
+        z.object({
+          type: z.literal("api-usage"),
+          path: z.string(),
+          project: z.string().optional(),
+          profile: z.string().optional(),
+        }),
+      ])
+    )
+    .optional(),
+  projectNames: z.enum(["path", "basename", "repo-root", "git-remote"]).optional(),
+  privacy: z
+    .object({
+      exclude: z.array(z.string()).optional(),
+      aliases: z.record(z.string()).optional(),
+      hash: z.array(z.string()).optional(),
+      salt: z.string().optional(),
+    })
+    .optional(),
 });
 
 export function getConfigDir(): string {
@@ -23,6 +52,27 @@ export function getStatePath(): string {
   return join(getConfigDir(), "state.json");
 }
 
+export function getQueuePath(): string {
+  return join(getConfigDir(), "queue.jsonl");
+}
+
+export function getBackoffPath(): string {
+  return join(getConfigDir(), "backoff.json");
+}
+
+// `backfill` keeps its own queue, backoff and checkpoint so it never touches the running daemon's
+export function getBackfillQueuePath(): string {
+  return join(getConfigDir(), "backfill-queue.jsonl");
+}
+
+export function getBackfillBackoffPath(): string {
+  return join(getConfigDir(), "backfill-backoff.json");
+}
+
+export function getBackfillCheckpointPath(): string {
+  return join(getConfigDir(), "backfill.json");
+}
+
 export function loadConfig(): DaemonConfig | null {
   const configPath = getConfigPath();
 
@@ -68,17 +118,43 @@ export function deleteConfigDir(): void {
   }
 }
 
+// Where Claude Code may keep its data, in order of preference. CLAUDE_CONFIG_DIR
+// wins when set; otherwise both locations are checked, since Linux installs
+// use either one.
+export function getCandidateClaudeDirs(): string[] {
+  const candidates = [
+    process.env.CLAUDE_CONFIG_DIR,
+    join(homedir(), ".claude"),
+    join(homedir(), ".config", "claude"),
+  ].filter((dir): dir is string => !!dir);
+
+  return [...new Set(candidates)];
+}
+
+export function hasClaudeProjects(claudeDir: string): boolean {
+  return existsSync(join(claudeDir, "projects"));
+}
+
+// Candidate directories that already have Claude Code projects
+export function discoverClaudeDirs(): string[] {
+  return getCandidateClaudeDirs().filter(hasClaudeProjects);
+}
+
 export function getDefaultClaudeDir(): string {
-  const platform = process.platform;
-
-  if (platform === "darwin") {
-    return join(homedir(), ".claude");
-  } else if (platform === "linux") {
-    return join(homedir(), ".config", "claude");
-  } else {
-    // Windows or other
-    return join(homedir(), ".claude");
+  return discoverClaudeDirs()[0] ?? getCandidateClaudeDirs()[0]!;
+}
+
+// Claude directories the daemon watches. Without explicit sources that's the
+// configured directory plus every candidate, so a directory created later is
+// still picked up.
+export function getWatchedClaudeDirs(config: DaemonConfig): string[] {
+  if (config.sources) {
+    return config.sources.flatMap((source) =>
+      source.type === "claude-code" ? [source.dir ?? config.claudeDir] : []
+    );
   }
+
+  return [...new Set([config.claudeDir, ...getCandidateClaudeDirs()])];
 }
 
 export function configExists(): boolean {
@@ -0,0 +1,53 @@
+import { createHash } from "node:crypto";
+import { openSync, readSync, closeSync, statSync } from "node:fs";
+import type { FileIdentity } from "@davidilie/claude-code-prometheus-shared";
+
+// How much of the start of a file is hashed for its fingerprint
+const FINGERPRINT_BYTES = 4096;
+
+export type FileChange = "truncated" | "replaced" | "rewritten";
+
+function fingerprint(filePath: string, length: number): string {
+  const buffer = Buffer.alloc(Math.min(length, FINGERPRINT_BYTES));
+  const fd = openSync(filePath, "r");
+  try {
+    const bytesRead = readSync(fd, buffer, 0, buffer.length, 0);
+    return createHash("sha256").update(buffer.subarray(0, bytesRead)).digest("hex");
+  } finally {
+    closeSync(fd);
+  }
+}
+
+export function readFileIdentity(filePath: string): FileIdentity {
+  const stats = statSync(filePath);
+  return {
+    inode: stats.ino,
+    size: stats.size,
+    fingerprint: fingerprint(filePath, stats.size),
+  };
+}
+
+/**
+ * Check whether a file is still the one we read up to `position`.
+ *
+ * Appends keep the inode, never shrink the file and leave its first bytes
+ * alone - anything else means the saved offset no longer points into the same
+ * content and the file has to be read again from the start.
+ */
+export function detectFileChange(
+  filePath: string,
+  position: number,
+  previous: FileIdentity | undefined
+): FileChange | null {
+  const stats = statSync(filePath);
+
+  if (stats.size < position) return "truncated";
+  // Older state files have no identity - the size check is all we can do
+  if (!previous) return null;
+
+  if (stats.ino !== previous.inode) return "replaced";
+  if (stats.size < previous.size) return "truncated";
+  if (fingerprint(filePath, previous.size) !== previous.fingerprint) return "rewritten";
+
+  return null;
+}
@@ -0,0 +1,189 @@
+import { readdirSync, statSync } from "node:fs";
+import { join } from "node:path";
+import {
+  calculateCostWithPricing,
+  getDefaultPricing,
+  type ProjectNaming,
+  type UsageEntry,
+} from "@davidilie/claude-code-prometheus-shared";
+import { hasClaudeProjects } from "./config.js";
+import { getProjectName } from "./project.js";
+
+// Filters shared by the commands that read historical transcripts (backfill, report)
+export interface HistoryFilters {
+  since?: Date;
+  until?: Date;
+  // Glob patterns matched against the project name
+  projects?: string[];
+  // How project names are derived, as in the daemon config
+  projectNaming?: ProjectNaming;
+}
+
+export interface SessionFile {
+  path: string;
+  project: string;
+  size: number;
+  modifiedAt: number;
+}
+
+export interface UsageTotals {
+  sessions: Set<string>;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  costUSD: number;
+}
+
+/**
+ * Parse a --since/--until value. A bare date (YYYY-MM-DD) is local time, at
+ * the start of the day for --since and the end of it for --until.
+ */
+export function parseDateOption(value: string, endOfDay: boolean): Date {
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? new Date(`${value}T${endOfDay ? "23:59:59.999" : "00:00:00"}`)
+    : new Date(value);
+
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return date;
+}
+
+// `*` matches any run of characters, `?` a single one
+export function globToRegExp(glob: string): RegExp {
+  const escape = (text: string) => text.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  const pattern = glob
+    .split("*")
+    .map((part) => part.split("?").map(escape).join("."))
+    .join(".*");
+  return new RegExp(`^${pattern}$`);
+}
+
+// Project names as the parser reports them, for every Claude directory
+export function listProjects(claudeDirs: string[], naming?: ProjectNaming): string[] {
+  const projects = new Set<string>();
+
+  for (const claudeDir of claudeDirs) {
+    if (!hasClaudeProjects(claudeDir)) continue;
+
+    for (const projectDir of readdirSync(join(claudeDir, "projects"), { withFileTypes: true })) {
+      if (projectDir.isDirectory()) {
+        projects.add(getProjectName(join(claudeDir, "projects", projectDir.name), naming));
+      }
+    }
+  }
+
+  return [...projects].sort();
+}
+
+// Session files under {claudeDir}/projects/{project}/, oldest first
+export function findSessionFiles(claudeDirs: string[], filters: HistoryFilters): SessionFile[] {
+  const patterns = filters.projects?.map(globToRegExp);
+  const files: SessionFile[] = [];
+
+  for (const claudeDir of claudeDirs) {
+    if (!hasClaudeProjects(claudeDir)) continue;
+    const projectsDir = join(claudeDir, "projects");
+
+    for (const projectDir of readdirSync(projectsDir, { withFileTypes: true })) {
+      if (!projectDir.isDirectory()) continue;
+
+      // Same project name the parser reports
+      const projectPath = join(projectsDir, projectDir.name);
+      const project = getProjectName(projectPath, filters.projectNaming);
+      if (patterns && !patterns.some((pattern) => pattern.test(project))) continue;
+
+      for (const name of readdirSync(projectPath, { recursive: true, encoding: "utf-8" })) {
+        if (!name.endsWith(".jsonl")) continue;
+
+        const path = join(projectPath, name);
+        const stats = statSync(path);
+        if (!stats.isFile()) continue;
+
+        // Lines are only ever appended, so a file last written before --since has nothing newer
+        if (filters.since && stats.mtime < filters.since) continue;
+
+        files.push({ path, project, size: stats.size, modifiedAt: stats.mtimeMs });
+      }
+    }
+  }
+
+  return files.sort((a, b) => a.modifiedAt - b.modifiedAt);
+}
+
+export function isInRange(entry: UsageEntry, filters: HistoryFilters): boolean {
+  const time = Date.parse(entry.timestamp);
+  if (filters.since && time < filters.since.getTime()) return false;
+  if (filters.until && time > filters.until.getTime()) return false;
+  return true;
+}
+
+// Same cost the server records, using the bundled pricing table
+export function priceEntry(entry: UsageEntry): number {
+  return (
+    entry.costUSD ??
+    calculateCostWithPricing(
+      getDefaultPricing(entry.model),
+      entry.inputTokens,
+      entry.outputTokens,
+      entry.cacheCreationTokens,
+      entry.cacheReadTokens
+    )
+  );
+}
+
+export function emptyTotals(): UsageTotals {
+  return {
+    sessions: new Set(),
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    costUSD: 0,
+  };
+}
+
+export function addToTotals(totals: UsageTotals, entry: UsageEntry): void {
+  totals.sessions.add(entry.sessionId);
+  totals.requests++;
+  totals.inputTokens += entry.inputTokens;
+  totals.outputTokens += entry.outputTokens;
+  totals.cacheCreationTokens += entry.cacheCreationTokens;
+  totals.cacheReadTokens += entry.cacheReadTokens;
+  totals.costUSD += priceEntry(entry);
+}
+
+export function mergeTotals(target: UsageTotals, source: UsageTotals): void {
+  for (const session of source.sessions) target.sessions.add(session);
+  target.requests += source.requests;
+  target.inputTokens += source.inputTokens;
+  target.outputTokens += source.outputTokens;
+  target.cacheCreationTokens += source.cacheCreationTokens;
+  target.cacheReadTokens += source.cacheReadTokens;
+  target.costUSD += source.costUSD;
+}
+
+export function formatNumber(value: number): string {
+  return value.toLocaleString("en-US");
+}
+
+// Plain-text table: first column left-aligned, the rest right-aligned, optional footer row
+export function formatTable(headers: string[], rows: string[][], footer?: string[]): string {
+  const allRows = footer ? [...rows, footer] : rows;
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...allRows.map((row) => row[column]?.length ?? 0))
+  );
+  const format = (row: string[]) =>
+    row
+      .map((cell, column) => (column === 0 ? cell.padEnd(widths[column]!) : cell.padStart(widths[column]!)))
+      .join("  ")
+      .trimEnd();
+  const divider = widths.map((width) => "─".repeat(width)).join("  ");
+
+  const lines = [format(headers), divider, ...rows.map(format)];
+  if (footer) lines.push(divider, format(footer));
+  return lines.join("\n");
+}
@@ -4,8 +4,14 @@ import { Command } from "commander";
 import { spawn, execSync, type ChildProcess } from "node:child_process";
 import { setup, quickSetup } from "./setup.js";
 import { start, stop, isRunning, getPidFilePath } from "./watcher.js";
-import { loadConfig, getConfigPath, deleteConfig, getStatePath } from "./config.js";
+import { loadConfig, getConfigPath, deleteConfig, getStatePath, getQueuePath, getBackoffPath, getWatchedClaudeDirs, getCandidateClaudeDirs, hasClaudeProjects } from "./config.js";
 import { clearState } from "./state.js";
+import { clearQueue, getQueueStats } from "./queue.js";
+import { loadBackoffState, clearBackoffState } from "./backoff.js";
+import { backfill } from "./backfill.js";
+import { parseDateOption, listProjects } from "./history.js";
+import { getProjectPrivacy } from "./privacy.js";
+import { report, REPORT_GROUPS, REPORT_FORMATS, type ReportGroup, type ReportFormat } from "./report.js";
 import { readFileSync, existsSync, unlinkSync, writeFileSync } from "node:fs";
 import { join, dirname } from "node:path";
 import { homedir } from "node:os";
@@ -32,6 +38,7 @@ program
   .description("Configure the daemon and register with server")
   .option("-s, --server <url>", "Server URL")
   .option("-k, --key <apiKey>", "API key from server (skip registration)")
+  .option("-t, --token <token>", "Registration token from the server's Devices page")
   .option("-n, --name <name>", "Device name")
   .action(async (options) => {
     if (options.key && options.server) {
@@ -45,6 +52,7 @@ program
       // Interactive setup with registration
       await setup({
         server: options.server,
+        token: options.token,
         name: options.name,
       });
     }
@@ -245,17 +253,73 @@ program
 
     console.log("Config:      ✅ Configured");
     console.log(`Server URL:  ${config.serverUrl}`);
-    console.log(`Claude Dir:  ${config.claudeDir}`);
+    const claudeDirs = getWatchedClaudeDirs(config);
+    claudeDirs.forEach((dir, index) => {
+      const label = index === 0 ? "Claude Dirs: " : "             ";
+      const found = hasClaudeProjects(dir) ? "✅ found" : "⏳ waiting for projects/";
+      console.log(`${label}${dir} (${found})`);
+    });
     console.log(`Interval:    ${config.pushIntervalMs / 1000}s`);
 
+    const queueStats = getQueueStats(getQueuePath());
+    if (queueStats.entries > 0) {
+      const oldest = queueStats.oldest ? new Date(queueStats.oldest).toLocaleString() : "unknown";
+      console.log(`Queue:       ${queueStats.entries} unsent entries (oldest: ${oldest})`);
+    } else {
+      console.log("Queue:       Empty");
+    }
+
+    // Backoff state is only meaningful while the daemon is running
+    const backoff = running ? loadBackoffState(getBackoffPath()) : null;
+    if (backoff && backoff.pausedUntil > Date.now()) {
+      const remaining = Math.ceil((backoff.pausedUntil - Date.now()) / 1000);
+      const failures =
+        backoff.consecutiveFailures > 0 ? `, ${backoff.consecutiveFailures} consecutive failures` : "";
+      console.log(`Backoff:     ⏸️  Pushes paused for ${remaining}s (${backoff.reason ?? "unknown"}${failures})`);
+    } else if (backoff && backoff.consecutiveFailures > 0) {
+      console.log(`Backoff:     🔁 Retrying (${backoff.consecutiveFailures} consecutive failures: ${backoff.reason ?? "unknown"})`);
+    } else if (running) {
+      console.log("Backoff:     None");
+    }
+
     if (options.verbose) {
       console.log("\n─".repeat(40));
       console.log("File Paths:");
       console.log(`  Config:    ${getConfigPath()}`);
       console.log(`  State:     ${getStatePath()}`);
+      console.log(`  Queue:     ${getQueuePath()}`);
+      console.log(`  Backoff:   ${getBackoffPath()}`);
       console.log(`  PID:       ${pidFile}`);
       console.log(`  Logs:      /tmp/claude-usage-daemon.log`);
       console.log(`  Errors:    /tmp/claude-usage-daemon.error.log`);
+
+      // What the server will see for each local project, after the privacy rules
+      const projects = listProjects(getWatchedClaudeDirs(config), config.projectNames);
+      const privacy = getProjectPrivacy(config);
+      // Read-only - a missing salt is generated by setup or start, not here
+      const hasSalt = !!config.privacy?.salt;
+      if (config.privacy?.hash?.length) {
+        console.log(`\nPrivacy salt: ${hasSalt ? "Present" : "Missing - generated on next start"}`);
+      }
+      const width = Math.max(0, ...projects.map((project) => project.length));
+      console.log("\nProjects (local → sent):");
+      if (projects.length === 0) {
+        console.log("  None yet");
+      }
+      for (const project of projects) {
+        const rule = privacy.getRule(project);
+        const sent =
+          rule.action === "exclude"
+            ? "✗ excluded"
+            : rule.action === "send"
+              ? rule.name
+              : rule.action === "alias"
+                ? `${rule.name} (alias)`
+                : hasSalt
+                  ? `${rule.name} (hashed)`
+                  : "hashed once the salt is generated";
+        console.log(`  ${project.padEnd(width)}  →  ${sent}`);
+      }
     }
 
     console.log("");
@@ -317,8 +381,9 @@ program
   .action((options) => {
     console.log("🔄 Resetting daemon state...");
 
-    // Clear state
+    // Clear state and any unsent entries (they'll be re-read from the files)
     clearState();
+    clearQueue(getQueuePath());
     console.log("✅ State cleared (will re-process all files on next start)");
 
     if (options.config) {
@@ -386,8 +451,10 @@ program
       }
     }
 
-    // Clear state and config
+    // Clear state, queue and config
     clearState();
+    clearQueue(getQueuePath());
+    clearBackoffState(getBackoffPath());
     deleteConfig();
 
     // Clean up log files
@@ -484,6 +551,78 @@ program
     }
   });
 
+// Backfill command
+program
+  .command("backfill")
+  .description("Push historical usage once, without starting the watcher")
+  .option("--since <date>", "Only entries from this date (YYYY-MM-DD or ISO timestamp)")
+  .option("--until <date>", "Only entries up to this date (YYYY-MM-DD or ISO timestamp)")
+  .option("-p, --project <glob...>", "Only projects matching these globs")
+  .option("-d, --dry-run", "Print per-project totals instead of pushing")
+  .option("--restart", "Ignore the checkpoint from an interrupted backfill")
+  .action(async (options) => {
+    const config = loadConfig();
+    if (!config) {
+      console.error("❌ Daemon not configured. Run 'claude-usage-daemon setup' first.");
+      process.exit(1);
+    }
+
+    try {
+      await backfill(config, {
+        since: options.since ? parseDateOption(options.since, false) : undefined,
+        until: options.until ? parseDateOption(options.until, true) : undefined,
+        projects: options.project,
+        projectNaming: config.projectNames,
+        dryRun: options.dryRun,
+        restart: options.restart,
+      });
+    } catch (error) {
+      console.error(`\n❌ ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  });
+
+// Report command
+program
+  .command("report")
+  .description("Print usage from local transcripts (no server needed)")
+  .option("--since <date>", "Only entries from this date (YYYY-MM-DD or ISO timestamp)")
+  .option("--until <date>", "Only entries up to this date (YYYY-MM-DD or ISO timestamp)")
+  .option("-p, --project <glob...>", "Only projects matching these globs")
+  .option("-g, --group <groups...>", `Tables to print: ${REPORT_GROUPS.join(", ")}`, [...REPORT_GROUPS])
+  .option("-o, --output <format>", `Output format: ${REPORT_FORMATS.join(", ")}`, "table")
+  .action(async (options) => {
+    const groups = options.group as string[];
+    const invalidGroup = groups.find((group) => !REPORT_GROUPS.includes(group as ReportGroup));
+    if (invalidGroup) {
+      console.error(`❌ Unknown group '${invalidGroup}'. Use ${REPORT_GROUPS.join(", ")}.`);
+      process.exit(1);
+    }
+
+    if (!REPORT_FORMATS.includes(options.output)) {
+      console.error(`❌ Unknown format '${options.output}'. Use ${REPORT_FORMATS.join(", ")}.`);
+      process.exit(1);
+    }
+
+    // Works before setup too - then every known Claude directory is read
+    const config = loadConfig();
+    const claudeDirs = config ? getWatchedClaudeDirs(config) : getCandidateClaudeDirs();
+
+    try {
+      await report(claudeDirs, {
+        since: options.since ? parseDateOption(options.since, false) : undefined,
+        until: options.until ? parseDateOption(options.until, true) : undefined,
+        projects: options.project,
+        projectNaming: config?.projectNames,
+        groups: groups as ReportGroup[],
+        format: options.output as ReportFormat,
+      });
+    } catch (error) {
+      console.error(`❌ ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  });
+
 // Test connection
 program
   .command("test")
@@ -1,15 +1,118 @@
 import { createReadStream, statSync } from "node:fs";
-import { createInterface } from "node:readline";
-import type { ClaudeCodeEntry, UsageEntry } from "@davidilie/claude-code-prometheus-shared";
+import type { ClaudeCodeEntry, ProjectNaming, UsageEntry } from "@davidilie/claude-code-prometheus-shared";
+import { getGitInfo, getProjectName, getProjectPath } from "./project.js";
 
 export interface ParseResult {
   entries: UsageEntry[];
   newPosition: number;
 }
 
+const NEWLINE = 0x0a;
+const CARRIAGE_RETURN = 0x0d;
+
+function parseLine(
+  line: string,
+  filePath: string,
+  sessionId: string,
+  project: string
+): UsageEntry | null {
+  if (!line.trim()) return null;
+
+  try {
+    const entry = JSON.parse(line) as ClaudeCodeEntry;
+
+    // Only process assistant messages with usage data
+    if (
+      entry.type === "assistant" &&
+      entry.message?.usage
+    ) {
+      const usage = entry.message.usage;
+
+      return {
+        uuid: entry.uuid,
+        sessionId: entry.sessionId || sessionId,
+        project,
+        timestamp: entry.timestamp,
+        type: entry.type,
+        model: entry.message.model ?? entry.model,
+        inputTokens: usage.input_tokens || 0,
+        outputTokens: usage.output_tokens || 0,
+        cacheCreationTokens: usage.cache_creation_input_tokens || 0,
+        cacheReadTokens: usage.cache_read_input_tokens || 0,
+        costUSD: entry.costUSD,
+        messageId: entry.message.id,
+        requestId: entry.requestId,
+        cwd: entry.cwd,
+        gitBranch: entry.gitBranch,
+        version: entry.version,
+        isSidechain: entry.isSidechain,
+      };
+    }
+  } catch (error) {
+    // Skip malformed lines
+    console.error(`Error parsing line in ${filePath}:`, error);
+  }
+
+  return null;
+}
+
+function totalTokens(entry: UsageEntry): number {
+  return entry.inputTokens + entry.outputTokens + entry.cacheCreationTokens + entry.cacheReadTokens;
+}
+
+// Streamed responses are written as several lines with the same message and
+// request id, each carrying the usage so far. Keep one entry per request.
+function getRequestKey(entry: UsageEntry): string | null {
+  if (!entry.messageId && !entry.requestId) return null;
+  return `${entry.messageId ?? ""}:${entry.requestId ?? ""}`;
+}
+
+/**
+ * Read newline-terminated lines from `startPosition`, returning the offset
+ * just past the last complete line.
+ *
+ * Works in raw bytes so offsets stay exact with multi-byte characters and
+ * CRLF. A partial final line (a writer mid-append) is left for the next read,
+ * so the offset always lands on a record boundary. `chunkSize` only changes
+ * how much is read at a time - the tests use it to split lines mid-character.
+ */
+export async function readCompleteLines(
+  filePath: string,
+  startPosition: number,
+  onLine: (line: string) => void,
+  chunkSize?: number
+): Promise<number> {
+  const stream = createReadStream(filePath, { start: startPosition, highWaterMark: chunkSize });
+  let pending: Buffer = Buffer.alloc(0);
+  // Bytes from startPosition up to the end of the last complete line
+  let committed = 0;
+
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    const buffer = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+    let lineStart = 0;
+    let newline = buffer.indexOf(NEWLINE);
+
+    while (newline !== -1) {
+      const lineEnd =
+        newline > lineStart && buffer[newline - 1] === CARRIAGE_RETURN ? newline - 1 : newline;
+
+      onLine(buffer.toString("utf-8", lineStart, lineEnd));
+
+      lineStart = newline + 1;
+      newline = buffer.indexOf(NEWLINE, lineStart);
+    }
+
+    committed += lineStart;
+    pending = buffer.subarray(lineStart);
+  }
+
+  return startPosition + committed;
+}
+
 export async function parseJSONLFile(
   filePath: string,
-  startPosition: number = 0
+  startPosition: number = 0,
+  projectNaming: ProjectNaming = "path"
 ): Promise<ParseResult> {
   const stats = statSync(filePath);
 
@@ -19,7 +122,23 @@ export async function parseJSONLFile(
   }
 
   const entries: UsageEntry[] = [];
-  let currentPosition = 0;
+  const entryIndexByRequest = new Map<string, number>();
+
+  function addEntry(entry: UsageEntry): void {
+    const key = getRequestKey(entry);
+    const index = key ? entryIndexByRequest.get(key) : undefined;
+
+    if (index === undefined) {
+      if (key) entryIndexByRequest.set(key, entries.length);
+      entries.push(entry);
+      return;
+    }
+
+    // Usage is cumulative - the latest line has the final counts
+    if (totalTokens(entry) >= totalTokens(entries[index]!)) {
+      entries[index] = entry;
+    }
+  }
 
   // Extract session ID and project from file path
   // Path format: ~/.claude/projects/{project}/{sessionId}.jsonl
@@ -27,63 +146,29 @@ export async function parseJSONLFile(
   const fileName = pathParts[pathParts.length - 1];
   const sessionId = fileName?.replace(".jsonl", "") ?? "unknown";
 
-  // Find project - it's the directory before the session file
+  // Find project - the folder under projects/, named after its working directory
   const projectIndex = pathParts.indexOf("projects");
   const projectPart = projectIndex !== -1 ? pathParts[projectIndex + 1] : undefined;
-  const project = projectPart ? decodeURIComponent(projectPart) : "unknown";
-
-  return new Promise((resolve, reject) => {
-    const stream = createReadStream(filePath, {
-      start: startPosition,
-      encoding: "utf-8",
-    });
-
-    const rl = createInterface({
-      input: stream,
-      crlfDelay: Infinity,
-    });
-
-    rl.on("line", (line) => {
-      currentPosition += Buffer.byteLength(line, "utf-8") + 1; // +1 for newline
-
-      if (!line.trim()) return;
-
-      try {
-        const entry = JSON.parse(line) as ClaudeCodeEntry;
-
-        // Only process assistant messages with usage data
-        if (
-          entry.type === "assistant" &&
-          entry.message?.usage
-        ) {
-          const usage = entry.message.usage;
-
-          entries.push({
-            sessionId: entry.sessionId || sessionId,
-            project,
-            timestamp: entry.timestamp,
-            type: entry.type,
-            model: entry.model,
-            inputTokens: usage.input_tokens || 0,
-            outputTokens: usage.output_tokens || 0,
-            cacheCreationTokens: usage.cache_creation_input_tokens || 0,
-            cacheReadTokens: usage.cache_read_input_tokens || 0,
-            costUSD: entry.costUSD,
-          });
-        }
-      } catch (error) {
-        // Skip malformed lines
-        console.error(`Error parsing line in ${filePath}:`, error);
-      }
-    });
-
-    rl.on("close", () => {
-      resolve({
-        entries,
-        newPosition: startPosition + currentPosition,
-      });
-    });
-
-    rl.on("error", reject);
+  const project = projectPart
+    ? getProjectName(pathParts.slice(0, projectIndex + 2).join("/"), projectNaming)
+    : "unknown";
+
+  const newPosition = await readCompleteLines(filePath, startPosition, (line) => {
+    const entry = parseLine(line, filePath, sessionId, project);
+    if (entry) addEntry(entry);
   });
+
+  // Attribute entries to the repository they ran in - older transcripts have no cwd,
+  // so fall back to the project's own directory
+  const projectPath = projectPart ? getProjectPath(pathParts.slice(0, projectIndex + 2).join("/")) : null;
+  for (const entry of entries) {
+    const path = entry.cwd ?? projectPath;
+    const git = path?.startsWith("/") ? getGitInfo(path, entry.gitBranch) : null;
+    if (!git) continue;
+    entry.gitRemote = git.remote;
+    entry.gitRepo = git.repo;
+    entry.gitBranch = git.branch;
+  }
+
+  return { entries, newPosition };
 }
@@ -0,0 +1,105 @@
+import { createHash, randomBytes } from "node:crypto";
+import type {
+  DaemonConfig,
+  ProjectPrivacyConfig,
+  UsageEntry,
+} from "@davidilie/claude-code-prometheus-shared";
+import { saveConfig } from "./config.js";
+import { globToRegExp } from "./history.js";
+
+export type ProjectRule =
+  | { action: "send"; name: string }
+  | { action: "alias"; name: string }
+  | { action: "hash"; name: string }
+  | { action: "exclude" };
+
+const HASH_LENGTH = 12;
+
+/**
+ * Rewrites project names before entries leave the machine.
+ *
+ * Excluded projects are dropped, aliased and hashed ones are renamed. A
+ * renamed entry also loses its working directory and git details, which
+ * would give the original project away.
+ */
+export class ProjectPrivacy {
+  private exclude: RegExp[];
+  private aliases: [RegExp, string][];
+  private hash: RegExp[];
+  private salt: string;
+  private rules = new Map<string, ProjectRule>();
+
+  constructor(config: ProjectPrivacyConfig = {}) {
+    this.exclude = (config.exclude ?? []).map(globToRegExp);
+    this.aliases = Object.entries(config.aliases ?? {}).map(([glob, alias]) => [globToRegExp(glob), alias]);
+    this.hash = (config.hash ?? []).map(globToRegExp);
+    this.salt = config.salt ?? "";
+  }
+
+  getRule(project: string): ProjectRule {
+    let rule = this.rules.get(project);
+    if (!rule) {
+      rule = this.resolve(project);
+      this.rules.set(project, rule);
+    }
+    return rule;
+  }
+
+  private resolve(project: string): ProjectRule {
+    if (this.exclude.some((pattern) => pattern.test(project))) {
+      return { action: "exclude" };
+    }
+
+    const alias = this.aliases.find(([pattern]) => pattern.test(project));
+    if (alias) {
+      return { action: "alias", name: alias[1] };
+    }
+
+    if (this.hash.some((pattern) => pattern.test(project))) {
+      const digest = createHash("sha256").update(`${this.salt}:${project}`).digest("hex");
+      return { action: "hash", name: `project-${digest.slice(0, HASH_LENGTH)}` };
+    }
+
+    return { action: "send", name: project };
+  }
+
+  apply(entries: UsageEntry[]): UsageEntry[] {
+    const result: UsageEntry[] = [];
+
+    for (const entry of entries) {
+      const rule = this.getRule(entry.project);
+      if (rule.action === "exclude") continue;
+      if (rule.action === "send") {
+        result.push(entry);
+        continue;
+      }
+      result.push({
+        ...entry,
+        project: rule.name,
+        cwd: undefined,
+        gitRemote: undefined,
+        gitRepo: undefined,
+        gitBranch: undefined,
+      });
+    }
+
+    return result;
+  }
+}
+
+export function generatePrivacySalt(): string {
+  return randomBytes(16).toString("hex");
+}
+
+// Hashed names must stay stable across restarts, so the salt is generated once
+// and saved - by setup, or by start for configs written before it did that
+export function ensurePrivacySalt(config: DaemonConfig): void {
+  if (config.privacy?.hash?.length && !config.privacy.salt) {
+    config.privacy.salt = generatePrivacySalt();
+    saveConfig(config);
+  }
+}
+
+export function getProjectPrivacy(config: DaemonConfig): ProjectPrivacy {
+  return new ProjectPrivacy(config.privacy);
+}
@@ -0,0 +1,252 @@
+import { closeSync, existsSync, openSync, readdirSync, readFileSync, readSync, statSync } from "node:fs";
+import { basename, dirname, join, resolve } from "node:path";
+import { matchesProjectDir, type ProjectNaming } from "@davidilie/claude-code-prometheus-shared";
+
+// How much of a transcript is read when looking for its working directory
+const SAMPLE_BYTES = 64 * 1024;
+const MAX_SAMPLED_FILES = 5;
+// Upper bound on path lookups when decoding a folder name against the filesystem
+const MAX_DECODE_STEPS = 2000;
+
+// Only successful lookups are cached - a project without a recorded cwd yet is tried again
+const projectPaths = new Map<string, string>();
+const projectNames = new Map<string, string>();
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function readHead(filePath: string): string {
+  const fd = openSync(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(SAMPLE_BYTES);
+    const bytesRead = readSync(fd, buffer, 0, SAMPLE_BYTES, 0);
+    return buffer.toString("utf-8", 0, bytesRead);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+// The working directory recorded in the project's transcripts, if it matches the folder name
+function findRecordedCwd(projectDir: string, dirName: string): string | null {
+  let files: string[];
+  try {
+    files = readdirSync(projectDir).filter((name) => name.endsWith(".jsonl"));
+  } catch {
+    return null;
+  }
+
+  for (const name of files.slice(0, MAX_SAMPLED_FILES)) {
+    let head: string;
+    try {
+      head = readHead(join(projectDir, name));
+    } catch {
+      continue;
+    }
+
+    for (const line of head.split("\n")) {
+      if (!line.includes('"cwd"')) continue;
+      try {
+        const { cwd } = JSON.parse(line) as { cwd?: unknown };
+        if (typeof cwd === "string" && matchesProjectDir(cwd, dirName)) return cwd;
+      } catch {
+        // The sample can end mid-line
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Rebuild a path from an encoded folder name by checking which candidates exist.
+ *
+ * Each dash is a path separator, a literal dash or a dot. Separators are only
+ * tried where the path so far is an existing directory, so deleted projects
+ * can't be decoded and return null.
+ */
+export function decodeProjectDir(dirName: string): string | null {
+  if (!dirName.startsWith("-")) return null;
+
+  const [first, ...rest] = dirName.slice(1).split("-");
+  let steps = 0;
+
+  function search(dir: string, segment: string, remaining: string[]): string | null {
+    if (++steps > MAX_DECODE_STEPS) return null;
+
+    if (remaining.length === 0) {
+      const path = join(dir, segment);
+      return segment && existsSync(path) ? path : null;
+    }
+
+    const [next, ...others] = remaining;
+    if (segment && isDirectory(join(dir, segment))) {
+      const found = search(join(dir, segment), next!, others);
+      if (found) return found;
+    }
+
+    return search(dir, `${segment}-${next}`, others) ?? search(dir, `${segment}.${next}`, others);
+  }
+
+  return search("/", first!, rest);
+}
+
+// The project's real working directory, or the folder name when it can't be recovered
+export function getProjectPath(projectDir: string): string {
+  const cached = projectPaths.get(projectDir);
+  if (cached) return cached;
+
+  const dirName = basename(projectDir);
+  const path = findRecordedCwd(projectDir, dirName) ?? decodeProjectDir(dirName);
+  if (path) {
+    projectPaths.set(projectDir, path);
+    return path;
+  }
+
+  try {
+    return decodeURIComponent(dirName);
+  } catch {
+    return dirName;
+  }
+}
+
+function findRepoRoot(path: string): string | null {
+  for (let dir = path; ; dir = dirname(dir)) {
+    if (existsSync(join(dir, ".git"))) return dir;
+    if (dirname(dir) === dir) return null;
+  }
+}
+
+// github.com/acme/app for https, ssh and scp-style (git@host:path) remotes, without credentials
+function normalizeRemoteUrl(url: string): string {
+  const trimmed = url.trim().replace(/\/$/, "").replace(/\.git$/, "");
+
+  const scp = /^[^@/]+@([^:/]+):(.+)$/.exec(trimmed);
+  if (scp) return `${scp[1]}/${scp[2]}`;
+
+  try {
+    const parsed = new URL(trimmed);
+    return `${parsed.hostname}${parsed.pathname}`;
+  } catch {
+    return trimmed;
+  }
+}
+
+// The checkout's git dir, and the common dir holding config for linked worktrees
+function resolveGitDirs(repoRoot: string): { gitDir: string; commonDir: string } | null {
+  let gitDir = join(repoRoot, ".git");
+  if (!isDirectory(gitDir)) {
+    const link = /^gitdir:\s*(.+)$/m.exec(readFileSync(gitDir, "utf-8"));
+    if (!link) return null;
+    gitDir = resolve(repoRoot, link[1]!.trim());
+  }
+
+  const commonDirFile = join(gitDir, "commondir");
+  const commonDir = existsSync(commonDirFile)
+    ? resolve(gitDir, readFileSync(commonDirFile, "utf-8").trim())
+    : gitDir;
+  return { gitDir, commonDir };
+}
+
+// Read origin (or the first remote) from the repo's git config
+function readRemoteUrl(repoRoot: string): string | null {
+  try {
+    const dirs = resolveGitDirs(repoRoot);
+    if (!dirs) return null;
+
+    const remotes = new Map<string, string>();
+    let remote: string | null = null;
+    for (const line of readFileSync(join(dirs.commonDir, "config"), "utf-8").split("\n")) {
+      const section = /^\s*\[(.+)\]\s*$/.exec(line);
+      if (section) {
+        remote = /^remote "(.+)"$/.exec(section[1]!)?.[1] ?? null;
+        continue;
+      }
+      const url = /^\s*url\s*=\s*(.+)$/.exec(line);
+      if (remote && url && !remotes.has(remote)) remotes.set(remote, url[1]!);
+    }
+
+    const url = remotes.get("origin") ?? remotes.values().next().value;
+    return url ? normalizeRemoteUrl(url) : null;
+  } catch {
+    return null;
+  }
+}
+
+// The branch checked out right now, or undefined for a detached HEAD
+function readCurrentBranch(repoRoot: string): string | undefined {
+  try {
+    const dirs = resolveGitDirs(repoRoot);
+    if (!dirs) return undefined;
+    const head = readFileSync(join(dirs.gitDir, "HEAD"), "utf-8");
+    return /^ref:\s*refs\/heads\/(.+)$/m.exec(head)?.[1]?.trim();
+  } catch {
+    return undefined;
+  }
+}
+
+export interface GitInfo {
+  // Normalized origin URL, e.g. github.com/acme/my-app
+  remote?: string;
+  // owner/name from the remote, or the checkout's folder name without one
+  repo: string;
+  branch?: string;
+}
+
+// Repo root and remote per working directory - these don't change while the daemon runs
+const gitRepos = new Map<string, { root: string; remote: string | null } | null>();
+
+/**
+ * Git attribution for a working directory. `branch` is the transcript's
+ * gitBranch when given, otherwise the branch currently checked out.
+ */
+export function getGitInfo(path: string, recordedBranch?: string): GitInfo | null {
+  let repo = gitRepos.get(path);
+  if (repo === undefined) {
+    const root = findRepoRoot(path);
+    repo = root ? { root, remote: readRemoteUrl(root) } : null;
+    gitRepos.set(path, repo);
+  }
+  if (!repo) return null;
+
+  const remotePath = repo.remote?.split("/").slice(1).join("/");
+  return {
+    remote: repo.remote ?? undefined,
+    repo: remotePath || basename(repo.root),
+    branch: recordedBranch ?? readCurrentBranch(repo.root),
+  };
+}
+
+export function normalizeProjectPath(path: string, naming: ProjectNaming): string {
+  switch (naming) {
+    case "path":
+      return path;
+    case "basename":
+      return basename(path) || path;
+    case "repo-root":
+      return findRepoRoot(path) ?? path;
+    case "git-remote": {
+      const root = findRepoRoot(path);
+      return (root && readRemoteUrl(root)) ?? root ?? path;
+    }
+  }
+}
+
+// Project name for a {claudeDir}/projects/{folder} directory, as sent to the server
+export function getProjectName(projectDir: string, naming: ProjectNaming = "path"): string {
+  const key = `${naming}\0${projectDir}`;
+  const cached = projectNames.get(key);
+  if (cached) return cached;
+
+  const path = getProjectPath(projectDir);
+  // An undecodable folder name is used as is
+  if (!projectPaths.has(projectDir)) return path;
+
+  const name = normalizeProjectPath(path, naming);
+  projectNames.set(key, name);
+  return name;
+}
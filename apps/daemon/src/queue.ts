@@ -0,0 +1,185 @@
+import {
+  readFileSync,
+  writeFileSync,
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  renameSync,
+  unlinkSync,
+} from "node:fs";
+import { dirname } from "node:path";
+import type { FileIdentity, UsageEntry } from "@davidilie/claude-code-prometheus-shared";
+
+// Entries parsed from one read of a file, plus the offset to commit once they're acknowledged
+export interface QueuedBatch {
+  enqueuedAt: number;
+  // Source adapter that read the batch (missing in journals written before adapters = "claude-code")
+  source?: string;
+  filePath: string;
+  position: number;
+  // The file as it was when read, so a truncation or rewrite can be detected before it's committed
+  identity?: FileIdentity;
+  entries: UsageEntry[];
+}
+
+export interface PushQueueOptions {
+  maxEntries?: number;
+  maxAgeMs?: number;
+}
+
+export const DEFAULT_MAX_QUEUE_ENTRIES = 200_000;
+export const DEFAULT_MAX_QUEUE_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+/**
+ * Journaled queue of entries waiting to be pushed.
+ *
+ * Every batch is appended to a JSONL journal before it's queued in memory, so
+ * a crash or kill never loses parsed usage. The journal is rewritten when
+ * batches are acknowledged or dropped for exceeding the size/age bounds.
+ */
+export class PushQueue {
+  private path: string;
+  private batches: QueuedBatch[] = [];
+  private entryCount = 0;
+  private maxEntries: number;
+  private maxAgeMs: number;
+
+  constructor(path: string, options: PushQueueOptions = {}) {
+    this.path = path;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_QUEUE_ENTRIES;
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_QUEUE_AGE_MS;
+    this.batches = readJournal(path);
+    this.entryCount = this.batches.reduce((sum, batch) => sum + batch.entries.length, 0);
+  }
+
+  enqueue(
+    source: string,
+    filePath: string,
+    position: number,
+    entries: UsageEntry[],
+    identity?: FileIdentity
+  ): void {
+    const batch: QueuedBatch = { enqueuedAt: Date.now(), source, filePath, position, identity, entries };
+
+    const dir = dirname(this.path);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    appendFileSync(this.path, JSON.stringify(batch) + "\n");
+
+    this.batches.push(batch);
+    this.entryCount += entries.length;
+  }
+
+  // Oldest batches first, up to maxEntries entries (always at least one batch)
+  peek(maxEntries: number = Infinity): QueuedBatch[] {
+    const result: QueuedBatch[] = [];
+    let count = 0;
+
+    for (const batch of this.batches) {
+      if (result.length > 0 && count + batch.entries.length > maxEntries) break;
+      result.push(batch);
+      count += batch.entries.length;
+    }
+
+    return result;
+  }
+
+  // Remove batches once the server has acknowledged them
+  acknowledge(batches: QueuedBatch[]): QueuedBatch[] {
+    const acknowledged = new Set(batches);
+    const removed = this.batches.filter((batch) => acknowledged.has(batch));
+    if (removed.length === 0) return removed;
+
+    this.batches = this.batches.filter((batch) => !acknowledged.has(batch));
+    this.entryCount -= removed.reduce((sum, batch) => sum + batch.entries.length, 0);
+    this.rewrite();
+    return removed;
+  }
+
+  // Drop batches that are too old or push the queue over its size limit
+  enforceLimits(): QueuedBatch[] {
+    const cutoff = Date.now() - this.maxAgeMs;
+    const dropped: QueuedBatch[] = [];
+    let remaining = this.entryCount;
+
+    for (const batch of this.batches) {
+      if (batch.enqueuedAt >= cutoff && remaining <= this.maxEntries) break;
+      remaining -= batch.entries.length;
+      dropped.push(batch);
+    }
+
+    return this.acknowledge(dropped);
+  }
+
+  // Latest queued batch for a file, so it isn't parsed again before the push is acknowledged
+  getPendingBatch(source: string, filePath: string): QueuedBatch | undefined {
+    let pending: QueuedBatch | undefined;
+    for (const batch of this.batches) {
+      if (getBatchSource(batch) === source && batch.filePath === filePath) pending = batch;
+    }
+    return pending;
+  }
+
+  getEntryCount(): number {
+    return this.entryCount;
+  }
+
+  getBatchCount(): number {
+    return this.batches.length;
+  }
+
+  getOldestEnqueuedAt(): number | null {
+    return this.batches[0]?.enqueuedAt ?? null;
+  }
+
+  private rewrite(): void {
+    if (this.batches.length === 0) {
+      if (existsSync(this.path)) unlinkSync(this.path);
+      return;
+    }
+
+    // Write then rename so a crash mid-write can't corrupt the journal
+    const tmpPath = `${this.path}.tmp`;
+    writeFileSync(tmpPath, this.batches.map((batch) => JSON.stringify(batch)).join("\n") + "\n");
+    renameSync(tmpPath, this.path);
+  }
+}
+
+export function getBatchSource(batch: QueuedBatch): string {
+  return batch.source ?? "claude-code";
+}
+
+function readJournal(path: string): QueuedBatch[] {
+  if (!existsSync(path)) return [];
+
+  const batches: QueuedBatch[] = [];
+  const lines = readFileSync(path, "utf-8").split("\n");
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      batches.push(JSON.parse(line) as QueuedBatch);
+    } catch {
+      // A torn final line from a crash mid-append - the file will be re-read from the last committed offset
+    }
+  }
+
+  return batches;
+}
+
+export function clearQueue(path: string): void {
+  if (existsSync(path)) {
+    unlinkSync(path);
+  }
+}
+
+// Read queue stats without holding the queue (for `status`)
+export function getQueueStats(path: string): { entries: number; batches: number; oldest: number | null } {
+  const batches = readJournal(path);
+  return {
+    entries: batches.reduce((sum, batch) => sum + batch.entries.length, 0),
+    batches: batches.length,
+    oldest: batches[0]?.enqueuedAt ?? null,
+  };
+}
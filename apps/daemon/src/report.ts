@@ -0,0 +1,229 @@
+import type { UsageEntry } from "@davidilie/claude-code-prometheus-shared";
+import { parseJSONLFile } from "./parser.js";
+import {
+  findSessionFiles,
+  isInRange,
+  emptyTotals,
+  addToTotals,
+  formatNumber,
+  formatTable,
+  type HistoryFilters,
+  type UsageTotals,
+} from "./history.js";
+
+export const REPORT_GROUPS = ["daily", "weekly", "project", "model"] as const;
+export const REPORT_FORMATS = ["table", "json", "csv"] as const;
+
+export type ReportGroup = (typeof REPORT_GROUPS)[number];
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export interface ReportOptions extends HistoryFilters {
+  groups: ReportGroup[];
+  format: ReportFormat;
+}
+
+interface ReportRow {
+  key: string;
+  sessions: number;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  totalTokens: number;
+  costUSD: number;
+}
+
+const GROUP_TITLES: Record<ReportGroup, { title: string; column: string }> = {
+  daily: { title: "Daily", column: "Date" },
+  weekly: { title: "Weekly (weeks start on Monday)", column: "Week" },
+  project: { title: "By project", column: "Project" },
+  model: { title: "By model", column: "Model" },
+};
+
+function toLocalDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function getGroupKey(group: ReportGroup, entry: UsageEntry): string {
+  switch (group) {
+    case "daily":
+      return toLocalDate(new Date(entry.timestamp));
+    case "weekly": {
+      const date = new Date(entry.timestamp);
+      date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+      return toLocalDate(date);
+    }
+    case "project":
+      return entry.project;
+    case "model":
+      return entry.model ?? "unknown";
+  }
+}
+
+function totalTokens(entry: UsageEntry | UsageTotals): number {
+  return entry.inputTokens + entry.outputTokens + entry.cacheCreationTokens + entry.cacheReadTokens;
+}
+
+// Resumed sessions repeat earlier messages in a new file - keep one entry per request
+async function readEntries(claudeDirs: string[], filters: HistoryFilters): Promise<UsageEntry[]> {
+  const entries = new Map<string, UsageEntry>();
+
+  for (const file of findSessionFiles(claudeDirs, filters)) {
+    const result = await parseJSONLFile(file.path, 0, filters.projectNaming);
+
+    for (const entry of result.entries) {
+      if (!isInRange(entry, filters)) continue;
+
+      const key =
+        entry.messageId || entry.requestId
+          ? `${entry.messageId ?? ""}:${entry.requestId ?? ""}`
+          : (entry.uuid ?? `${file.path}:${entries.size}`);
+      const existing = entries.get(key);
+      if (!existing || totalTokens(entry) > totalTokens(existing)) {
+        entries.set(key, entry);
+      }
+    }
+  }
+
+  return [...entries.values()];
+}
+
+function toReportRow(key: string, totals: UsageTotals): ReportRow {
+  return {
+    key,
+    sessions: totals.sessions.size,
+    requests: totals.requests,
+    inputTokens: totals.inputTokens,
+    outputTokens: totals.outputTokens,
+    cacheCreationTokens: totals.cacheCreationTokens,
+    cacheReadTokens: totals.cacheReadTokens,
+    totalTokens: totalTokens(totals),
+    costUSD: totals.costUSD,
+  };
+}
+
+// Dates in order, projects and models by cost
+function buildRows(group: ReportGroup, entries: UsageEntry[]): ReportRow[] {
+  const totals = new Map<string, UsageTotals>();
+
+  for (const entry of entries) {
+    const key = getGroupKey(group, entry);
+    let groupTotals = totals.get(key);
+    if (!groupTotals) {
+      groupTotals = emptyTotals();
+      totals.set(key, groupTotals);
+    }
+    addToTotals(groupTotals, entry);
+  }
+
+  const rows = [...totals.entries()].map(([key, groupTotals]) => toReportRow(key, groupTotals));
+  return group === "daily" || group === "weekly"
+    ? rows.sort((a, b) => a.key.localeCompare(b.key))
+    : rows.sort((a, b) => b.costUSD - a.costUSD);
+}
+
+function formatRow(row: ReportRow): string[] {
+  return [
+    row.key,
+    formatNumber(row.sessions),
+    formatNumber(row.requests),
+    formatNumber(row.inputTokens),
+    formatNumber(row.outputTokens),
+    formatNumber(row.cacheCreationTokens),
+    formatNumber(row.cacheReadTokens),
+    formatNumber(row.totalTokens),
+    `$${row.costUSD.toFixed(2)}`,
+  ];
+}
+
+function printTables(groups: Map<ReportGroup, ReportRow[]>, total: ReportRow): void {
+  for (const [group, rows] of groups) {
+    const { title, column } = GROUP_TITLES[group];
+    console.log(`\n${title}\n`);
+    console.log(
+      formatTable(
+        [column, "Sessions", "Requests", "Input", "Output", "Cache Write", "Cache Read", "Total", "Cost"],
+        rows.map(formatRow),
+        formatRow(total)
+      )
+    );
+  }
+  console.log("\nCosts use the bundled pricing table.\n");
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function printCsv(groups: Map<ReportGroup, ReportRow[]>): void {
+  console.log(
+    "group,key,sessions,requests,input_tokens,output_tokens,cache_creation_tokens,cache_read_tokens,total_tokens,cost_usd"
+  );
+  for (const [group, rows] of groups) {
+    for (const row of rows) {
+      console.log(
+        [
+          group,
+          escapeCsv(row.key),
+          row.sessions,
+          row.requests,
+          row.inputTokens,
+          row.outputTokens,
+          row.cacheCreationTokens,
+          row.cacheReadTokens,
+          row.totalTokens,
+          row.costUSD.toFixed(6),
+        ].join(",")
+      );
+    }
+  }
+}
+
+/**
+ * Print usage from the local transcripts - no server needed.
+ *
+ * Costs come from the pricing table bundled in the shared package, the same
+ * one the server falls back to.
+ */
+export async function report(claudeDirs: string[], options: ReportOptions): Promise<void> {
+  const entries = await readEntries(claudeDirs, options);
+
+  const groups = new Map<ReportGroup, ReportRow[]>();
+  for (const group of options.groups) {
+    groups.set(group, buildRows(group, entries));
+  }
+
+  const totals = emptyTotals();
+  for (const entry of entries) addToTotals(totals, entry);
+  const total = toReportRow("Total", totals);
+
+  switch (options.format) {
+    case "json":
+      console.log(
+        JSON.stringify(
+          {
+            since: options.since?.toISOString() ?? null,
+            until: options.until?.toISOString() ?? null,
+            projects: options.projects ?? null,
+            total,
+            ...Object.fromEntries(groups),
+          },
+          null,
+          2
+        )
+      );
+      return;
+    case "csv":
+      printCsv(groups);
+      return;
+    case "table":
+      if (entries.length === 0) {
+        console.log("\nNo usage found for these filters.\n");
+        return;
+      }
+      printTables(groups, total);
+      return;
+  }
+}
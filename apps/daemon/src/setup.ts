@@ -1,10 +1,12 @@
 import { createInterface } from "node:readline";
 import { hostname } from "node:os";
-import { saveConfig, getDefaultClaudeDir } from "./config.js";
+import { saveConfig, getDefaultClaudeDir, getWatchedClaudeDirs, hasClaudeProjects } from "./config.js";
 import type { DaemonConfig, DeviceRegistrationResponse } from "@davidilie/claude-code-prometheus-shared";
+import { generatePrivacySalt } from "./privacy.js";
 
 interface SetupOptions {
   server?: string;
+  token?: string;
   name?: string;
 }
 
@@ -81,19 +83,33 @@ export async function quickSetup(options: QuickSetupOptions): Promise<void> {
     deviceApiKey: options.apiKey,
     claudeDir: getDefaultClaudeDir(),
     pushIntervalMs: 30000, // 30 seconds
+    // Ready for hash rules added later, so hashed names never change
+    privacy: { salt: generatePrivacySalt() },
   };
 
   saveConfig(config);
 
   console.log("\n✅ Setup complete!\n");
   console.log(`Server URL:      ${config.serverUrl}`);
-  console.log(`Claude directory: ${config.claudeDir}`);
+  printClaudeDirs(config);
   console.log(`\nTo start the daemon:`);
   console.log(`  claude-usage-daemon start`);
   console.log(`\nTo install as a service (starts on login):`);
   console.log(`  claude-usage-daemon install-service\n`);
 }
 
+// Show which Claude directories were found and which the daemon will wait for
+function printClaudeDirs(config: DaemonConfig): void {
+  const dirs = getWatchedClaudeDirs(config);
+  console.log(`\nClaude directories:`);
+  for (const dir of dirs) {
+    console.log(`  ${hasClaudeProjects(dir) ? "✅" : "⏳"} ${dir}`);
+  }
+  if (!dirs.some(hasClaudeProjects)) {
+    console.log(`  None found yet - the daemon will pick them up once Claude Code has been used`);
+  }
+}
+
 // Interactive setup with registration
 export async function setup(options: SetupOptions): Promise<void> {
   console.log("\n📊 Claude Usage Daemon Setup\n");
@@ -106,6 +122,14 @@ export async function setup(options: SetupOptions): Promise<void> {
     process.exit(1);
   }
 
+  // Registration token, so the device is added to the right account
+  const token = options.token || await prompt("Registration token (Devices → Register Device on the server)");
+
+  if (!token) {
+    console.error("Error: Registration token is required");
+    process.exit(1);
+  }
+
   // Get device name
   const defaultName = `${process.env.USER || "user"}'s ${process.platform === "darwin" ? "Mac" : "Computer"}`;
   const deviceName = options.name || await prompt("Device name", defaultName);
@@ -120,6 +144,7 @@ export async function setup(options: SetupOptions): Promise<void> {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
       },
       body: JSON.stringify({
         name: deviceName,
@@ -140,6 +165,8 @@ export async function setup(options: SetupOptions): Promise<void> {
       deviceApiKey: data.apiKey,
       claudeDir: getDefaultClaudeDir(),
       pushIntervalMs: 30000, // 30 seconds
+      // Ready for hash rules added later, so hashed names never change
+      privacy: { salt: generatePrivacySalt() },
     };
 
     saveConfig(config);
@@ -147,7 +174,7 @@ export async function setup(options: SetupOptions): Promise<void> {
     console.log("\n✅ Setup complete!\n");
     console.log(`Device ID:        ${data.deviceId}`);
     console.log(`API Key:          ${data.apiKey}`);
-    console.log(`Claude directory: ${config.claudeDir}`);
+    printClaudeDirs(config);
     console.log(`\nTo start the daemon:`);
     console.log(`  claude-usage-daemon start`);
     console.log(`\nTo install as a service (starts on login):`);
@@ -0,0 +1,83 @@
+import { statSync } from "node:fs";
+import { basename, extname } from "node:path";
+import type { UsageEntry } from "@davidilie/claude-code-prometheus-shared";
+import { readCompleteLines } from "../parser.js";
+import { FileTailSource, type FileReadResult } from "./file-tail.js";
+
+// One Anthropic Messages API response per line, plus optional attribution fields
+interface ApiUsageLine {
+  id?: string;
+  model?: string;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+  };
+  request_id?: string;
+  timestamp?: string;
+  project?: string;
+  session_id?: string;
+}
+
+function parseApiUsageLine(
+  line: string,
+  filePath: string,
+  defaultProject: string
+): UsageEntry | null {
+  if (!line.trim()) return null;
+
+  try {
+    const response = JSON.parse(line) as ApiUsageLine;
+    if (!response.usage) return null;
+
+    const timestamp =
+      response.timestamp && !Number.isNaN(Date.parse(response.timestamp))
+        ? new Date(response.timestamp).toISOString()
+        : new Date().toISOString();
+
+    return {
+      uuid: response.id,
+      sessionId: response.session_id ?? basename(filePath, extname(filePath)),
+      project: response.project ?? defaultProject,
+      timestamp,
+      type: "assistant",
+      model: response.model,
+      inputTokens: response.usage.input_tokens || 0,
+      outputTokens: response.usage.output_tokens || 0,
+      cacheCreationTokens: response.usage.cache_creation_input_tokens || 0,
+      cacheReadTokens: response.usage.cache_read_input_tokens || 0,
+      messageId: response.id,
+      requestId: response.request_id,
+    };
+  } catch (error) {
+    // Skip malformed lines
+    console.error(`Error parsing line in ${filePath}:`, error);
+    return null;
+  }
+}
+
+// NDJSON usage logs written by our own API scripts (a file or a directory of them)
+export class ApiUsageSource extends FileTailSource {
+  constructor(path: string, project: string = "api", profile?: string) {
+    super({
+      id: `api-usage:${path}`,
+      description: `API usage log (${path})`,
+      root: path,
+      extensions: [".ndjson", ".jsonl"],
+      profile,
+      readFile: async (filePath, startPosition): Promise<FileReadResult> => {
+        if (statSync(filePath).size <= startPosition) {
+          return { entries: [], newPosition: startPosition };
+        }
+
+        const entries: UsageEntry[] = [];
+        const newPosition = await readCompleteLines(filePath, startPosition, (line) => {
+          const entry = parseApiUsageLine(line, filePath, project);
+          if (entry) entries.push(entry);
+        });
+        return { entries, newPosition };
+      },
+    });
+  }
+}
@@ -0,0 +1,58 @@
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import type { ProjectNaming } from "@davidilie/claude-code-prometheus-shared";
+import { parseJSONLFile } from "../parser.js";
+import { FileTailSource } from "./file-tail.js";
+import type { SourceContext } from "./types.js";
+
+const DIR_RETRY_INTERVAL_MS = 30_000;
+
+// Claude Code session transcripts: {claudeDir}/projects/{project}/{sessionId}.jsonl
+export class ClaudeCodeSource extends FileTailSource {
+  private projectsDir: string;
+  private waitTimer: NodeJS.Timeout | null = null;
+
+  constructor(id: string, claudeDir: string, profile?: string, projectNaming?: ProjectNaming) {
+    const projectsDir = join(claudeDir, "projects");
+    super({
+      id,
+      description: profile ? `Claude Code (${claudeDir}, ${profile})` : `Claude Code (${claudeDir})`,
+      root: projectsDir,
+      extensions: [".jsonl"],
+      profile,
+      readFile: (filePath, startPosition) => parseJSONLFile(filePath, startPosition, projectNaming),
+    });
+    this.projectsDir = projectsDir;
+  }
+
+  override async start(context: SourceContext): Promise<void> {
+    if (existsSync(this.projectsDir)) {
+      await super.start(context);
+      return;
+    }
+
+    // Claude Code may not have run on this machine yet - check again later
+    context.log(`Waiting for ${this.projectsDir} to be created`);
+    this.waitTimer = setInterval(() => {
+      if (!existsSync(this.projectsDir)) return;
+
+      this.clearWaitTimer();
+      context.log(`Found ${this.projectsDir}`);
+      super.start(context).catch((error) => {
+        context.logError(`Failed to start ${this.description}: ${error}`);
+      });
+    }, DIR_RETRY_INTERVAL_MS);
+  }
+
+  override async stop(): Promise<void> {
+    this.clearWaitTimer();
+    await super.stop();
+  }
+
+  private clearWaitTimer(): void {
+    if (this.waitTimer) {
+      clearInterval(this.waitTimer);
+      this.waitTimer = null;
+    }
+  }
+}
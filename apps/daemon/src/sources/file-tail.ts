@@ -0,0 +1,128 @@
+import chokidar, { type FSWatcher } from "chokidar";
+import type { UsageEntry } from "@davidilie/claude-code-prometheus-shared";
+import { detectFileChange, readFileIdentity } from "../file-identity.js";
+import { getFilePosition, getFileIdentity } from "../state.js";
+import type { SourceAdapter, SourceContext } from "./types.js";
+
+export interface FileReadResult {
+  entries: UsageEntry[];
+  newPosition: number;
+}
+
+export interface FileTailSourceOptions {
+  id: string;
+  description: string;
+  // Directory (or single file) to watch, recursively
+  root: string;
+  // Only files with one of these extensions are read
+  extensions: string[];
+  // Stamped on every entry read from this source
+  profile?: string;
+  readFile(filePath: string, startPosition: number): Promise<FileReadResult>;
+}
+
+/**
+ * Tails append-only log files under a root, filtered by extension.
+ *
+ * Each file's offset is its position; truncated, replaced or rewritten files
+ * are read again from the start and deleted files are forgotten.
+ */
+export class FileTailSource implements SourceAdapter {
+  readonly id: string;
+  readonly description: string;
+  private root: string;
+  private extensions: string[];
+  private profile?: string;
+  private readFile: FileTailSourceOptions["readFile"];
+  private watcher: FSWatcher | null = null;
+
+  constructor(options: FileTailSourceOptions) {
+    this.id = options.id;
+    this.description = options.description;
+    this.root = options.root;
+    this.extensions = options.extensions;
+    this.profile = options.profile;
+    this.readFile = options.readFile;
+  }
+
+  async start(context: SourceContext): Promise<void> {
+    let filesProcessed = 0;
+    let entriesFound = 0;
+
+    const processFile = async (filePath: string): Promise<void> => {
+      if (!this.matches(filePath)) return;
+
+      try {
+        // Compare against the latest read still in the queue, or the committed one
+        const pending = context.getPendingBatch(filePath);
+        let startPosition = pending ? pending.position : getFilePosition(context.state, filePath);
+        const previous = pending ? pending.identity : getFileIdentity(context.state, filePath);
+
+        // A truncated or replaced file is read again from the start. Entries that
+        // were already pushed are deduplicated by the server.
+        const change = startPosition > 0 ? detectFileChange(filePath, startPosition, previous) : null;
+        if (change) {
+          context.log(`${filePath} was ${change} - re-reading from the start`);
+          startPosition = 0;
+        }
+
+        const identity = readFileIdentity(filePath);
+        const result = await this.readFile(filePath, startPosition);
+        if (this.profile) {
+          for (const entry of result.entries) entry.profile = this.profile;
+        }
+
+        // Always queue after a reset so the new offset and identity get committed
+        if (result.newPosition > startPosition || change) {
+          if (result.entries.length > 0) {
+            context.log(`Found ${result.entries.length} new entries in ${filePath}`);
+            entriesFound += result.entries.length;
+          }
+          context.addEntries(filePath, result.newPosition, result.entries, identity);
+          filesProcessed++;
+        }
+      } catch (error) {
+        context.logError(`Error processing file ${filePath}: ${error}`);
+      }
+    };
+
+    // chokidar 4 has no glob support - watch the root and filter by extension
+    this.watcher = chokidar.watch(this.root, {
+      persistent: true,
+      ignored: (path, stats) => !!stats?.isFile() && !this.matches(path),
+      ignoreInitial: false,
+      awaitWriteFinish: {
+        stabilityThreshold: 500,
+        pollInterval: 100,
+      },
+    });
+
+    this.watcher.on("add", processFile);
+    this.watcher.on("change", processFile);
+
+    // Queued entries from a deleted file are still pushed, only its offset is forgotten
+    this.watcher.on("unlink", (filePath) => {
+      if (!this.matches(filePath)) return;
+      context.forget(filePath);
+    });
+
+    this.watcher.on("error", (error) => {
+      context.logError(`Watcher error (${this.id}): ${error}`);
+    });
+
+    this.watcher.on("ready", () => {
+      context.log(
+        `Initial scan of ${this.description} complete. Files processed: ${filesProcessed}, Entries found: ${entriesFound}`
+      );
+    });
+  }
+
+  private matches(filePath: string): boolean {
+    return this.extensions.some((extension) => filePath.endsWith(extension));
+  }
+
+  async stop(): Promise<void> {
+    await this.watcher?.close();
+    this.watcher = null;
+  }
+}
@@ -0,0 +1,28 @@
+import type { DaemonConfig, SourceConfig } from "@davidilie/claude-code-prometheus-shared";
+import { getWatchedClaudeDirs } from "../config.js";
+import { ClaudeCodeSource } from "./claude-code.js";
+import { ApiUsageSource } from "./api-usage.js";
+import type { SourceAdapter } from "./types.js";
+
+export type { SourceAdapter, SourceContext } from "./types.js";
+
+// Without explicit sources, watch every Claude directory we know about
+function getDefaultSources(config: DaemonConfig): SourceConfig[] {
+  return getWatchedClaudeDirs(config).map((dir) => ({ type: "claude-code", dir }));
+}
+
+// Build the adapters listed in the config. New source types are added here.
+export function createSources(config: DaemonConfig): SourceAdapter[] {
+  return (config.sources ?? getDefaultSources(config)).map((source) => {
+    switch (source.type) {
+      case "claude-code": {
+        // The configured claudeDir keeps the original state key
+        const dir = source.dir ?? config.claudeDir;
+        const id = dir === config.claudeDir ? "claude-code" : `claude-code:${dir}`;
+        return new ClaudeCodeSource(id, dir, source.profile, config.projectNames);
+      }
+      case "api-usage":
+        return new ApiUsageSource(source.path, source.project, source.profile);
+    }
+  });
+}
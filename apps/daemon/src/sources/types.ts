@@ -0,0 +1,32 @@
+import type { FileIdentity, SourceState, UsageEntry } from "@davidilie/claude-code-prometheus-shared";
+import type { QueuedBatch } from "../queue.js";
+
+// What the watcher hands a source adapter to report entries and track positions
+export interface SourceContext {
+  // This source's committed positions - only updated once pushes are acknowledged
+  state: SourceState;
+  // Latest read of `key` still waiting in the push queue
+  getPendingBatch(key: string): QueuedBatch | undefined;
+  // Queue entries read from `key` up to `position`
+  addEntries(key: string, position: number, entries: UsageEntry[], identity?: FileIdentity): void;
+  // Stop tracking `key` (e.g. the file was deleted)
+  forget(key: string): void;
+  log(message: string): void;
+  logError(message: string): void;
+}
+
+/**
+ * A log source the daemon reads usage from.
+ *
+ * Adapters turn their input into `UsageEntry` records and report them through
+ * the context with a position per key (usually a file path). Positions are
+ * committed to `DaemonState.sources[id]` once the server has the entries.
+ */
+export interface SourceAdapter {
+  // Stable id, used as the state key and recorded on queued batches
+  readonly id: string;
+  // Shown in logs, e.g. "Claude Code (~/.claude)"
+  readonly description: string;
+  start(context: SourceContext): Promise<void>;
+  stop(): Promise<void>;
+}
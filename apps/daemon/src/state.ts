@@ -1,25 +1,51 @@
 import { readFileSync, writeFileSync, existsSync, mkdirSync, unlinkSync } from "node:fs";
 import { dirname } from "node:path";
 import { getStatePath } from "./config.js";
-import type { DaemonState } from "@davidilie/claude-code-prometheus-shared";
+import type { DaemonState, FileIdentity, SourceState } from "@davidilie/claude-code-prometheus-shared";
 
-const DEFAULT_STATE: DaemonState = {
-  filePositions: {},
-  lastSync: new Date().toISOString(),
-};
+function createDefaultState(): DaemonState {
+  return {
+    sources: {},
+    lastSync: new Date().toISOString(),
+  };
+}
+
+// State files from before source adapters only tracked Claude Code files
+interface LegacyDaemonState {
+  filePositions?: Record<string, number>;
+  fileIdentities?: Record<string, FileIdentity>;
+  sources?: Record<string, SourceState>;
+  lastSync?: string;
+}
+
+function migrateState(raw: LegacyDaemonState): DaemonState {
+  const state: DaemonState = {
+    sources: raw.sources ?? {},
+    lastSync: raw.lastSync ?? new Date().toISOString(),
+  };
+
+  if (raw.filePositions && !state.sources["claude-code"]) {
+    state.sources["claude-code"] = {
+      filePositions: raw.filePositions,
+      fileIdentities: raw.fileIdentities,
+    };
+  }
+
+  return state;
+}
 
 export function loadState(): DaemonState {
   const statePath = getStatePath();
 
   if (!existsSync(statePath)) {
-    return DEFAULT_STATE;
+    return createDefaultState();
   }
 
   try {
     const content = readFileSync(statePath, "utf-8");
-    return JSON.parse(content) as DaemonState;
+    return migrateState(JSON.parse(content) as LegacyDaemonState);
   } catch {
-    return DEFAULT_STATE;
+    return createDefaultState();
   }
 }
 
@@ -42,15 +68,53 @@ export function clearState(): void {
   }
 }
 
-export function getFilePosition(state: DaemonState, filePath: string): number {
+// A source's slice of the state, created on first use
+export function getSourceState(state: DaemonState, sourceId: string): SourceState {
+  let sourceState = state.sources[sourceId];
+  if (!sourceState) {
+    sourceState = { filePositions: {} };
+    state.sources[sourceId] = sourceState;
+  }
+  return sourceState;
+}
+
+export function getFilePosition(state: SourceState, filePath: string): number {
   return state.filePositions[filePath] ?? 0;
 }
 
+export function getFileIdentity(state: SourceState, filePath: string): FileIdentity | undefined {
+  return state.fileIdentities?.[filePath];
+}
+
 export function setFilePosition(
-  state: DaemonState,
+  state: SourceState,
   filePath: string,
-  position: number
+  position: number,
+  identity?: FileIdentity
 ): void {
   state.filePositions[filePath] = position;
-  state.lastSync = new Date().toISOString();
+  if (identity) {
+    state.fileIdentities = { ...state.fileIdentities, [filePath]: identity };
+  } else {
+    delete state.fileIdentities?.[filePath];
+  }
+}
+
+export function removeFile(state: SourceState, filePath: string): void {
+  delete state.filePositions[filePath];
+  delete state.fileIdentities?.[filePath];
+}
+
+// Drop state for files that no longer exist, returns how many were removed
+export function pruneState(state: DaemonState): number {
+  let removed = 0;
+  for (const sourceState of Object.values(state.sources)) {
+    for (const filePath of Object.keys(sourceState.filePositions)) {
+      if (!existsSync(filePath)) {
+        removeFile(sourceState, filePath);
+        removed++;
+      }
+    }
+  }
+  return removed;
 }
@@ -1,11 +1,20 @@
-import chokidar from "chokidar";
 import { join } from "node:path";
 import { existsSync, readFileSync, unlinkSync, appendFileSync } from "node:fs";
 import type { DaemonConfig } from "@davidilie/claude-code-prometheus-shared";
 import { ApiClient } from "./client.js";
-import { parseJSONLFile } from "./parser.js";
-import { loadState, saveState, getFilePosition, setFilePosition } from "./state.js";
-import { getConfigDir } from "./config.js";
+import { BackoffController } from "./backoff.js";
+import { PushQueue, getBatchSource, type QueuedBatch } from "./queue.js";
+import { createSources, type SourceContext } from "./sources/index.js";
+import { ensurePrivacySalt, getProjectPrivacy } from "./privacy.js";
+import {
+  loadState,
+  saveState,
+  getSourceState,
+  setFilePosition,
+  removeFile,
+  pruneState,
+} from "./state.js";
+import { getConfigDir, getQueuePath, getBackoffPath } from "./config.js";
 
 // Log file paths
 const LOG_FILE = "/tmp/claude-usage-daemon.log";
@@ -131,94 +140,129 @@ export function getStatus(): {
 }
 
 export async function start(config: DaemonConfig): Promise<void> {
+  const sources = createSources(config);
+  ensurePrivacySalt(config);
+  const privacy = getProjectPrivacy(config);
+
   log("📊 Claude Usage Daemon Starting...");
   log(`Server: ${config.serverUrl}`);
-  log(`Watching: ${config.claudeDir}`);
+  log(`Sources: ${sources.map((source) => source.description).join(", ")}`);
   log(`Push interval: ${config.pushIntervalMs}ms`);
 
-  const projectsDir = join(config.claudeDir, "projects");
+  let state = loadState();
 
-  if (!existsSync(projectsDir)) {
-    logError(`Claude projects directory not found: ${projectsDir}`);
-    logError("Make sure Claude Code has been used at least once.");
-    process.exit(1);
+  const pruned = pruneState(state);
+  if (pruned > 0) {
+    log(`Removed ${pruned} deleted files from state`);
+    saveState(state);
   }
 
-  // Create API client with notifications enabled
-  const client = new ApiClient(config.serverUrl, config.deviceApiKey, {
-    enableNotifications: true,
-    maxRetries: 3,
-    retryDelayMs: 5000,
-  });
+  // File offsets are only committed once the server has acknowledged (or the
+  // queue has dropped) the entries read up to them
+  function commitPositions(batches: QueuedBatch[]): void {
+    for (const batch of batches) {
+      // Deleted while its entries were queued - nothing left to track
+      if (!existsSync(batch.filePath)) continue;
+      const sourceState = getSourceState(state, getBatchSource(batch));
+      setFilePosition(sourceState, batch.filePath, batch.position, batch.identity);
+    }
+    state.lastSync = new Date().toISOString();
+    saveState(state);
+  }
 
-  let state = loadState();
-  let filesProcessed = 0;
-  let entriesFound = 0;
+  // Unsent entries from a previous run are replayed from the on-disk queue
+  const queue = new PushQueue(getQueuePath(), {
+    maxEntries: config.maxQueueEntries,
+    maxAgeMs: config.maxQueueAgeDays ? config.maxQueueAgeDays * 24 * 60 * 60 * 1000 : undefined,
+  });
 
-  // Process a file
-  async function processFile(filePath: string): Promise<void> {
-    if (!filePath.endsWith(".jsonl")) return;
+  if (queue.getEntryCount() > 0) {
+    log(`Replaying ${queue.getEntryCount()} unsent entries from the queue`);
+  }
 
-    try {
-      const startPosition = getFilePosition(state, filePath);
-      const result = await parseJSONLFile(filePath, startPosition);
+  // Create API client with notifications enabled
+  const backoff = new BackoffController(getBackoffPath());
 
-      if (result.entries.length > 0) {
-        log(`Found ${result.entries.length} new entries in ${filePath}`);
-        client.addEntries(result.entries);
-        entriesFound += result.entries.length;
-      }
+  const client = new ApiClient(config.serverUrl, config.deviceApiKey, queue, backoff, {
+    enableNotifications: true,
+    batchSize: config.pushBatchSize,
+    onCommit: commitPositions,
+  });
 
-      if (result.newPosition > startPosition) {
-        setFilePosition(state, filePath, result.newPosition);
+  // Start every source - each one reports entries through its own context
+  for (const source of sources) {
+    const context: SourceContext = {
+      state: getSourceState(state, source.id),
+      getPendingBatch: (key) => client.getPendingBatch(source.id, key),
+      addEntries: (key, position, entries, identity) =>
+        client.addEntries(source.id, key, position, privacy.apply(entries), identity),
+      forget: (key) => {
+        removeFile(getSourceState(state, source.id), key);
         saveState(state);
-        filesProcessed++;
-      }
+      },
+      log,
+      logError,
+    };
+
+    try {
+      await source.start(context);
     } catch (error) {
-      logError(`Error processing file ${filePath}: ${error}`);
+      logError(error instanceof Error ? error.message : String(error));
+      process.exit(1);
     }
   }
 
-  // Set up file watcher
-  const watcher = chokidar.watch(`${projectsDir}/**/*.jsonl`, {
-    persistent: true,
-    ignoreInitial: false,
-    awaitWriteFinish: {
-      stabilityThreshold: 500,
-      pollInterval: 100,
-    },
-  });
-
-  watcher.on("add", processFile);
-  watcher.on("change", processFile);
-
-  watcher.on("error", (error) => {
-    logError(`Watcher error: ${error}`);
-  });
-
-  watcher.on("ready", () => {
-    log("Watching for Claude Code activity...");
-    log(`Initial scan complete. Files processed: ${filesProcessed}, Entries found: ${entriesFound}`);
-  });
+  log("Watching for Claude Code activity...");
 
   // Periodic flush to server
   let successfulPushes = 0;
   let failedPushes = 0;
 
-  const flushInterval = setInterval(async () => {
-    const queueSize = client.getQueueSize();
-    if (queueSize > 0) {
-      log(`Pushing ${queueSize} entries to server...`);
+  async function flushQueue(): Promise<void> {
+    if (client.hasPending()) {
+      const queueSize = client.getQueueSize();
+      if (queueSize > 0) {
+        log(`Pushing ${queueSize} entries to server...`);
+      }
       const result = await client.flush();
+      // Only file offsets were committed - nothing worth logging
+      if (queueSize === 0 && result.success) return;
       if (result.success) {
-        log(`Successfully pushed ${result.processed} entries`);
+        const details = [
+          result.duplicates > 0 ? `${result.duplicates} already on server` : null,
+          result.failed > 0 ? `${result.failed} rejected` : null,
+        ].filter(Boolean);
+        log(
+          details.length > 0
+            ? `Successfully pushed ${result.processed} entries (${details.join(", ")})`
+            : `Successfully pushed ${result.processed} entries`
+        );
         successfulPushes++;
       } else {
         log(`Failed to push entries: ${result.error || "Unknown error"}`);
         failedPushes++;
       }
     }
-  }, config.pushIntervalMs);
+  }
+
+  // Pushes run on the configured interval, but wait out any backoff instead of
+  // firing on schedule while the server is unavailable or rate limiting us
+  let flushTimer: NodeJS.Timeout | undefined;
+  let stopped = false;
+
+  function scheduleFlush(): void {
+    if (stopped) return;
+    const delay = Math.max(config.pushIntervalMs, client.getBackoffRemainingMs());
+    if (delay > config.pushIntervalMs) {
+      log(`Backing off - next push in ${Math.ceil(delay / 1000)}s`);
+    }
+    flushTimer = setTimeout(async () => {
+      await flushQueue();
+      scheduleFlush();
+    }, delay);
+  }
+
+  scheduleFlush();
 
   // Periodic stats logging (every 5 minutes)
   const statsInterval = setInterval(() => {
@@ -228,19 +272,20 @@ export async function start(config: DaemonConfig): Promise<void> {
   // Handle graceful shutdown
   const shutdown = async () => {
     log("Shutting down...");
-    clearInterval(flushInterval);
+    stopped = true;
+    clearTimeout(flushTimer);
     clearInterval(statsInterval);
-    await watcher.close();
+    await Promise.all(sources.map((source) => source.stop()));
 
-    // Final flush
-    const queueSize = client.getQueueSize();
-    if (queueSize > 0) {
+    // Final flush - anything that doesn't make it stays queued on disk for the next start
+    if (client.hasPending()) {
+      const queueSize = client.getQueueSize();
       log(`Pushing remaining ${queueSize} entries...`);
       const result = await client.flush();
       if (result.success) {
         log(`Final push successful: ${result.processed} entries`);
       } else {
-        logError(`Final push failed: ${result.error || "Unknown error"}`);
+        logError(`Final push failed, ${client.getQueueSize()} entries kept in queue: ${result.error || "Unknown error"}`);
       }
     }
 
@@ -0,0 +1,122 @@
+import { appendFileSync, copyFileSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { parseJSONLFile, readCompleteLines } from "../src/parser.js";
+
+const fixture = (name: string) => join(import.meta.dirname, "fixtures", name);
+
+async function readLines(filePath: string, startPosition = 0, chunkSize?: number) {
+  const lines: string[] = [];
+  const newPosition = await readCompleteLines(filePath, startPosition, (line) => lines.push(line), chunkSize);
+  return { lines, newPosition };
+}
+
+describe("readCompleteLines", () => {
+  it("reads a complete file up to its end", async () => {
+    const bytes = readFileSync(fixture("complete.jsonl"));
+    const { lines, newPosition } = await readLines(fixture("complete.jsonl"));
+
+    expect(lines).toHaveLength(3);
+    expect(newPosition).toBe(bytes.length);
+  });
+
+  it("stops before a partial trailing write", async () => {
+    const bytes = readFileSync(fixture("partial-write.jsonl"));
+    const { lines, newPosition } = await readLines(fixture("partial-write.jsonl"));
+
+    expect(lines).toHaveLength(2);
+    // Just past the last newline - the half-written record is read next time
+    expect(newPosition).toBe(bytes.lastIndexOf(0x0a) + 1);
+    expect(newPosition).toBeLessThan(bytes.length);
+  });
+
+  it("counts both bytes of CRLF line endings and strips the carriage return", async () => {
+    const bytes = readFileSync(fixture("crlf.jsonl"));
+    const { lines, newPosition } = await readLines(fixture("crlf.jsonl"));
+
+    expect(lines).toHaveLength(3);
+    expect(newPosition).toBe(bytes.length);
+    for (const line of lines) {
+      expect(line.endsWith("\r")).toBe(false);
+      expect(() => JSON.parse(line)).not.toThrow();
+    }
+  });
+
+  it("returns byte offsets, not character counts, for multi-byte UTF-8", async () => {
+    const bytes = readFileSync(fixture("multibyte.jsonl"));
+    const { lines, newPosition } = await readLines(fixture("multibyte.jsonl"));
+
+    expect(newPosition).toBe(bytes.length);
+    expect(newPosition).toBeGreaterThan(lines.join("\n").length + 1);
+    expect(lines[1]).toContain("日本語のテキスト 🚀🎉");
+  });
+
+  it("decodes characters split across read boundaries", async () => {
+    const bytes = readFileSync(fixture("multibyte.jsonl"));
+    const { lines: expected } = await readLines(fixture("multibyte.jsonl"));
+
+    // Every small chunk size splits some character, whatever its width
+    for (const chunkSize of [1, 2, 3, 5, 7, 16]) {
+      const { lines, newPosition } = await readLines(fixture("multibyte.jsonl"), 0, chunkSize);
+      expect(lines).toEqual(expected);
+      expect(newPosition).toBe(bytes.length);
+    }
+  });
+
+  it("resumes from each line's offset", async () => {
+    const bytes = readFileSync(fixture("crlf.jsonl"));
+    const secondLine = bytes.indexOf(0x0a) + 1;
+    const { lines, newPosition } = await readLines(fixture("crlf.jsonl"), secondLine);
+
+    expect(lines).toHaveLength(2);
+    expect(newPosition).toBe(bytes.length);
+  });
+});
+
+describe("parseJSONLFile", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it("only returns complete records, then picks up the rest once it's written", async () => {
+    dir = mkdtempSync(join(tmpdir(), "parser-test-"));
+    const filePath = join(dir, "fixture-session.jsonl");
+    copyFileSync(fixture("partial-write.jsonl"), filePath);
+
+    const partial = readFileSync(fixture("partial-write.jsonl"));
+    const first = await parseJSONLFile(filePath, 0);
+    expect(first.entries.map((entry) => entry.uuid)).toEqual(["uuid-1"]);
+    expect(first.newPosition).toBe(partial.lastIndexOf(0x0a) + 1);
+
+    // The writer finishes the record
+    const complete = readFileSync(fixture("complete.jsonl"));
+    appendFileSync(filePath, complete.subarray(partial.length));
+
+    const second = await parseJSONLFile(filePath, first.newPosition);
+    expect(second.entries.map((entry) => entry.uuid)).toEqual(["uuid-2"]);
+    expect(second.entries[0]!.outputTokens).toBe(40);
+    expect(second.newPosition).toBe(complete.length);
+  });
+
+  it("parses CRLF and multi-byte files into the same entries as plain ones", async () => {
+    const plain = await parseJSONLFile(fixture("complete.jsonl"));
+    const crlf = await parseJSONLFile(fixture("crlf.jsonl"));
+    const multibyte = await parseJSONLFile(fixture("multibyte.jsonl"));
+
+    expect(crlf.entries.map((entry) => entry.uuid)).toEqual(plain.entries.map((entry) => entry.uuid));
+    expect(multibyte.entries.map((entry) => entry.uuid)).toEqual(["uuid-1", "uuid-2", "uuid-3"]);
+    expect(multibyte.newPosition).toBe(readFileSync(fixture("multibyte.jsonl")).length);
+  });
+
+  it("leaves the offset alone when nothing was appended", async () => {
+    const size = readFileSync(fixture("complete.jsonl")).length;
+    const result = await parseJSONLFile(fixture("complete.jsonl"), size);
+
+    expect(result.entries).toEqual([]);
+    expect(result.newPosition).toBe(size);
+  });
+});
@@ -8,6 +8,11 @@ import { usageRouter } from "~/server/api/routers/usage";
 import { statsRouter } from "~/server/api/routers/stats";
 import { pricingRouter } from "~/server/api/routers/pricing";
 import { systemRouter } from "~/server/api/routers/system";
+import { budgetsRouter } from "~/server/api/routers/budgets";
+import { webhooksRouter } from "~/server/api/routers/webhooks";
+import { usersRouter } from "~/server/api/routers/users";
+import { teamsRouter } from "~/server/api/routers/teams";
+import { twoFactorRouter } from "~/server/api/routers/two-factor";
 
 export const appRouter = createTRPCRouter({
   auth: authRouter,
@@ -19,6 +24,11 @@ export const appRouter = createTRPCRouter({
   stats: statsRouter,
   pricing: pricingRouter,
   system: systemRouter,
+  budgets: budgetsRouter,
+  webhooks: webhooksRouter,
+  users: usersRouter,
+  teams: teamsRouter,
+  twoFactor: twoFactorRouter,
 });
 
 export type AppRouter = typeof appRouter;
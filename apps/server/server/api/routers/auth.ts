@@ -1,5 +1,6 @@
 import { TRPCError } from "@trpc/server";
-import { loginSchema } from "@davidilie/claude-code-prometheus-shared";
+import { z } from "zod";
+import { loginSchema, twoFactorCodeSchema } from "@davidilie/claude-code-prometheus-shared";
 import {
   createTRPCRouter,
   publicProcedure,
@@ -9,9 +10,43 @@ import {
   verifyPassword,
   createToken,
   createAutoLoginToken,
+  createTwoFactorChallengeToken,
+  verifyTwoFactorChallengeToken,
   checkRateLimit,
+  parseUserRole,
   RATE_LIMITS,
 } from "~/server/lib/auth";
+import { beginTotpSetup, confirmTotpSetup, verifySecondFactor } from "~/server/lib/two-factor";
+import { db } from "~/server/db";
+
+// User behind a two-factor challenge from login, once it's checked and within the rate limit
+async function resolveChallenge(token: string, setup: boolean) {
+  const challenge = await verifyTwoFactorChallengeToken(token);
+  const user =
+    challenge && challenge.setup === setup
+      ? await db.user.findUnique({
+          where: { id: challenge.userId },
+          select: { id: true, username: true, totpEnabled: true },
+        })
+      : null;
+
+  if (!user) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "This sign-in has expired. Sign in again.",
+    });
+  }
+
+  const rateLimitResult = checkRateLimit(`2fa:${user.id}`, RATE_LIMITS.twoFactor);
+  if (!rateLimitResult.allowed) {
+    throw new TRPCError({
+      code: "TOO_MANY_REQUESTS",
+      message: `Too many attempts. Try again in ${Math.ceil((rateLimitResult.resetTime - Date.now()) / 60000)} minutes.`,
+    });
+  }
+
+  return user;
+}
 
 export const authRouter = createTRPCRouter({
   login: publicProcedure.input(loginSchema).mutation(async ({ ctx, input }) => {
@@ -30,7 +65,8 @@ export const authRouter = createTRPCRouter({
       where: { username: input.username },
     });
 
-    if (!user) {
+    // Accounts created by single sign-on have no password
+    if (!user?.passwordHash) {
       throw new TRPCError({
         code: "UNAUTHORIZED",
         message: "Invalid username or password",
@@ -46,6 +82,21 @@ export const authRouter = createTRPCRouter({
       });
     }
 
+    // The password is right - the session token waits for the second step
+    if (user.totpEnabled) {
+      const challenge = await createTwoFactorChallengeToken({ userId: user.id, setup: false });
+      return { twoFactor: "verify" as const, challenge };
+    }
+
+    const settings = await ctx.db.settings.findUnique({
+      where: { id: "settings" },
+      select: { requireTwoFactor: true },
+    });
+    if (settings?.requireTwoFactor) {
+      const challenge = await createTwoFactorChallengeToken({ userId: user.id, setup: true });
+      return { twoFactor: "setup" as const, challenge };
+    }
+
     const token = await createToken({
       userId: user.id,
       username: user.username,
@@ -54,10 +105,66 @@ export const authRouter = createTRPCRouter({
     return { token, user: { id: user.id, username: user.username } };
   }),
 
+  // Second step of login, with a code from the app or a recovery code
+  verifyTwoFactor: publicProcedure
+    .input(z.object({ challenge: z.string(), code: twoFactorCodeSchema }))
+    .mutation(async ({ input }) => {
+      const user = await resolveChallenge(input.challenge, false);
+
+      if (!(await verifySecondFactor(user.id, input.code))) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "Invalid code",
+        });
+      }
+
+      const token = await createToken({ userId: user.id, username: user.username });
+      return { token, user: { id: user.id, username: user.username } };
+    }),
+
+  // Setup during login, when admins require two-factor and the user hasn't set it up
+  startTwoFactorSetup: publicProcedure
+    .input(z.object({ challenge: z.string() }))
+    .mutation(async ({ input }) => {
+      const user = await resolveChallenge(input.challenge, true);
+      if (user.totpEnabled) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Two-factor authentication is already set up. Sign in again.",
+        });
+      }
+
+      return beginTotpSetup(user);
+    }),
+
+  completeTwoFactorSetup: publicProcedure
+    .input(z.object({ challenge: z.string(), code: twoFactorCodeSchema }))
+    .mutation(async ({ input }) => {
+      const user = await resolveChallenge(input.challenge, true);
+
+      const recoveryCodes = await confirmTotpSetup(user.id, input.code);
+      if (!recoveryCodes) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Invalid code",
+        });
+      }
+
+      const token = await createToken({ userId: user.id, username: user.username });
+      return { token, user: { id: user.id, username: user.username }, recoveryCodes };
+    }),
+
   getSession: protectedProcedure.query(async ({ ctx }) => {
     const user = await ctx.db.user.findUnique({
       where: { id: ctx.userId },
-      select: { id: true, username: true, email: true },
+      select: {
+        id: true,
+        username: true,
+        email: true,
+        role: true,
+        passwordHash: true,
+        totpEnabled: true,
+      },
     });
 
     if (!user) {
@@ -67,7 +174,8 @@ export const authRouter = createTRPCRouter({
       });
     }
 
-    return user;
+    const { passwordHash, ...rest } = user;
+    return { ...rest, role: parseUserRole(user.role), hasPassword: passwordHash !== null };
   }),
 
   checkSetup: publicProcedure.query(async ({ ctx }) => {
@@ -80,25 +188,41 @@ export const authRouter = createTRPCRouter({
     };
   }),
 
+  // Whether the login page offers single sign-on
+  getSsoStatus: publicProcedure.query(async ({ ctx }) => {
+    const settings = await ctx.db.settings.findUnique({
+      where: { id: "settings" },
+      select: { oidcEnabled: true, oidcIssuer: true, oidcClientId: true },
+    });
+
+    return {
+      enabled: !!(settings?.oidcEnabled && settings.oidcIssuer && settings.oidcClientId),
+    };
+  }),
+
   // Get auto-login status and token if enabled
   getAutoLoginStatus: publicProcedure.query(async ({ ctx }) => {
     const settings = await ctx.db.settings.findUnique({
       where: { id: "settings" },
-      select: { autoLogin: true, setupCompleted: true },
+      select: { autoLogin: true, setupCompleted: true, requireTwoFactor: true },
     });
 
     if (!settings?.setupCompleted) {
       return { autoLoginEnabled: false, token: null };
     }
 
-    if (!settings.autoLogin) {
+    // Required two-factor turns auto-login off, even if both were stored before
+    if (!settings.autoLogin || settings.requireTwoFactor) {
       return { autoLoginEnabled: false, token: null };
     }
 
-    // Get the admin user for auto-login
-    const admin = await ctx.db.user.findFirst({
-      select: { id: true, username: true },
+    // Auto-login signs in as the admin, so it's refused once there are other
+    // users - their roles would mean nothing to anyone who can reach the page
+    const users = await ctx.db.user.findMany({
+      take: 2,
+      select: { id: true, username: true, role: true },
     });
+    const admin = users.length === 1 && users[0]!.role === "admin" ? users[0] : null;
 
     if (!admin) {
       return { autoLoginEnabled: false, token: null };
@@ -0,0 +1,175 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import type { UserRole } from "@davidilie/claude-code-prometheus-shared";
+import { createTRPCRouter, protectedProcedure, memberProcedure } from "~/server/api/trpc";
+import { db } from "~/server/db";
+import {
+  BUDGET_SCOPES,
+  BUDGET_PERIODS,
+  evaluateBudgets,
+  getBudgetStatus,
+} from "~/server/lib/budgets";
+
+const budgetInput = z
+  .object({
+    name: z.string().min(1).max(100),
+    scope: z.enum(BUDGET_SCOPES),
+    scopeValue: z.string().min(1).nullable().optional(),
+    period: z.enum(BUDGET_PERIODS),
+    amountUSD: z.number().positive(),
+    enabled: z.boolean().optional(),
+  })
+  .refine((budget) => budget.scope === "global" || !!budget.scopeValue, {
+    message: "A device, project or model is required for this scope",
+    path: ["scopeValue"],
+  });
+
+// Budgets a user can see and change. Global, project and model budgets cover
+// everyone's spend, so only admins get those - others get their own devices'.
+async function getBudgetAccess(ctx: {
+  role: UserRole;
+  deviceAccess: Prisma.DeviceWhereInput;
+}): Promise<Prisma.BudgetWhereInput> {
+  if (ctx.role === "admin") return {};
+
+  const devices = await db.device.findMany({
+    where: ctx.deviceAccess,
+    select: { id: true },
+  });
+  return { scope: "device", scopeValue: { in: devices.map((device) => device.id) } };
+}
+
+async function findAccessibleBudget(
+  ctx: { role: UserRole; deviceAccess: Prisma.DeviceWhereInput },
+  id: string
+) {
+  const budget = await db.budget.findFirst({
+    where: { ...(await getBudgetAccess(ctx)), id },
+  });
+  if (!budget) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Budget not found",
+    });
+  }
+  return budget;
+}
+
+export const budgetsRouter = createTRPCRouter({
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const budgets = await ctx.db.budget.findMany({
+      where: await getBudgetAccess(ctx),
+      orderBy: { createdAt: "asc" },
+    });
+
+    const statuses = await Promise.all(budgets.map((budget) => getBudgetStatus(budget)));
+
+    return statuses.map(({ budget, periodStart, spendUSD, utilization }) => ({
+      ...budget,
+      periodStart,
+      spendUSD,
+      utilization,
+    }));
+  }),
+
+  alerts: protectedProcedure
+    .input(
+      z.object({
+        limit: z.number().int().min(1).max(100).default(20),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      return ctx.db.budgetAlert.findMany({
+        where: { budget: await getBudgetAccess(ctx) },
+        orderBy: { createdAt: "desc" },
+        take: input.limit,
+        select: {
+          id: true,
+          threshold: true,
+          periodStart: true,
+          spendUSD: true,
+          amountUSD: true,
+          createdAt: true,
+          budget: {
+            select: { id: true, name: true, scope: true, scopeValue: true, period: true },
+          },
+        },
+      });
+    }),
+
+  create: memberProcedure
+    .input(budgetInput)
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.role !== "admin") {
+        if (input.scope !== "device") {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "Only admins can create budgets beyond a single device",
+          });
+        }
+        const device = input.scopeValue
+          ? await ctx.db.device.findFirst({
+              where: { ...ctx.deviceAccess, id: input.scopeValue },
+            })
+          : null;
+        if (!device) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Device not found",
+          });
+        }
+      }
+
+      const budget = await ctx.db.budget.create({
+        data: {
+          ...input,
+          scopeValue: input.scope === "global" ? null : input.scopeValue,
+        },
+      });
+
+      await evaluateBudgets();
+
+      return budget;
+    }),
+
+  update: memberProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        name: z.string().min(1).max(100).optional(),
+        amountUSD: z.number().positive().optional(),
+        period: z.enum(BUDGET_PERIODS).optional(),
+        enabled: z.boolean().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...data } = input;
+
+      await findAccessibleBudget(ctx, id);
+
+      const budget = await ctx.db.budget.update({
+        where: { id },
+        data,
+      });
+
+      await evaluateBudgets();
+
+      return budget;
+    }),
+
+  delete: memberProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await findAccessibleBudget(ctx, input.id);
+
+      await ctx.db.budget.delete({
+        where: { id: input.id },
+      });
+
+      // Drop the deleted budget's gauges
+      await evaluateBudgets();
+
+      return { success: true };
+    }),
+});
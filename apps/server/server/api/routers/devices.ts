@@ -1,21 +1,44 @@
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
+import type { Prisma } from "@prisma/client";
 import { deviceRegistrationSchema } from "@davidilie/claude-code-prometheus-shared";
 import {
   createTRPCRouter,
-  protectedProcedure,
   publicProcedure,
+  memberProcedure,
+  protectedProcedure,
 } from "~/server/api/trpc";
 import {
   generateApiKey,
   checkRateLimit,
   RATE_LIMITS,
+  createDeviceRegistrationToken,
+  DEVICE_REGISTRATION_EXPIRY_MINUTES,
 } from "~/server/lib/auth";
 import { updateDeviceStatus } from "~/server/lib/metrics";
+import { isDeviceOnline } from "~/server/lib/device-status";
+import { emitWebhookEvent } from "~/server/lib/webhooks";
+import { db } from "~/server/db";
+
+// Other users' devices are reported as missing rather than forbidden
+async function assertDeviceAccess(access: Prisma.DeviceWhereInput, id: string) {
+  const device = await db.device.findFirst({
+    where: { ...access, id },
+    select: { id: true },
+  });
+
+  if (!device) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Device not found",
+    });
+  }
+}
 
 export const devicesRouter = createTRPCRouter({
   list: protectedProcedure.query(async ({ ctx }) => {
     const devices = await ctx.db.device.findMany({
+      where: ctx.deviceScope,
       orderBy: { lastSeen: "desc" },
       select: {
         id: true,
@@ -23,6 +46,12 @@ export const devicesRouter = createTRPCRouter({
         hostname: true,
         lastSeen: true,
         createdAt: true,
+        owner: {
+          select: { id: true, username: true },
+        },
+        team: {
+          select: { id: true, name: true },
+        },
         _count: {
           select: { sessions: true },
         },
@@ -30,26 +59,28 @@ export const devicesRouter = createTRPCRouter({
     });
 
     const now = new Date();
-    const ONLINE_THRESHOLD_MS = 5 * 60 * 1000; // 5 minutes
 
     return devices.map((device) => ({
       ...device,
       sessionsCount: device._count.sessions,
-      isOnline: now.getTime() - device.lastSeen.getTime() < ONLINE_THRESHOLD_MS,
+      isOnline: isDeviceOnline(device.lastSeen, now),
     }));
   }),
 
   get: protectedProcedure
     .input(z.object({ id: z.string() }))
     .query(async ({ ctx, input }) => {
-      const device = await ctx.db.device.findUnique({
-        where: { id: input.id },
+      const device = await ctx.db.device.findFirst({
+        where: { ...ctx.deviceAccess, id: input.id },
         select: {
           id: true,
           name: true,
           hostname: true,
           lastSeen: true,
           createdAt: true,
+          owner: {
+            select: { id: true, username: true },
+          },
           sessions: {
             orderBy: { startedAt: "desc" },
             take: 10,
@@ -59,6 +90,7 @@ export const devicesRouter = createTRPCRouter({
               project: true,
               startedAt: true,
               endedAt: true,
+              status: true,
               _count: {
                 select: { entries: true },
               },
@@ -74,16 +106,13 @@ export const devicesRouter = createTRPCRouter({
         });
       }
 
-      const now = new Date();
-      const ONLINE_THRESHOLD_MS = 5 * 60 * 1000;
-
       return {
         ...device,
-        isOnline: now.getTime() - device.lastSeen.getTime() < ONLINE_THRESHOLD_MS,
+        isOnline: isDeviceOnline(device.lastSeen),
       };
     }),
 
-  register: protectedProcedure
+  register: memberProcedure
     .input(deviceRegistrationSchema)
     .mutation(async ({ ctx, input }) => {
       // Rate limiting based on IP/user
@@ -99,11 +128,19 @@ export const devicesRouter = createTRPCRouter({
 
       const apiKey = generateApiKey();
 
+      // New devices join the registering user's team
+      const user = await ctx.db.user.findUnique({
+        where: { id: ctx.userId },
+        select: { teamId: true },
+      });
+
       const device = await ctx.db.device.create({
         data: {
           name: input.name,
           hostname: input.hostname,
           apiKey,
+          ownerId: ctx.userId,
+          teamId: user?.teamId,
         },
       });
 
@@ -118,6 +155,12 @@ export const devicesRouter = createTRPCRouter({
       // Update metrics
       updateDeviceStatus(device.name, true);
 
+      await emitWebhookEvent("device.registered", {
+        deviceId: device.id,
+        name: device.name,
+        hostname: device.hostname,
+      });
+
       // Generate install commands
       const installCommands = generateInstallCommands(serverUrl, apiKey, input.name);
 
@@ -129,16 +172,70 @@ export const devicesRouter = createTRPCRouter({
       };
     }),
 
-  update: protectedProcedure
+  // Token for registering from the machine itself with the daemon's setup command
+  createRegistrationToken: memberProcedure.mutation(async ({ ctx }) => {
+    const token = await createDeviceRegistrationToken({ userId: ctx.userId });
+
+    const settings = await ctx.db.settings.findUnique({
+      where: { id: "settings" },
+      select: { serverUrl: true },
+    });
+    const serverUrl = settings?.serverUrl || "http://localhost:3000";
+    const escapedUrl = serverUrl.replace(/'/g, "'\\''");
+
+    return {
+      token,
+      expiresInMinutes: DEVICE_REGISTRATION_EXPIRY_MINUTES,
+      command: `claude-usage-daemon setup --server '${escapedUrl}' --token '${token}'`,
+    };
+  }),
+
+  update: memberProcedure
     .input(
       z.object({
         id: z.string(),
         name: z.string().min(1).optional(),
         hostname: z.string().optional(),
+        // Admins only - hands a device to another user, or null to unassign it
+        ownerId: z.string().nullable().optional(),
+        // Admins only - moves the device's usage to another team, or null for none
+        teamId: z.string().nullable().optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
       const { id, ...data } = input;
+      await assertDeviceAccess(ctx.deviceAccess, id);
+
+      if ((data.ownerId !== undefined || data.teamId !== undefined) && ctx.role !== "admin") {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Only admins can change a device's owner or team",
+        });
+      }
+
+      if (data.ownerId) {
+        const owner = await ctx.db.user.findUnique({ where: { id: data.ownerId } });
+        if (!owner) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "User not found",
+          });
+        }
+        // A device handed to someone else joins their team unless one is given
+        if (data.teamId === undefined) {
+          data.teamId = owner.teamId;
+        }
+      }
+
+      if (data.teamId) {
+        const team = await ctx.db.team.findUnique({ where: { id: data.teamId } });
+        if (!team) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Team not found",
+          });
+        }
+      }
 
       const device = await ctx.db.device.update({
         where: { id },
@@ -148,9 +245,11 @@ export const devicesRouter = createTRPCRouter({
       return device;
     }),
 
-  delete: protectedProcedure
+  delete: memberProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
+      await assertDeviceAccess(ctx.deviceAccess, input.id);
+
       await ctx.db.device.delete({
         where: { id: input.id },
       });
@@ -158,9 +257,11 @@ export const devicesRouter = createTRPCRouter({
       return { success: true };
     }),
 
-  regenerateApiKey: protectedProcedure
+  regenerateApiKey: memberProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
+      await assertDeviceAccess(ctx.deviceAccess, input.id);
+
       const apiKey = generateApiKey();
 
       const device = await ctx.db.device.update({
@@ -168,6 +269,12 @@ export const devicesRouter = createTRPCRouter({
         data: { apiKey },
       });
 
+      await emitWebhookEvent("device.key_regenerated", {
+        deviceId: device.id,
+        name: device.name,
+        hostname: device.hostname,
+      });
+
       // Get server URL for the install command
       const settings = await ctx.db.settings.findUnique({
         where: { id: "settings" },
@@ -182,11 +289,11 @@ export const devicesRouter = createTRPCRouter({
       return { apiKey, installCommands };
     }),
 
-  getApiKey: protectedProcedure
+  getApiKey: memberProcedure
     .input(z.object({ id: z.string() }))
     .query(async ({ ctx, input }) => {
-      const device = await ctx.db.device.findUnique({
-        where: { id: input.id },
+      const device = await ctx.db.device.findFirst({
+        where: { ...ctx.deviceAccess, id: input.id },
         select: { apiKey: true, name: true },
       });
 
@@ -212,11 +319,11 @@ export const devicesRouter = createTRPCRouter({
     }),
 
   // Get install command for an existing device
-  getInstallCommand: protectedProcedure
+  getInstallCommand: memberProcedure
     .input(z.object({ id: z.string() }))
     .query(async ({ ctx, input }) => {
-      const device = await ctx.db.device.findUnique({
-        where: { id: input.id },
+      const device = await ctx.db.device.findFirst({
+        where: { ...ctx.deviceAccess, id: input.id },
         select: { apiKey: true, name: true },
       });
 
@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { createTRPCRouter, protectedProcedure, adminProcedure } from "~/server/api/trpc";
 import { fetchAndUpdatePricing } from "~/server/lib/pricing-fetcher";
 
 export const pricingRouter = createTRPCRouter({
@@ -18,12 +18,12 @@ export const pricingRouter = createTRPCRouter({
     }));
   }),
 
-  refresh: protectedProcedure.mutation(async () => {
+  refresh: adminProcedure.mutation(async () => {
     const result = await fetchAndUpdatePricing();
     return result;
   }),
 
-  update: protectedProcedure
+  update: adminProcedure
     .input(
       z.object({
         model: z.string(),
@@ -67,7 +67,7 @@ export const pricingRouter = createTRPCRouter({
       };
     }),
 
-  delete: protectedProcedure
+  delete: adminProcedure
     .input(z.object({ model: z.string() }))
     .mutation(async ({ ctx, input }) => {
       await ctx.db.modelPricing.delete({
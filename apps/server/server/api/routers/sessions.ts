@@ -1,13 +1,21 @@
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
-import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import type { Prisma } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure, memberProcedure } from "~/server/api/trpc";
 
 export const sessionsRouter = createTRPCRouter({
   list: protectedProcedure
     .input(
       z.object({
         deviceId: z.string().optional(),
+        // Substring match, unless projectExact is set
         project: z.string().optional(),
+        projectExact: z.boolean().optional(),
+        profile: z.string().optional(),
+        gitRepo: z.string().optional(),
+        gitBranch: z.string().optional(),
+        teamId: z.string().optional(),
+        status: z.enum(["active", "ended"]).optional(),
         from: z.date().optional(),
         to: z.date().optional(),
         limit: z.number().int().positive().max(100).default(20),
@@ -17,16 +25,41 @@ export const sessionsRouter = createTRPCRouter({
     .query(async ({ ctx, input }) => {
       const where: {
         deviceId?: string;
-        project?: { contains: string };
+        project?: string | { contains: string };
+        profile?: string;
+        gitRepo?: string;
+        gitBranch?: string;
+        status?: string;
         startedAt?: { gte?: Date; lte?: Date };
-      } = {};
+        device: Prisma.DeviceWhereInput;
+      } = { device: ctx.deviceScope };
 
       if (input.deviceId) {
         where.deviceId = input.deviceId;
       }
 
       if (input.project) {
-        where.project = { contains: input.project };
+        where.project = input.projectExact ? input.project : { contains: input.project };
+      }
+
+      if (input.profile) {
+        where.profile = input.profile;
+      }
+
+      if (input.gitRepo) {
+        where.gitRepo = input.gitRepo;
+      }
+
+      if (input.gitBranch) {
+        where.gitBranch = input.gitBranch;
+      }
+
+      if (input.teamId) {
+        where.device = { ...ctx.deviceScope, teamId: input.teamId };
+      }
+
+      if (input.status) {
+        where.status = input.status;
       }
 
       if (input.from || input.to) {
@@ -45,8 +78,13 @@ export const sessionsRouter = createTRPCRouter({
             id: true,
             sessionId: true,
             project: true,
+            profile: true,
+            gitRemote: true,
+            gitRepo: true,
+            gitBranch: true,
             startedAt: true,
             endedAt: true,
+            status: true,
             device: {
               select: { id: true, name: true },
             },
@@ -91,17 +129,58 @@ export const sessionsRouter = createTRPCRouter({
       };
     }),
 
+  // Projects with their session counts, for the sessions filter
+  projects: protectedProcedure.query(async ({ ctx }) => {
+    const rows = await ctx.db.session.groupBy({
+      by: ["project"],
+      where: { device: ctx.deviceScope },
+      _count: { _all: true },
+      orderBy: { project: "asc" },
+    });
+
+    return rows.map((row) => ({ project: row.project, sessions: row._count._all }));
+  }),
+
+  // Git repositories with their session counts, for the sessions filter
+  repositories: protectedProcedure.query(async ({ ctx }) => {
+    const rows = await ctx.db.session.groupBy({
+      by: ["gitRepo"],
+      where: { gitRepo: { not: null }, device: ctx.deviceScope },
+      _count: { _all: true },
+      orderBy: { gitRepo: "asc" },
+    });
+
+    return rows.map((row) => ({ repo: row.gitRepo!, sessions: row._count._all }));
+  }),
+
+  // Profiles reported by daemons, for the sessions filter
+  profiles: protectedProcedure.query(async ({ ctx }) => {
+    const rows = await ctx.db.session.findMany({
+      where: { profile: { not: null }, device: ctx.deviceScope },
+      distinct: ["profile"],
+      orderBy: { profile: "asc" },
+      select: { profile: true },
+    });
+
+    return rows.map((row) => row.profile!);
+  }),
+
   get: protectedProcedure
     .input(z.object({ id: z.string() }))
     .query(async ({ ctx, input }) => {
-      const session = await ctx.db.session.findUnique({
-        where: { id: input.id },
+      const session = await ctx.db.session.findFirst({
+        where: { id: input.id, device: ctx.deviceAccess },
         select: {
           id: true,
           sessionId: true,
           project: true,
+          profile: true,
+          gitRemote: true,
+          gitRepo: true,
+          gitBranch: true,
           startedAt: true,
           endedAt: true,
+          status: true,
           device: {
             select: { id: true, name: true, hostname: true },
           },
@@ -162,9 +241,21 @@ export const sessionsRouter = createTRPCRouter({
       };
     }),
 
-  delete: protectedProcedure
+  delete: memberProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
+      const session = await ctx.db.session.findFirst({
+        where: { id: input.id, device: ctx.deviceAccess },
+        select: { id: true },
+      });
+
+      if (!session) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Session not found",
+        });
+      }
+
       await ctx.db.session.delete({
         where: { id: input.id },
       });
@@ -1,7 +1,9 @@
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
+import { userRoleSchema } from "@davidilie/claude-code-prometheus-shared";
 import {
   createTRPCRouter,
+  adminProcedure,
   protectedProcedure,
 } from "~/server/api/trpc";
 import { hashPassword, verifyPassword } from "~/server/lib/auth";
@@ -19,10 +21,12 @@ export const settingsRouter = createTRPCRouter({
       });
     }
 
-    return settings;
+    // The client secret never leaves the server
+    const { oidcClientSecret, ...rest } = settings;
+    return { ...rest, oidcClientSecretSet: !!oidcClientSecret };
   }),
 
-  update: protectedProcedure
+  update: adminProcedure
     .input(
       z.object({
         serverName: z.string().min(1).optional(),
@@ -33,15 +37,54 @@ export const settingsRouter = createTRPCRouter({
         prometheusPort: z.number().int().min(1).max(65535).optional(),
         retentionDays: z.number().int().min(1).optional(),
         autoUpdatePricing: z.boolean().optional(),
+        sessionIdleTimeoutMinutes: z.number().int().min(1).max(1440).optional(),
+        oidcEnabled: z.boolean().optional(),
+        oidcIssuer: z.string().url().nullable().optional(),
+        oidcClientId: z.string().nullable().optional(),
+        // Omitted keeps the stored secret, null clears it
+        oidcClientSecret: z.string().nullable().optional(),
+        oidcScopes: z.string().min(1).optional(),
+        oidcGroupsClaim: z.string().min(1).optional(),
+        oidcAdminGroups: z.string().nullable().optional(),
+        oidcMemberGroups: z.string().nullable().optional(),
+        oidcDefaultRole: userRoleSchema.optional(),
+        requireTwoFactor: z.boolean().optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const settings = await ctx.db.settings.update({
+      const current = await ctx.db.settings.findUnique({
         where: { id: "settings" },
-        data: input,
       });
 
-      return settings;
+      const oidcEnabled = input.oidcEnabled ?? current?.oidcEnabled;
+      const oidcIssuer = input.oidcIssuer !== undefined ? input.oidcIssuer : current?.oidcIssuer;
+      const oidcClientId =
+        input.oidcClientId !== undefined ? input.oidcClientId : current?.oidcClientId;
+      if (oidcEnabled && (!oidcIssuer || !oidcClientId)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Single sign-on needs an issuer URL and a client ID",
+        });
+      }
+
+      // Requiring it before the admin has it would sign them out on their next request
+      if (input.requireTwoFactor && !current?.requireTwoFactor) {
+        const user = await ctx.db.user.findUnique({ where: { id: ctx.userId } });
+        if (user?.passwordHash && !user.totpEnabled) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Set up two-factor authentication for your own account first",
+          });
+        }
+      }
+
+      const { oidcClientSecret, ...settings } = await ctx.db.settings.update({
+        where: { id: "settings" },
+        // Auto-login hands out an admin session without a second factor
+        data: input.requireTwoFactor ? { ...input, autoLogin: false } : input,
+      });
+
+      return { ...settings, oidcClientSecretSet: !!oidcClientSecret };
     }),
 
   changePassword: protectedProcedure
@@ -63,6 +106,13 @@ export const settingsRouter = createTRPCRouter({
         });
       }
 
+      if (!user.passwordHash) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "This account signs in with single sign-on",
+        });
+      }
+
       const validPassword = await verifyPassword(
         input.currentPassword,
         user.passwordHash
@@ -99,7 +149,7 @@ export const settingsRouter = createTRPCRouter({
     };
   }),
 
-  clearOldData: protectedProcedure
+  clearOldData: adminProcedure
     .input(z.object({ olderThanDays: z.number().int().min(1) }))
     .mutation(async ({ ctx, input }) => {
       const cutoffDate = new Date();
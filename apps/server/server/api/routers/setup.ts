@@ -111,6 +111,7 @@ export const setupRouter = createTRPCRouter({
           username: input.username,
           email: input.email || null,
           passwordHash,
+          role: "admin",
         },
       });
 
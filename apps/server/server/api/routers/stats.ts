@@ -1,5 +1,88 @@
 import { z } from "zod";
+import type { Prisma } from "@prisma/client";
 import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { ONLINE_THRESHOLD_MS } from "~/server/lib/device-status";
+import { db } from "~/server/db";
+
+const costGroupDeviceSelect = {
+  id: true,
+  name: true,
+  owner: { select: { id: true, username: true } },
+  team: { select: { id: true, name: true } },
+} satisfies Prisma.DeviceSelect;
+
+type CostGroupDevice = Prisma.DeviceGetPayload<{ select: typeof costGroupDeviceSelect }>;
+
+/**
+ * Cost and tokens of entries in the period, summed per session in the database,
+ * credited to each session's device and then combined into the groups groupOf
+ * puts each device in, most expensive first.
+ */
+async function getCostByDeviceGroup<G extends { key: string }>(
+  deviceScope: Prisma.DeviceWhereInput,
+  from: Date,
+  to: Date,
+  groupOf: (device: CostGroupDevice) => G
+) {
+  const sums = await db.usageEntry.groupBy({
+    by: ["sessionId"],
+    where: {
+      timestamp: { gte: from, lte: to },
+      session: { device: deviceScope },
+    },
+    _sum: {
+      costUSD: true,
+      inputTokens: true,
+      outputTokens: true,
+    },
+  });
+
+  const sessions = await db.session.findMany({
+    where: { id: { in: sums.map((sum) => sum.sessionId) } },
+    select: { id: true, device: { select: costGroupDeviceSelect } },
+  });
+  const devicesBySession = new Map(sessions.map((session) => [session.id, session.device]));
+
+  const groups = new Map<
+    string,
+    {
+      group: Omit<G, "key">;
+      deviceIds: Set<string>;
+      costUSD: number;
+      inputTokens: number;
+      outputTokens: number;
+    }
+  >();
+
+  for (const sum of sums) {
+    const device = devicesBySession.get(sum.sessionId);
+    if (!device) continue;
+
+    const { key, ...group } = groupOf(device);
+    let existing = groups.get(key);
+    if (!existing) {
+      existing = { group, deviceIds: new Set(), costUSD: 0, inputTokens: 0, outputTokens: 0 };
+      groups.set(key, existing);
+    }
+
+    existing.deviceIds.add(device.id);
+    existing.costUSD += sum._sum.costUSD ?? 0;
+    existing.inputTokens += sum._sum.inputTokens ?? 0;
+    existing.outputTokens += sum._sum.outputTokens ?? 0;
+  }
+
+  const result = Array.from(groups.values());
+  const totalCost = result.reduce((total, g) => total + g.costUSD, 0);
+
+  return result
+    .map(({ group, deviceIds, ...totals }) => ({
+      ...group,
+      ...totals,
+      devicesCount: deviceIds.size,
+      percentage: totalCost > 0 ? (totals.costUSD / totalCost) * 100 : 0,
+    }))
+    .sort((a, b) => b.costUSD - a.costUSD);
+}
 
 export const statsRouter = createTRPCRouter({
   overview: protectedProcedure
@@ -21,6 +104,7 @@ export const statsRouter = createTRPCRouter({
           ctx.db.usageEntry.aggregate({
             where: {
               timestamp: { gte: from, lte: to },
+              session: { device: ctx.deviceScope },
             },
             _sum: {
               inputTokens: true,
@@ -32,19 +116,21 @@ export const statsRouter = createTRPCRouter({
           }),
 
           // Total devices
-          ctx.db.device.count(),
+          ctx.db.device.count({ where: ctx.deviceScope }),
 
           // Total sessions in period
           ctx.db.session.count({
             where: {
               startedAt: { gte: from, lte: to },
+              device: ctx.deviceScope,
             },
           }),
 
           // Active devices (seen in last 5 minutes)
           ctx.db.device.count({
             where: {
-              lastSeen: { gte: new Date(Date.now() - 5 * 60 * 1000) },
+              ...ctx.deviceScope,
+              lastSeen: { gte: new Date(Date.now() - ONLINE_THRESHOLD_MS) },
             },
           }),
         ]);
@@ -79,6 +165,7 @@ export const statsRouter = createTRPCRouter({
         by: ["model"],
         where: {
           timestamp: { gte: from, lte: to },
+          session: { device: ctx.deviceScope },
         },
         _sum: {
           costUSD: true,
@@ -114,65 +201,52 @@ export const statsRouter = createTRPCRouter({
       const from = input.from ?? defaultFrom;
       const to = input.to ?? now;
 
-      const sessions = await ctx.db.session.findMany({
-        where: {
-          startedAt: { gte: from, lte: to },
-        },
-        select: {
-          deviceId: true,
-          device: { select: { name: true } },
-          entries: {
-            select: {
-              costUSD: true,
-              inputTokens: true,
-              outputTokens: true,
-            },
-          },
-        },
-      });
-
-      // Aggregate by device
-      const deviceMap = new Map<
-        string,
-        {
-          deviceId: string;
-          deviceName: string;
-          costUSD: number;
-          inputTokens: number;
-          outputTokens: number;
-        }
-      >();
+      return getCostByDeviceGroup(ctx.deviceScope, from, to, (device) => ({
+        key: device.id,
+        deviceId: device.id,
+        deviceName: device.name,
+      }));
+    }),
 
-      for (const session of sessions) {
-        const existing = deviceMap.get(session.deviceId);
-        const sessionTotals = session.entries.reduce(
-          (acc, e) => ({
-            costUSD: acc.costUSD + (e.costUSD ?? 0),
-            inputTokens: acc.inputTokens + e.inputTokens,
-            outputTokens: acc.outputTokens + e.outputTokens,
-          }),
-          { costUSD: 0, inputTokens: 0, outputTokens: 0 }
-        );
+  // Cost per device owner - devices without one are grouped as unassigned
+  costByUser: protectedProcedure
+    .input(
+      z.object({
+        from: z.date().optional(),
+        to: z.date().optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const now = new Date();
+      const defaultFrom = new Date(now.getFullYear(), now.getMonth(), 1);
+      const from = input.from ?? defaultFrom;
+      const to = input.to ?? now;
 
-        if (existing) {
-          existing.costUSD += sessionTotals.costUSD;
-          existing.inputTokens += sessionTotals.inputTokens;
-          existing.outputTokens += sessionTotals.outputTokens;
-        } else {
-          deviceMap.set(session.deviceId, {
-            deviceId: session.deviceId,
-            deviceName: session.device.name,
-            ...sessionTotals,
-          });
-        }
-      }
+      return getCostByDeviceGroup(ctx.deviceScope, from, to, (device) => ({
+        key: device.owner?.id ?? "",
+        userId: device.owner?.id ?? null,
+        username: device.owner?.username ?? null,
+      }));
+    }),
 
-      const result = Array.from(deviceMap.values());
-      const totalCost = result.reduce((sum, d) => sum + d.costUSD, 0);
+  // Cost per team, from the team each device belongs to now
+  costByTeam: protectedProcedure
+    .input(
+      z.object({
+        from: z.date().optional(),
+        to: z.date().optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const now = new Date();
+      const defaultFrom = new Date(now.getFullYear(), now.getMonth(), 1);
+      const from = input.from ?? defaultFrom;
+      const to = input.to ?? now;
 
-      return result.map((d) => ({
-        ...d,
-        percentage: totalCost > 0 ? (d.costUSD / totalCost) * 100 : 0,
+      return getCostByDeviceGroup(ctx.deviceScope, from, to, (device) => ({
+        key: device.team?.id ?? "",
+        teamId: device.team?.id ?? null,
+        teamName: device.team?.name ?? null,
       }));
     }),
 
@@ -180,6 +254,7 @@ export const statsRouter = createTRPCRouter({
     .input(z.object({ limit: z.number().int().positive().max(20).default(5) }))
     .query(async ({ ctx, input }) => {
       const sessions = await ctx.db.session.findMany({
+        where: { device: ctx.deviceScope },
         orderBy: { startedAt: "desc" },
         take: input.limit,
         select: {
@@ -188,6 +263,7 @@ export const statsRouter = createTRPCRouter({
           project: true,
           startedAt: true,
           endedAt: true,
+          status: true,
           device: { select: { id: true, name: true } },
           _count: { select: { entries: true } },
         },
@@ -227,6 +303,7 @@ export const statsRouter = createTRPCRouter({
       const entries = await ctx.db.usageEntry.findMany({
         where: {
           timestamp: { gte: from, lte: to },
+          session: { device: ctx.deviceScope },
         },
         select: {
           timestamp: true,
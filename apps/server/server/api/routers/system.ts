@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { createTRPCRouter, protectedProcedure, adminProcedure } from "~/server/api/trpc";
 import { getRedisStatus, getRedisInfo } from "~/server/lib/redis";
 import {
   getLogs,
@@ -88,7 +88,7 @@ export const systemRouter = createTRPCRouter({
   }),
 
   // Clear logs (admin action)
-  clearLogs: protectedProcedure.mutation(() => {
+  clearLogs: adminProcedure.mutation(() => {
     clearLogs();
     return { success: true };
   }),
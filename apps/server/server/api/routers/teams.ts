@@ -0,0 +1,71 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure, adminProcedure } from "~/server/api/trpc";
+import { db } from "~/server/db";
+
+const teamName = z.string().trim().min(1).max(100);
+
+async function assertNameAvailable(name: string, exceptId?: string) {
+  const existing = await db.team.findUnique({ where: { name } });
+  if (existing && existing.id !== exceptId) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "A team with this name already exists",
+    });
+  }
+}
+
+export const teamsRouter = createTRPCRouter({
+  // Any role - the sessions filter lists teams too
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const teams = await ctx.db.team.findMany({
+      orderBy: { name: "asc" },
+      select: {
+        id: true,
+        name: true,
+        createdAt: true,
+        _count: {
+          select: { users: true, devices: true },
+        },
+      },
+    });
+
+    return teams.map(({ _count, ...team }) => ({
+      ...team,
+      usersCount: _count.users,
+      devicesCount: _count.devices,
+    }));
+  }),
+
+  create: adminProcedure
+    .input(z.object({ name: teamName }))
+    .mutation(async ({ ctx, input }) => {
+      await assertNameAvailable(input.name);
+
+      return ctx.db.team.create({
+        data: { name: input.name },
+      });
+    }),
+
+  rename: adminProcedure
+    .input(z.object({ id: z.string(), name: teamName }))
+    .mutation(async ({ ctx, input }) => {
+      await assertNameAvailable(input.name, input.id);
+
+      return ctx.db.team.update({
+        where: { id: input.id },
+        data: { name: input.name },
+      });
+    }),
+
+  // Members and devices stay, without a team
+  delete: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db.team.delete({
+        where: { id: input.id },
+      });
+
+      return { success: true };
+    }),
+});
@@ -0,0 +1,122 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { twoFactorCodeSchema } from "@davidilie/claude-code-prometheus-shared";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { checkRateLimit, RATE_LIMITS } from "~/server/lib/auth";
+import {
+  beginTotpSetup,
+  confirmTotpSetup,
+  verifySecondFactor,
+  replaceRecoveryCodes,
+  disableTwoFactor,
+} from "~/server/lib/two-factor";
+import { db } from "~/server/db";
+
+// Shares its limit with the login step, so codes can't be guessed from either
+function assertAttemptAllowed(userId: string) {
+  const rateLimitResult = checkRateLimit(`2fa:${userId}`, RATE_LIMITS.twoFactor);
+  if (!rateLimitResult.allowed) {
+    throw new TRPCError({
+      code: "TOO_MANY_REQUESTS",
+      message: `Too many attempts. Try again in ${Math.ceil((rateLimitResult.resetTime - Date.now()) / 60000)} minutes.`,
+    });
+  }
+}
+
+async function assertValidCode(userId: string, code: string) {
+  assertAttemptAllowed(userId);
+  if (!(await verifySecondFactor(userId, code))) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Invalid code",
+    });
+  }
+}
+
+async function isTwoFactorRequired() {
+  const settings = await db.settings.findUnique({
+    where: { id: "settings" },
+    select: { requireTwoFactor: true },
+  });
+  return settings?.requireTwoFactor ?? false;
+}
+
+export const twoFactorRouter = createTRPCRouter({
+  status: protectedProcedure.query(async ({ ctx }) => {
+    const user = await ctx.db.user.findUnique({
+      where: { id: ctx.userId },
+      select: {
+        passwordHash: true,
+        totpEnabled: true,
+        _count: { select: { recoveryCodes: { where: { usedAt: null } } } },
+      },
+    });
+
+    return {
+      enabled: user?.totpEnabled ?? false,
+      required: await isTwoFactorRequired(),
+      // Single sign-on accounts use their provider's second factor
+      available: !!user?.passwordHash,
+      recoveryCodesLeft: user?._count.recoveryCodes ?? 0,
+    };
+  }),
+
+  startSetup: protectedProcedure.mutation(async ({ ctx }) => {
+    const user = await ctx.db.user.findUnique({ where: { id: ctx.userId } });
+    if (!user?.passwordHash) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "This account signs in with single sign-on",
+      });
+    }
+    if (user.totpEnabled) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Two-factor authentication is already on",
+      });
+    }
+
+    return beginTotpSetup(user);
+  }),
+
+  confirmSetup: protectedProcedure
+    .input(z.object({ code: twoFactorCodeSchema }))
+    .mutation(async ({ ctx, input }) => {
+      assertAttemptAllowed(ctx.userId);
+
+      const recoveryCodes = await confirmTotpSetup(ctx.userId, input.code);
+      if (!recoveryCodes) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Invalid code",
+        });
+      }
+
+      return { recoveryCodes };
+    }),
+
+  // Uses up the code given, whether from the app or a recovery code
+  regenerateRecoveryCodes: protectedProcedure
+    .input(z.object({ code: twoFactorCodeSchema }))
+    .mutation(async ({ ctx, input }) => {
+      await assertValidCode(ctx.userId, input.code);
+
+      return { recoveryCodes: await replaceRecoveryCodes(ctx.userId) };
+    }),
+
+  disable: protectedProcedure
+    .input(z.object({ code: twoFactorCodeSchema }))
+    .mutation(async ({ ctx, input }) => {
+      if (await isTwoFactorRequired()) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Two-factor authentication is required on this server",
+        });
+      }
+
+      await assertValidCode(ctx.userId, input.code);
+      await disableTwoFactor(ctx.userId);
+
+      return { success: true };
+    }),
+});
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import type { Prisma } from "@prisma/client";
 import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
 
 export const usageRouter = createTRPCRouter({
@@ -17,15 +18,15 @@ export const usageRouter = createTRPCRouter({
     )
     .query(async ({ ctx, input }) => {
       const where: {
-        session?: { deviceId?: string };
+        session: { deviceId?: string; device: Prisma.DeviceWhereInput };
         sessionId?: string;
         model?: string;
         type?: string;
         timestamp?: { gte?: Date; lte?: Date };
-      } = {};
+      } = { session: { device: ctx.deviceScope } };
 
       if (input.deviceId) {
-        where.session = { deviceId: input.deviceId };
+        where.session.deviceId = input.deviceId;
       }
 
       if (input.sessionId) {
@@ -96,7 +97,10 @@ export const usageRouter = createTRPCRouter({
       const entries = await ctx.db.usageEntry.findMany({
         where: {
           timestamp: { gte: input.from, lte: input.to },
-          ...(input.deviceId && { session: { deviceId: input.deviceId } }),
+          session: {
+            device: ctx.deviceScope,
+            ...(input.deviceId && { deviceId: input.deviceId }),
+          },
         },
         select: {
           timestamp: true,
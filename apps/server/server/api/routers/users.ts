@@ -0,0 +1,300 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import {
+  acceptInviteSchema,
+  createInviteSchema,
+  userRoleSchema,
+} from "@davidilie/claude-code-prometheus-shared";
+import {
+  createTRPCRouter,
+  adminProcedure,
+  setupCompletedProcedure,
+} from "~/server/api/trpc";
+import {
+  hashPassword,
+  createToken,
+  generateInviteToken,
+  parseUserRole,
+  checkRateLimit,
+  RATE_LIMITS,
+  INVITE_EXPIRY_MS,
+} from "~/server/lib/auth";
+import { disableTwoFactor } from "~/server/lib/two-factor";
+import { db } from "~/server/db";
+
+// Pending invite for a token, or null once it's used or expired
+async function findOpenInvite(token: string) {
+  const invite = await db.invite.findUnique({ where: { token } });
+  if (!invite || invite.acceptedAt || invite.expiresAt < new Date()) {
+    return null;
+  }
+  return invite;
+}
+
+// Refuse changes that would leave the server without an admin
+async function assertOtherAdminExists(userId: string) {
+  const admins = await db.user.count({
+    where: { role: "admin", id: { not: userId } },
+  });
+
+  if (admins === 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "The server needs at least one admin",
+    });
+  }
+}
+
+export const usersRouter = createTRPCRouter({
+  list: adminProcedure.query(async ({ ctx }) => {
+    const users = await ctx.db.user.findMany({
+      orderBy: { createdAt: "asc" },
+      select: {
+        id: true,
+        username: true,
+        email: true,
+        role: true,
+        teamId: true,
+        passwordHash: true,
+        totpEnabled: true,
+        createdAt: true,
+      },
+    });
+
+    return users.map(({ passwordHash, ...user }) => ({
+      ...user,
+      role: parseUserRole(user.role),
+      hasPassword: passwordHash !== null,
+    }));
+  }),
+
+  invites: adminProcedure.query(async ({ ctx }) => {
+    const invites = await ctx.db.invite.findMany({
+      where: { acceptedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: "desc" },
+      select: {
+        id: true,
+        token: true,
+        email: true,
+        role: true,
+        expiresAt: true,
+        createdAt: true,
+        createdBy: { select: { username: true } },
+      },
+    });
+
+    return invites.map((invite) => ({ ...invite, role: parseUserRole(invite.role) }));
+  }),
+
+  createInvite: adminProcedure
+    .input(createInviteSchema)
+    .mutation(async ({ ctx, input }) => {
+      const invite = await ctx.db.invite.create({
+        data: {
+          token: generateInviteToken(),
+          email: input.email || null,
+          role: input.role,
+          createdById: ctx.userId,
+          expiresAt: new Date(Date.now() + INVITE_EXPIRY_MS),
+        },
+      });
+
+      return { id: invite.id, token: invite.token, expiresAt: invite.expiresAt };
+    }),
+
+  revokeInvite: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db.invite.delete({
+        where: { id: input.id },
+      });
+
+      return { success: true };
+    }),
+
+  updateRole: adminProcedure
+    .input(z.object({ id: z.string(), role: userRoleSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const user = await ctx.db.user.findUnique({ where: { id: input.id } });
+      if (!user) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "User not found",
+        });
+      }
+
+      if (user.role === "admin" && input.role !== "admin") {
+        await assertOtherAdminExists(user.id);
+      }
+
+      await ctx.db.user.update({
+        where: { id: input.id },
+        data: { role: input.role },
+      });
+
+      return { success: true };
+    }),
+
+  // Moves the user's devices along, so their usage counts for the new team
+  updateTeam: adminProcedure
+    .input(z.object({ id: z.string(), teamId: z.string().nullable() }))
+    .mutation(async ({ ctx, input }) => {
+      const user = await ctx.db.user.findUnique({ where: { id: input.id } });
+      if (!user) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "User not found",
+        });
+      }
+
+      if (input.teamId) {
+        const team = await ctx.db.team.findUnique({ where: { id: input.teamId } });
+        if (!team) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Team not found",
+          });
+        }
+      }
+
+      await ctx.db.$transaction([
+        ctx.db.user.update({
+          where: { id: input.id },
+          data: { teamId: input.teamId },
+        }),
+        ctx.db.device.updateMany({
+          where: { ownerId: input.id },
+          data: { teamId: input.teamId },
+        }),
+      ]);
+
+      return { success: true };
+    }),
+
+  // For a user who lost both their authenticator and recovery codes
+  resetTwoFactor: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const user = await ctx.db.user.findUnique({ where: { id: input.id } });
+      if (!user) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "User not found",
+        });
+      }
+
+      await disableTwoFactor(user.id);
+
+      return { success: true };
+    }),
+
+  delete: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      if (input.id === ctx.userId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "You can't remove your own account",
+        });
+      }
+
+      const user = await ctx.db.user.findUnique({ where: { id: input.id } });
+      if (!user) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "User not found",
+        });
+      }
+
+      if (user.role === "admin") {
+        await assertOtherAdminExists(user.id);
+      }
+
+      await ctx.db.user.delete({
+        where: { id: input.id },
+      });
+
+      return { success: true };
+    }),
+
+  // Public - shown on the invite page before an account exists
+  getInvite: setupCompletedProcedure
+    .input(z.object({ token: z.string() }))
+    .query(async ({ input }) => {
+      const invite = await findOpenInvite(input.token);
+      if (!invite) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "This invite link is invalid or has expired",
+        });
+      }
+
+      return {
+        email: invite.email,
+        role: parseUserRole(invite.role),
+        expiresAt: invite.expiresAt,
+      };
+    }),
+
+  acceptInvite: setupCompletedProcedure
+    .input(acceptInviteSchema)
+    .mutation(async ({ ctx, input }) => {
+      const rateLimitResult = checkRateLimit(`invite:${input.token}`, RATE_LIMITS.register);
+      if (!rateLimitResult.allowed) {
+        throw new TRPCError({
+          code: "TOO_MANY_REQUESTS",
+          message: "Too many attempts. Try again later.",
+        });
+      }
+
+      const invite = await findOpenInvite(input.token);
+      if (!invite) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "This invite link is invalid or has expired",
+        });
+      }
+
+      const existingUser = await ctx.db.user.findUnique({
+        where: { username: input.username },
+      });
+      if (existingUser) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "Username is already taken",
+        });
+      }
+
+      const passwordHash = await hashPassword(input.password);
+
+      // Claiming the invite and creating the user together keeps a link single-use
+      const user = await ctx.db.$transaction(async (tx) => {
+        const claimed = await tx.invite.updateMany({
+          where: { id: invite.id, acceptedAt: null },
+          data: { acceptedAt: new Date() },
+        });
+        if (claimed.count === 0) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "This invite link is invalid or has expired",
+          });
+        }
+
+        return tx.user.create({
+          data: {
+            username: input.username,
+            email: input.email || invite.email,
+            passwordHash,
+            role: invite.role,
+          },
+        });
+      });
+
+      const token = await createToken({
+        userId: user.id,
+        username: user.username,
+      });
+
+      return { token, user: { id: user.id, username: user.username } };
+    }),
+});
@@ -0,0 +1,161 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { createTRPCRouter, adminProcedure } from "~/server/api/trpc";
+import { generateWebhookSecret } from "~/server/lib/auth";
+import {
+  WEBHOOK_EVENTS,
+  parseWebhookEvents,
+  sendTestWebhook,
+  redeliverWebhook,
+} from "~/server/lib/webhooks";
+
+const webhookUrl = z
+  .string()
+  .url()
+  .refine((url) => url.startsWith("http://") || url.startsWith("https://"), {
+    message: "URL must use http or https",
+  });
+
+export const webhooksRouter = createTRPCRouter({
+  list: adminProcedure.query(async ({ ctx }) => {
+    const webhooks = await ctx.db.webhook.findMany({
+      orderBy: { createdAt: "asc" },
+    });
+
+    return webhooks.map((webhook) => ({
+      ...webhook,
+      events: parseWebhookEvents(webhook.events),
+    }));
+  }),
+
+  create: adminProcedure
+    .input(
+      z.object({
+        name: z.string().min(1).max(100),
+        url: webhookUrl,
+        events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, "Select at least one event"),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const webhook = await ctx.db.webhook.create({
+        data: {
+          name: input.name,
+          url: input.url,
+          secret: generateWebhookSecret(),
+          events: JSON.stringify(input.events),
+        },
+      });
+
+      return { ...webhook, events: input.events };
+    }),
+
+  update: adminProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        name: z.string().min(1).max(100).optional(),
+        url: webhookUrl.optional(),
+        events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).optional(),
+        enabled: z.boolean().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id, events, ...data } = input;
+
+      const webhook = await ctx.db.webhook.update({
+        where: { id },
+        data: {
+          ...data,
+          ...(events && { events: JSON.stringify(events) }),
+        },
+      });
+
+      return { ...webhook, events: parseWebhookEvents(webhook.events) };
+    }),
+
+  delete: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db.webhook.delete({
+        where: { id: input.id },
+      });
+
+      return { success: true };
+    }),
+
+  regenerateSecret: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const webhook = await ctx.db.webhook.update({
+        where: { id: input.id },
+        data: { secret: generateWebhookSecret() },
+      });
+
+      return { secret: webhook.secret };
+    }),
+
+  test: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const webhook = await ctx.db.webhook.findUnique({
+        where: { id: input.id },
+        select: { id: true },
+      });
+
+      if (!webhook) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Webhook not found",
+        });
+      }
+
+      const delivered = await sendTestWebhook(webhook.id);
+      return { delivered };
+    }),
+
+  deliveries: adminProcedure
+    .input(
+      z.object({
+        webhookId: z.string().optional(),
+        limit: z.number().int().min(1).max(100).default(25),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      return ctx.db.webhookDelivery.findMany({
+        where: input.webhookId ? { webhookId: input.webhookId } : undefined,
+        orderBy: { createdAt: "desc" },
+        take: input.limit,
+        select: {
+          id: true,
+          event: true,
+          status: true,
+          attempts: true,
+          responseStatus: true,
+          error: true,
+          nextAttemptAt: true,
+          deliveredAt: true,
+          createdAt: true,
+          webhook: { select: { id: true, name: true } },
+        },
+      });
+    }),
+
+  redeliver: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const delivery = await ctx.db.webhookDelivery.findUnique({
+        where: { id: input.id },
+        select: { id: true },
+      });
+
+      if (!delivery) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Delivery not found",
+        });
+      }
+
+      const delivered = await redeliverWebhook(delivery.id);
+      return { delivered };
+    }),
+});
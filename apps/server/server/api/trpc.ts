@@ -1,12 +1,16 @@
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import { ZodError } from "zod";
+import type { Prisma } from "@prisma/client";
 import { db } from "~/server/db";
-import { verifyToken, type JWTPayload } from "~/server/lib/auth";
+import { hasRole, type UserRole } from "@davidilie/claude-code-prometheus-shared";
+import { verifyToken, parseUserRole, type JWTPayload } from "~/server/lib/auth";
 
 export interface CreateContextOptions {
   userId?: string;
   username?: string;
+  // "all" or "mine" from the admin's All users toggle
+  scope?: string;
 }
 
 export async function createTRPCContext(opts: {
@@ -16,6 +20,7 @@ export async function createTRPCContext(opts: {
   const cookieHeader = opts.headers.get("cookie");
 
   let user: JWTPayload | null = null;
+  let scope: string | undefined;
 
   // Try to get token from Authorization header
   if (authHeader?.startsWith("Bearer ")) {
@@ -24,22 +29,24 @@ export async function createTRPCContext(opts: {
   }
 
   // Try to get token from cookies
-  if (!user && cookieHeader) {
+  if (cookieHeader) {
     const cookies = Object.fromEntries(
       cookieHeader.split("; ").map((c) => {
         const [key, ...rest] = c.split("=");
         return [key, rest.join("=")];
       })
     );
-    if (cookies["auth-token"]) {
+    if (!user && cookies["auth-token"]) {
       user = await verifyToken(cookies["auth-token"]);
     }
+    scope = cookies["device-scope"];
   }
 
   return {
     db,
     userId: user?.userId,
     username: user?.username,
+    scope,
   };
 }
 
@@ -76,7 +83,10 @@ const enforceSetupCompleted = t.middleware(async ({ ctx, next }) => {
   return next({ ctx });
 });
 
-// Middleware to check if user is authenticated
+// Middleware to check if user is authenticated. The role is read from the
+// database, not the token, so removed users and role changes apply at once.
+// Once admins require two-factor, password users without it are signed out
+// until they set it up at their next sign-in.
 const enforceAuth = t.middleware(async ({ ctx, next }) => {
   if (!ctx.userId || !ctx.username) {
     throw new TRPCError({
@@ -85,19 +95,74 @@ const enforceAuth = t.middleware(async ({ ctx, next }) => {
     });
   }
 
+  const user = await ctx.db.user.findUnique({
+    where: { id: ctx.userId },
+    select: { role: true, passwordHash: true, totpEnabled: true },
+  });
+
+  if (!user) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "Not authenticated",
+    });
+  }
+
+  // Single sign-on accounts rely on their provider instead
+  if (user.passwordHash && !user.totpEnabled) {
+    const settings = await ctx.db.settings.findUnique({
+      where: { id: "settings" },
+      select: { requireTwoFactor: true },
+    });
+    if (settings?.requireTwoFactor) {
+      throw new TRPCError({
+        code: "UNAUTHORIZED",
+        message: "Two-factor authentication is required. Sign in again to set it up.",
+      });
+    }
+  }
+
+  const role = parseUserRole(user.role);
+  const ownDevices: Prisma.DeviceWhereInput = { ownerId: ctx.userId };
+
   return next({
     ctx: {
       ...ctx,
       userId: ctx.userId,
       username: ctx.username,
+      role,
+      // Devices the user can change - admins manage every device
+      deviceAccess: role === "admin" ? {} : ownDevices,
+      // Devices whose data is shown - admins see all users unless they switch to their own
+      deviceScope: role === "admin" && ctx.scope !== "mine" ? {} : ownDevices,
     },
   });
 });
 
+function enforceRole(role: UserRole, required: UserRole) {
+  if (!hasRole(role, required)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `This action requires the ${required} role`,
+    });
+  }
+}
+
 // Procedure that requires setup to be completed
 export const setupCompletedProcedure = t.procedure.use(enforceSetupCompleted);
 
-// Procedure that requires authentication
+// Procedure that requires authentication - any role, including read-only viewers
 export const protectedProcedure = t.procedure
   .use(enforceSetupCompleted)
   .use(enforceAuth);
+
+// Procedure for changes to devices, sessions and budgets
+export const memberProcedure = protectedProcedure.use(({ ctx, next }) => {
+  enforceRole(ctx.role, "member");
+  return next();
+});
+
+// Procedure for server configuration and user management
+export const adminProcedure = protectedProcedure.use(({ ctx, next }) => {
+  enforceRole(ctx.role, "admin");
+  return next();
+});
@@ -6,6 +6,12 @@ const globalForPrisma = globalThis as unknown as {
   dbInitialized: boolean | undefined;
 };
 
+// Upgrading from a single-admin install adds User.role with its viewer default,
+// so the setup user - the first one - is made admin again if there is none
+const PROMOTE_SETUP_ADMIN_SQL = `UPDATE "User" SET "role" = 'admin'
+WHERE NOT EXISTS (SELECT 1 FROM "User" WHERE "role" = 'admin')
+AND "id" = (SELECT "id" FROM "User" ORDER BY "createdAt" ASC LIMIT 1);`;
+
 // Initialize database schema on first import (server startup)
 if (!globalForPrisma.dbInitialized) {
   globalForPrisma.dbInitialized = true;
@@ -18,6 +24,13 @@ if (!globalForPrisma.dbInitialized) {
       timeout: 30000, // 30 second timeout
     });
     console.log("✅ Database schema synced");
+
+    execSync("node_modules/.bin/prisma db execute --stdin --schema prisma/schema.prisma 2>/dev/null || true", {
+      input: PROMOTE_SETUP_ADMIN_SQL,
+      stdio: ["pipe", "inherit", "inherit"],
+      cwd: process.cwd(),
+      timeout: 30000,
+    });
   } catch (error) {
     console.log("⚠️ Schema sync skipped - database may already be initialized");
   }
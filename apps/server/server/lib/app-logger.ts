@@ -166,6 +166,8 @@ export const LogCategories = {
   DATABASE: "database",
   METRICS: "metrics",
   SCHEDULER: "scheduler",
+  BUDGET: "budget",
+  WEBHOOK: "webhook",
   SYSTEM: "system",
 } as const;
 
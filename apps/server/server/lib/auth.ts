@@ -1,6 +1,7 @@
 import { SignJWT, jwtVerify } from "jose";
 import bcrypt from "bcryptjs";
 import { randomBytes } from "node:crypto";
+import { userRoleSchema, type UserRole } from "@davidilie/claude-code-prometheus-shared";
 
 const { hash, compare } = bcrypt;
 
@@ -20,6 +21,7 @@ const AUTO_LOGIN_EXPIRY = "30d"; // Auto-login tokens expire after 30 days
 export interface JWTPayload {
   userId: string;
   username: string;
+  autoLogin?: boolean;
   iat?: number;
   exp?: number;
 }
@@ -48,6 +50,8 @@ export async function createToken(payload: JWTPayload): Promise<string> {
 export async function verifyToken(token: string): Promise<JWTPayload | null> {
   try {
     const { payload } = await jwtVerify(token, SECRET_KEY);
+    // SSO flows and two-factor challenges are signed with the same key but aren't sessions
+    if (payload.purpose) return null;
     return payload as unknown as JWTPayload;
   } catch {
     return null;
@@ -63,6 +67,90 @@ export async function createAutoLoginToken(payload: JWTPayload): Promise<string>
     .sign(SECRET_KEY);
 }
 
+// State of an SSO sign-in between the redirect to the provider and the callback
+export interface OidcFlow {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+}
+
+const OIDC_FLOW_EXPIRY = "10m";
+
+export async function createOidcFlowToken(flow: OidcFlow): Promise<string> {
+  return new SignJWT({ ...flow, purpose: "oidc" })
+    .setProtectedHeader({ alg: ALGORITHM })
+    .setIssuedAt()
+    .setExpirationTime(OIDC_FLOW_EXPIRY)
+    .sign(SECRET_KEY);
+}
+
+export async function verifyOidcFlowToken(token: string): Promise<OidcFlow | null> {
+  try {
+    const { payload } = await jwtVerify(token, SECRET_KEY);
+    if (payload.purpose !== "oidc") return null;
+    return payload as unknown as OidcFlow;
+  } catch {
+    return null;
+  }
+}
+
+// Sign-in that passed the password check and still needs its second factor
+export interface TwoFactorChallenge {
+  userId: string;
+  // The user has to set up two-factor before they can sign in
+  setup: boolean;
+}
+
+const TWO_FACTOR_CHALLENGE_EXPIRY = "5m";
+
+export async function createTwoFactorChallengeToken(challenge: TwoFactorChallenge): Promise<string> {
+  return new SignJWT({ ...challenge, purpose: "2fa" })
+    .setProtectedHeader({ alg: ALGORITHM })
+    .setIssuedAt()
+    .setExpirationTime(TWO_FACTOR_CHALLENGE_EXPIRY)
+    .sign(SECRET_KEY);
+}
+
+export async function verifyTwoFactorChallengeToken(
+  token: string
+): Promise<TwoFactorChallenge | null> {
+  try {
+    const { payload } = await jwtVerify(token, SECRET_KEY);
+    if (payload.purpose !== "2fa") return null;
+    return payload as unknown as TwoFactorChallenge;
+  } catch {
+    return null;
+  }
+}
+
+// Lets the daemon's setup command register a device for the member who made it
+export interface DeviceRegistrationGrant {
+  userId: string;
+}
+
+export const DEVICE_REGISTRATION_EXPIRY_MINUTES = 60;
+
+export async function createDeviceRegistrationToken(grant: DeviceRegistrationGrant): Promise<string> {
+  return new SignJWT({ userId: grant.userId, purpose: "device-registration" })
+    .setProtectedHeader({ alg: ALGORITHM })
+    .setIssuedAt()
+    .setExpirationTime(`${DEVICE_REGISTRATION_EXPIRY_MINUTES}m`)
+    .sign(SECRET_KEY);
+}
+
+export async function verifyDeviceRegistrationToken(
+  token: string
+): Promise<DeviceRegistrationGrant | null> {
+  try {
+    const { payload } = await jwtVerify(token, SECRET_KEY);
+    if (payload.purpose !== "device-registration") return null;
+    return payload as unknown as DeviceRegistrationGrant;
+  } catch {
+    return null;
+  }
+}
+
 // API Key generation - cryptographically secure
 export function generateApiKey(): string {
   const prefix = "dk_";
@@ -71,6 +159,24 @@ export function generateApiKey(): string {
   return prefix + key;
 }
 
+// Webhook signing secret
+export function generateWebhookSecret(): string {
+  return "whsec_" + randomBytes(32).toString("base64url");
+}
+
+// Invite link token
+export function generateInviteToken(): string {
+  return "inv_" + randomBytes(24).toString("base64url");
+}
+
+export const INVITE_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000; // Invites expire after 7 days
+
+// Role column as stored - anything unexpected gets the least access
+export function parseUserRole(value: string): UserRole {
+  const parsed = userRoleSchema.safeParse(value);
+  return parsed.success ? parsed.data : "viewer";
+}
+
 // API Key hashing - store hashed version in DB
 export async function hashApiKey(apiKey: string): Promise<string> {
   // Use a lower cost factor for API keys since they're already random
@@ -131,6 +237,7 @@ setInterval(() => {
 // Security constants
 export const RATE_LIMITS = {
   login: { windowMs: 15 * 60 * 1000, maxRequests: 5 }, // 5 attempts per 15 min
+  twoFactor: { windowMs: 15 * 60 * 1000, maxRequests: 5 }, // 5 codes per 15 min
   register: { windowMs: 60 * 60 * 1000, maxRequests: 10 }, // 10 registrations per hour
   api: { windowMs: 60 * 1000, maxRequests: 100 }, // 100 req/min for API
   usage: { windowMs: 60 * 1000, maxRequests: 60 }, // 60 req/min for usage push
@@ -0,0 +1,218 @@
+/**
+ * Spend budgets
+ *
+ * Budgets cap daily or monthly spend for the whole server, a device, a project
+ * or a model. They are evaluated against UsageEntry.costUSD after each usage
+ * push (and periodically by the scheduler, so gauges roll over with the
+ * period). Crossing 50%, 80% or 100% raises one alert per threshold per period.
+ */
+
+import { Prisma, type Budget } from "@prisma/client";
+import { db } from "~/server/db";
+import { setBudgetMetrics, setDailySpend, recordBudgetAlert } from "./metrics";
+import { emitWebhookEvent } from "./webhooks";
+import { appLog, LogCategories } from "./app-logger";
+
+export const BUDGET_SCOPES = ["global", "device", "project", "model"] as const;
+export const BUDGET_PERIODS = ["daily", "monthly"] as const;
+export const BUDGET_THRESHOLDS = [50, 80, 100] as const;
+
+export type BudgetScope = (typeof BUDGET_SCOPES)[number];
+export type BudgetPeriod = (typeof BUDGET_PERIODS)[number];
+
+export interface BudgetStatus {
+  budget: Budget;
+  periodStart: Date;
+  spendUSD: number;
+  utilization: number;
+}
+
+export interface BudgetAlertEvent {
+  budgetId: string;
+  budgetName: string;
+  scope: string;
+  scopeValue: string | null;
+  period: string;
+  threshold: number;
+  spendUSD: number;
+  amountUSD: number;
+  periodStart: Date;
+}
+
+// Periods follow server local time, same as the dashboard's "this month"
+export function getPeriodStart(period: string, now: Date = new Date()): Date {
+  if (period === "daily") {
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  }
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+function scopeFilter(budget: Pick<Budget, "scope" | "scopeValue">): Prisma.UsageEntryWhereInput {
+  switch (budget.scope) {
+    case "device":
+      return { session: { deviceId: budget.scopeValue ?? "" } };
+    case "project":
+      return { session: { project: budget.scopeValue ?? "" } };
+    case "model":
+      return { model: budget.scopeValue ?? "" };
+    default:
+      return {};
+  }
+}
+
+export async function getBudgetSpend(
+  budget: Pick<Budget, "scope" | "scopeValue">,
+  periodStart: Date
+): Promise<number> {
+  const result = await db.usageEntry.aggregate({
+    where: {
+      ...scopeFilter(budget),
+      timestamp: { gte: periodStart },
+    },
+    _sum: { costUSD: true },
+  });
+  return result._sum.costUSD ?? 0;
+}
+
+export async function getBudgetStatus(budget: Budget, now: Date = new Date()): Promise<BudgetStatus> {
+  const periodStart = getPeriodStart(budget.period, now);
+  const spendUSD = await getBudgetSpend(budget, periodStart);
+  return {
+    budget,
+    periodStart,
+    spendUSD,
+    utilization: budget.amountUSD > 0 ? spendUSD / budget.amountUSD : 0,
+  };
+}
+
+// Store an alert for each newly crossed threshold. The unique index on
+// (budget, threshold, period) keeps concurrent pushes from alerting twice.
+async function raiseAlerts(status: BudgetStatus): Promise<BudgetAlertEvent[]> {
+  const { budget, periodStart, spendUSD, utilization } = status;
+  const events: BudgetAlertEvent[] = [];
+
+  const crossed = BUDGET_THRESHOLDS.filter((threshold) => utilization * 100 >= threshold);
+  if (crossed.length === 0) return events;
+
+  const existing = await db.budgetAlert.findMany({
+    where: { budgetId: budget.id, periodStart },
+    select: { threshold: true },
+  });
+  const alerted = new Set(existing.map((alert) => alert.threshold));
+
+  for (const threshold of crossed) {
+    if (alerted.has(threshold)) continue;
+
+    try {
+      await db.budgetAlert.create({
+        data: {
+          budgetId: budget.id,
+          threshold,
+          periodStart,
+          spendUSD,
+          amountUSD: budget.amountUSD,
+        },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        continue;
+      }
+      throw error;
+    }
+
+    recordBudgetAlert(budget.id, budget.name, threshold);
+    appLog.warn(
+      LogCategories.BUDGET,
+      `Budget "${budget.name}" reached ${threshold}% of its ${budget.period} limit`,
+      {
+        scope: budget.scope,
+        scopeValue: budget.scopeValue,
+        spendUSD,
+        amountUSD: budget.amountUSD,
+      }
+    );
+
+    const event: BudgetAlertEvent = {
+      budgetId: budget.id,
+      budgetName: budget.name,
+      scope: budget.scope,
+      scopeValue: budget.scopeValue,
+      period: budget.period,
+      threshold,
+      spendUSD,
+      amountUSD: budget.amountUSD,
+      periodStart,
+    };
+    events.push(event);
+
+    await emitWebhookEvent("budget.threshold", {
+      ...event,
+      periodStart: periodStart.toISOString(),
+    });
+  }
+
+  return events;
+}
+
+async function updateDailySpendMetrics(now: Date): Promise<void> {
+  const groups = await db.usageEntry.groupBy({
+    by: ["deviceId"],
+    where: {
+      timestamp: { gte: getPeriodStart("daily", now) },
+      deviceId: { not: null },
+    },
+    _sum: { costUSD: true },
+  });
+
+  const devices = await db.device.findMany({
+    where: { id: { in: groups.map((group) => group.deviceId!) } },
+    select: { id: true, name: true },
+  });
+  const deviceNames = new Map(devices.map((device) => [device.id, device.name]));
+
+  const spendByDevice: Record<string, number> = {};
+  for (const group of groups) {
+    const name = deviceNames.get(group.deviceId!);
+    if (!name) continue;
+    spendByDevice[name] = (spendByDevice[name] ?? 0) + (group._sum.costUSD ?? 0);
+  }
+
+  setDailySpend(spendByDevice);
+}
+
+/**
+ * Recompute spend for every enabled budget, refresh the budget and daily spend
+ * gauges, and raise alerts for thresholds crossed since the last evaluation.
+ */
+export async function evaluateBudgets(): Promise<BudgetAlertEvent[]> {
+  const now = new Date();
+  const budgets = await db.budget.findMany({ where: { enabled: true } });
+
+  const statuses = await Promise.all(
+    budgets.map((budget) => getBudgetStatus(budget, now))
+  );
+
+  setBudgetMetrics(
+    statuses.map(({ budget, spendUSD }) => ({
+      budgetId: budget.id,
+      budget: budget.name,
+      scope: budget.scope,
+      scopeValue: budget.scopeValue,
+      period: budget.period,
+      spendUSD,
+      amountUSD: budget.amountUSD,
+    }))
+  );
+
+  await updateDailySpendMetrics(now);
+
+  const events: BudgetAlertEvent[] = [];
+  for (const status of statuses) {
+    events.push(...(await raiseAlerts(status)));
+  }
+
+  return events;
+}
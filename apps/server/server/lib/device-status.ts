@@ -0,0 +1,49 @@
+import { db } from "~/server/db";
+import { updateDeviceStatus } from "./metrics";
+import { emitWebhookEvent } from "./webhooks";
+import { appLog, LogCategories } from "./app-logger";
+
+// A device is online if it pushed within this window
+export const ONLINE_THRESHOLD_MS = 5 * 60 * 1000; // 5 minutes
+
+export function isDeviceOnline(lastSeen: Date, now: Date = new Date()): boolean {
+  return now.getTime() - lastSeen.getTime() < ONLINE_THRESHOLD_MS;
+}
+
+// Flip devices that stopped pushing to offline and notify once per transition
+export async function markOfflineDevices(): Promise<number> {
+  const cutoff = new Date(Date.now() - ONLINE_THRESHOLD_MS);
+
+  const staleDevices = await db.device.findMany({
+    where: { online: true, lastSeen: { lt: cutoff } },
+    select: { id: true, name: true, hostname: true, lastSeen: true },
+  });
+
+  let marked = 0;
+
+  for (const device of staleDevices) {
+    // Skip if the device pushed again since we looked
+    const result = await db.device.updateMany({
+      where: { id: device.id, online: true, lastSeen: { lt: cutoff } },
+      data: { online: false },
+    });
+
+    if (result.count === 0) continue;
+
+    updateDeviceStatus(device.name, false, device.hostname);
+    appLog.info(LogCategories.DEVICE, `Device "${device.name}" went offline`, {
+      lastSeen: device.lastSeen.toISOString(),
+    });
+
+    await emitWebhookEvent("device.offline", {
+      deviceId: device.id,
+      name: device.name,
+      hostname: device.hostname,
+      lastSeen: device.lastSeen.toISOString(),
+    });
+
+    marked++;
+  }
+
+  return marked;
+}
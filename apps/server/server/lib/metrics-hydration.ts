@@ -0,0 +1,163 @@
+/**
+ * Prometheus metrics hydration
+ *
+ * Counters in metrics.ts live in memory and would restart from zero on every
+ * server restart. On first use we seed them from the aggregated UsageEntry and
+ * Session rows in the database, so increase() and the total gauges stay
+ * continuous across restarts (within the configured retention window).
+ */
+
+import { db } from "~/server/db";
+import { calculateCacheSavings } from "./pricing";
+import {
+  seedUsageTotals,
+  seedSessionTotals,
+  DEFAULT_PROFILE,
+  type UsageTotalsSeed,
+  type SessionTotalsSeed,
+} from "./metrics";
+import { appLog, LogCategories } from "./app-logger";
+import { migrateProjectNames } from "./project-names";
+
+let hydrationPromise: Promise<void> | null = null;
+
+async function hydrateMetrics(): Promise<void> {
+  const startedAt = Date.now();
+
+  // Project labels are seeded from Session.project - rename encoded ones first
+  await migrateProjectNames().catch((error) => {
+    appLog.error(LogCategories.SESSION, "Failed to migrate project names", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  });
+
+  const [usageGroups, sessions] = await Promise.all([
+    db.usageEntry.groupBy({
+      by: ["sessionId", "model"],
+      _sum: {
+        inputTokens: true,
+        outputTokens: true,
+        cacheCreationTokens: true,
+        cacheReadTokens: true,
+        costUSD: true,
+      },
+      _count: { _all: true },
+    }),
+    db.session.findMany({
+      select: {
+        id: true,
+        project: true,
+        profile: true,
+        gitRepo: true,
+        gitBranch: true,
+        status: true,
+        device: { select: { name: true, team: { select: { name: true } } } },
+      },
+    }),
+  ]);
+
+  const sessionLabels = new Map<
+    string,
+    { device: string; project: string; profile: string; repo: string; branch: string; team: string }
+  >();
+  const sessionCounts = new Map<string, SessionTotalsSeed>();
+
+  for (const session of sessions) {
+    const device = session.device.name;
+    const profile = session.profile ?? DEFAULT_PROFILE;
+    // Usage is labelled with the device's current team
+    const team = session.device.team?.name ?? "";
+    sessionLabels.set(session.id, {
+      device,
+      project: session.project,
+      profile,
+      repo: session.gitRepo ?? "",
+      branch: session.gitBranch ?? "",
+      team,
+    });
+
+    const key = `${device}\0${session.project}\0${profile}\0${team}`;
+    const active = session.status === "active" ? 1 : 0;
+    const existing = sessionCounts.get(key);
+    if (existing) {
+      existing.sessions++;
+      existing.active += active;
+    } else {
+      sessionCounts.set(key, { device, project: session.project, profile, team, sessions: 1, active });
+    }
+  }
+
+  // Collapse per-session groups into the label sets used by the counters
+  const usageTotals = new Map<string, UsageTotalsSeed>();
+
+  for (const group of usageGroups) {
+    const labels = sessionLabels.get(group.sessionId);
+    if (!labels) continue;
+
+    const model = group.model ?? "unknown";
+    const key = [
+      labels.device,
+      model,
+      labels.project,
+      labels.profile,
+      labels.repo,
+      labels.branch,
+      labels.team,
+    ].join("\0");
+    const cacheReadTokens = group._sum.cacheReadTokens ?? 0;
+
+    let totals = usageTotals.get(key);
+    if (!totals) {
+      totals = {
+        device: labels.device,
+        model,
+        project: labels.project,
+        profile: labels.profile,
+        repo: labels.repo,
+        branch: labels.branch,
+        team: labels.team,
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheCreationTokens: 0,
+        cacheReadTokens: 0,
+        costUSD: 0,
+        cacheSavingsUSD: 0,
+        requests: 0,
+      };
+      usageTotals.set(key, totals);
+    }
+
+    totals.inputTokens += group._sum.inputTokens ?? 0;
+    totals.outputTokens += group._sum.outputTokens ?? 0;
+    totals.cacheCreationTokens += group._sum.cacheCreationTokens ?? 0;
+    totals.cacheReadTokens += cacheReadTokens;
+    totals.costUSD += group._sum.costUSD ?? 0;
+    totals.cacheSavingsUSD += calculateCacheSavings(group.model, cacheReadTokens);
+    totals.requests += group._count._all;
+  }
+
+  seedUsageTotals(Array.from(usageTotals.values()));
+  seedSessionTotals(Array.from(sessionCounts.values()));
+
+  appLog.info(LogCategories.METRICS, "Hydrated Prometheus metrics from database", {
+    series: usageTotals.size,
+    sessions: sessions.length,
+    durationMs: Date.now() - startedAt,
+  });
+}
+
+/**
+ * Hydrate metrics once per process. Callers that record or serve metrics
+ * should await this first so seeded totals and new increments never overlap.
+ */
+export function ensureMetricsHydrated(): Promise<void> {
+  if (!hydrationPromise) {
+    hydrationPromise = hydrateMetrics().catch((error) => {
+      // Serve live counters from zero rather than failing every scrape
+      appLog.error(LogCategories.METRICS, "Failed to hydrate metrics from database", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+  return hydrationPromise;
+}
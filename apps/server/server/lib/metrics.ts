@@ -12,7 +12,8 @@ export const registry = new Registry();
 export const tokensTotal = new Counter({
   name: "claude_tokens_total",
   help: "Total number of tokens processed",
-  labelNames: ["device", "type", "model", "project"] as const,
+  // team is empty for devices that aren't in a team
+  labelNames: ["device", "type", "model", "project", "profile", "team"] as const,
   registers: [registry],
 });
 
@@ -41,7 +42,8 @@ export const inputOutputRatio = new Gauge({
 export const costTotal = new Counter({
   name: "claude_cost_usd_total",
   help: "Total cost in USD",
-  labelNames: ["device", "model", "project"] as const,
+  // repo and branch are empty for sessions outside a git checkout
+  labelNames: ["device", "model", "project", "profile", "repo", "branch", "team"] as const,
   registers: [registry],
 });
 
@@ -114,7 +116,7 @@ export const cacheEfficiency = new Gauge({
 export const sessionsTotal = new Counter({
   name: "claude_sessions_total",
   help: "Total number of sessions",
-  labelNames: ["device", "project"] as const,
+  labelNames: ["device", "project", "profile", "team"] as const,
   registers: [registry],
 });
 
@@ -166,7 +168,7 @@ export const tokensPerSession = new Histogram({
 export const sessionInfo = new Gauge({
   name: "claude_session_info",
   help: "Information about sessions (value=1 when active)",
-  labelNames: ["device", "session_id", "project", "model"] as const,
+  labelNames: ["device", "session_id", "project", "model", "profile"] as const,
   registers: [registry],
 });
 
@@ -186,7 +188,7 @@ export const sessionStartTime = new Gauge({
 export const requestsTotal = new Counter({
   name: "claude_requests_total",
   help: "Total number of API requests",
-  labelNames: ["device", "model", "type", "project"] as const,
+  labelNames: ["device", "model", "type", "project", "profile", "team"] as const,
   registers: [registry],
 });
 
@@ -339,10 +341,49 @@ export const totalSessionsGauge = new Gauge({
   registers: [registry],
 });
 
+// ============================================================================
+// BUDGET METRICS
+// ============================================================================
+
+// Spend in the budget's current period
+export const budgetSpend = new Gauge({
+  name: "claude_budget_spend_usd",
+  help: "Spend in USD for the budget's current period",
+  labelNames: ["budget_id", "budget", "scope", "scope_value", "period"] as const,
+  registers: [registry],
+});
+
+// Configured budget amount
+export const budgetLimit = new Gauge({
+  name: "claude_budget_limit_usd",
+  help: "Configured budget amount in USD",
+  labelNames: ["budget_id", "budget", "scope", "scope_value", "period"] as const,
+  registers: [registry],
+});
+
+// Spend divided by budget amount (1 = budget reached)
+export const budgetUtilization = new Gauge({
+  name: "claude_budget_utilization_ratio",
+  help: "Ratio of current period spend to budget amount",
+  labelNames: ["budget_id", "budget", "scope", "scope_value", "period"] as const,
+  registers: [registry],
+});
+
+// Alerts raised when a budget crosses 50%, 80% or 100%
+export const budgetAlertsTotal = new Counter({
+  name: "claude_budget_alerts_total",
+  help: "Total budget threshold alerts raised",
+  labelNames: ["budget_id", "budget", "threshold"] as const,
+  registers: [registry],
+});
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
 
+// Profile label for usage from daemons that don't label their watch roots
+export const DEFAULT_PROFILE = "default";
+
 // Track running totals for gauges
 const runningTotals: Record<string, { cost: number; tokens: Record<string, number>; sessions: number }> = {};
 
@@ -382,16 +423,20 @@ export function recordUsageMetrics(
   costUSD: number,
   cacheSavingsUSD: number,
   project: string = "unknown",
-  sessionId: string = "unknown"
+  sessionId: string = "unknown",
+  profile: string = DEFAULT_PROFILE,
+  repo: string = "",
+  branch: string = "",
+  team: string = ""
 ) {
   const modelLabel = model ?? "unknown";
   const totals = getDeviceTotals(device);
 
   // Token metrics
-  tokensTotal.inc({ device, type: "input", model: modelLabel, project }, inputTokens);
-  tokensTotal.inc({ device, type: "output", model: modelLabel, project }, outputTokens);
-  tokensTotal.inc({ device, type: "cache_creation", model: modelLabel, project }, cacheCreationTokens);
-  tokensTotal.inc({ device, type: "cache_read", model: modelLabel, project }, cacheReadTokens);
+  tokensTotal.inc({ device, type: "input", model: modelLabel, project, profile, team }, inputTokens);
+  tokensTotal.inc({ device, type: "output", model: modelLabel, project, profile, team }, outputTokens);
+  tokensTotal.inc({ device, type: "cache_creation", model: modelLabel, project, profile, team }, cacheCreationTokens);
+  tokensTotal.inc({ device, type: "cache_read", model: modelLabel, project, profile, team }, cacheReadTokens);
 
   // Token distribution histograms
   tokenRateHistogram.observe({ device, type: "input", model: modelLabel }, inputTokens);
@@ -415,7 +460,7 @@ export function recordUsageMetrics(
   }
 
   // Cost metrics
-  costTotal.inc({ device, model: modelLabel, project }, costUSD);
+  costTotal.inc({ device, model: modelLabel, project, profile, repo, branch, team }, costUSD);
   costPerRequestHistogram.observe({ device, model: modelLabel }, costUSD);
   totals.cost += costUSD;
   totalCostGauge.set({ device }, totals.cost);
@@ -438,7 +483,7 @@ export function recordUsageMetrics(
   }
 
   // Request metrics
-  requestsTotal.inc({ device, model: modelLabel, type: "assistant", project });
+  requestsTotal.inc({ device, model: modelLabel, type: "assistant", project, profile, team });
 
   // Model usage
   modelUsage.inc({ model: modelLabel, device });
@@ -447,6 +492,50 @@ export function recordUsageMetrics(
   projectActivity.set({ project, device }, Date.now() / 1000);
 }
 
+// Add the rest of a streamed request that was stored with partial usage.
+// Only the counters move - the request itself was already counted.
+export function recordUsageTopUp(
+  device: string,
+  model: string | null,
+  inputTokens: number,
+  outputTokens: number,
+  cacheCreationTokens: number,
+  cacheReadTokens: number,
+  costUSD: number,
+  cacheSavingsUSD: number,
+  project: string = "unknown",
+  profile: string = DEFAULT_PROFILE,
+  repo: string = "",
+  branch: string = "",
+  team: string = ""
+) {
+  const modelLabel = model ?? "unknown";
+  const totals = getDeviceTotals(device);
+
+  tokensTotal.inc({ device, type: "input", model: modelLabel, project, profile, team }, inputTokens);
+  tokensTotal.inc({ device, type: "output", model: modelLabel, project, profile, team }, outputTokens);
+  tokensTotal.inc({ device, type: "cache_creation", model: modelLabel, project, profile, team }, cacheCreationTokens);
+  tokensTotal.inc({ device, type: "cache_read", model: modelLabel, project, profile, team }, cacheReadTokens);
+
+  totals.tokens["input"] = (totals.tokens["input"] ?? 0) + inputTokens;
+  totals.tokens["output"] = (totals.tokens["output"] ?? 0) + outputTokens;
+  totals.tokens["cache_read"] = (totals.tokens["cache_read"] ?? 0) + cacheReadTokens;
+  totals.tokens["cache_creation"] = (totals.tokens["cache_creation"] ?? 0) + cacheCreationTokens;
+
+  totalTokensGauge.set({ device, type: "input" }, totals.tokens["input"]!);
+  totalTokensGauge.set({ device, type: "output" }, totals.tokens["output"]!);
+  totalTokensGauge.set({ device, type: "cache_read" }, totals.tokens["cache_read"]!);
+  totalTokensGauge.set({ device, type: "cache_creation" }, totals.tokens["cache_creation"]!);
+
+  costTotal.inc({ device, model: modelLabel, project, profile, repo, branch, team }, costUSD);
+  totals.cost += costUSD;
+  totalCostGauge.set({ device }, totals.cost);
+
+  cacheSavingsTotal.inc({ device, model: modelLabel }, cacheSavingsUSD);
+  cacheTokensTotal.inc({ device, model: modelLabel, operation: "read" }, cacheReadTokens);
+  cacheTokensTotal.inc({ device, model: modelLabel, operation: "creation" }, cacheCreationTokens);
+}
+
 // Update device status
 export function updateDeviceStatus(device: string, online: boolean, hostname: string = "unknown") {
   deviceOnline.set({ device, hostname }, online ? 1 : 0);
@@ -456,19 +545,32 @@ export function updateDeviceStatus(device: string, online: boolean, hostname: st
 }
 
 // Record session start
-export function recordSessionStart(device: string, sessionId: string, project: string, model: string = "unknown") {
+export function recordSessionStart(
+  device: string,
+  sessionId: string,
+  project: string,
+  model: string = "unknown",
+  profile: string = DEFAULT_PROFILE,
+  team: string = ""
+) {
   const totals = getDeviceTotals(device);
   totals.sessions++;
 
-  sessionsTotal.inc({ device, project });
+  sessionsTotal.inc({ device, project, profile, team });
   activeSessions.inc({ device });
   deviceActiveSessions.inc({ device });
   totalSessionsGauge.set({ device }, totals.sessions);
 
-  sessionInfo.set({ device, session_id: sessionId, project, model }, 1);
+  sessionInfo.set({ device, session_id: sessionId, project, model, profile }, 1);
   sessionStartTime.set({ device, session_id: sessionId, project }, Date.now() / 1000);
 }
 
+// Record a previously ended session becoming active again (new entries after the idle timeout)
+export function recordSessionResume(device: string) {
+  activeSessions.inc({ device });
+  deviceActiveSessions.inc({ device });
+}
+
 // Record session end
 export function recordSessionEnd(
   device: string,
@@ -477,7 +579,9 @@ export function recordSessionEnd(
   durationSeconds: number,
   totalCost: number,
   totalTokens: number,
-  requestCount: number
+  requestCount: number,
+  model: string = "unknown",
+  profile: string = DEFAULT_PROFILE
 ) {
   activeSessions.dec({ device });
   deviceActiveSessions.dec({ device });
@@ -488,7 +592,51 @@ export function recordSessionEnd(
   requestsPerSession.observe({ device }, requestCount);
 
   // Mark session as inactive
-  sessionInfo.set({ device, session_id: sessionId, project, model: "unknown" }, 0);
+  sessionInfo.set({ device, session_id: sessionId, project, model, profile }, 0);
+}
+
+export interface BudgetMetricsRow {
+  // Names aren't unique - the id keeps two budgets' series apart
+  budgetId: string;
+  budget: string;
+  scope: string;
+  scopeValue: string | null;
+  period: string;
+  spendUSD: number;
+  amountUSD: number;
+}
+
+// Replace all budget gauges, so deleted or disabled budgets stop being exported
+export function setBudgetMetrics(rows: BudgetMetricsRow[]) {
+  budgetSpend.reset();
+  budgetLimit.reset();
+  budgetUtilization.reset();
+
+  for (const row of rows) {
+    const labels = {
+      budget_id: row.budgetId,
+      budget: row.budget,
+      scope: row.scope,
+      scope_value: row.scopeValue ?? "",
+      period: row.period,
+    };
+    budgetSpend.set(labels, row.spendUSD);
+    budgetLimit.set(labels, row.amountUSD);
+    budgetUtilization.set(labels, row.amountUSD > 0 ? row.spendUSD / row.amountUSD : 0);
+  }
+}
+
+// Record a budget threshold alert
+export function recordBudgetAlert(budgetId: string, budget: string, threshold: number) {
+  budgetAlertsTotal.inc({ budget_id: budgetId, budget, threshold: String(threshold) });
+}
+
+// Update today's spend per device
+export function setDailySpend(spendByDevice: Record<string, number>) {
+  dailySpend.reset();
+  for (const [device, spend] of Object.entries(spendByDevice)) {
+    dailySpend.set({ device }, spend);
+  }
 }
 
 // Update project metrics
@@ -496,3 +644,87 @@ export function updateProjectMetrics(project: string, sessionCount: number, tota
   projectSessionCount.set({ project }, sessionCount);
   projectTotalCost.set({ project }, totalCost);
 }
+
+// ============================================================================
+// HYDRATION
+// ============================================================================
+
+export interface UsageTotalsSeed {
+  device: string;
+  model: string;
+  project: string;
+  profile: string;
+  repo: string;
+  branch: string;
+  team: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  costUSD: number;
+  cacheSavingsUSD: number;
+  requests: number;
+}
+
+export interface SessionTotalsSeed {
+  device: string;
+  project: string;
+  profile: string;
+  team: string;
+  sessions: number;
+  active: number;
+}
+
+// Seed counters and running totals from persisted usage so values survive restarts.
+// Must run once, before any new usage is recorded.
+export function seedUsageTotals(rows: UsageTotalsSeed[]) {
+  for (const row of rows) {
+    const { device, model, project, profile, repo, branch, team } = row;
+    const totals = getDeviceTotals(device);
+
+    tokensTotal.inc({ device, type: "input", model, project, profile, team }, row.inputTokens);
+    tokensTotal.inc({ device, type: "output", model, project, profile, team }, row.outputTokens);
+    tokensTotal.inc({ device, type: "cache_creation", model, project, profile, team }, row.cacheCreationTokens);
+    tokensTotal.inc({ device, type: "cache_read", model, project, profile, team }, row.cacheReadTokens);
+
+    totals.tokens["input"] = (totals.tokens["input"] ?? 0) + row.inputTokens;
+    totals.tokens["output"] = (totals.tokens["output"] ?? 0) + row.outputTokens;
+    totals.tokens["cache_read"] = (totals.tokens["cache_read"] ?? 0) + row.cacheReadTokens;
+    totals.tokens["cache_creation"] = (totals.tokens["cache_creation"] ?? 0) + row.cacheCreationTokens;
+
+    costTotal.inc({ device, model, project, profile, repo, branch, team }, row.costUSD);
+    totals.cost += row.costUSD;
+
+    cacheSavingsTotal.inc({ device, model }, row.cacheSavingsUSD);
+    cacheTokensTotal.inc({ device, model, operation: "read" }, row.cacheReadTokens);
+    cacheTokensTotal.inc({ device, model, operation: "creation" }, row.cacheCreationTokens);
+
+    requestsTotal.inc({ device, model, type: "assistant", project, profile, team }, row.requests);
+    modelUsage.inc({ model, device }, row.requests);
+  }
+
+  for (const [device, totals] of Object.entries(runningTotals)) {
+    totalCostGauge.set({ device }, totals.cost);
+    for (const [type, count] of Object.entries(totals.tokens)) {
+      totalTokensGauge.set({ device, type }, count);
+    }
+  }
+}
+
+export function seedSessionTotals(rows: SessionTotalsSeed[]) {
+  for (const row of rows) {
+    const totals = getDeviceTotals(row.device);
+    totals.sessions += row.sessions;
+
+    sessionsTotal.inc(
+      { device: row.device, project: row.project, profile: row.profile, team: row.team },
+      row.sessions
+    );
+    totalSessionsGauge.set({ device: row.device }, totals.sessions);
+
+    if (row.active > 0) {
+      activeSessions.inc({ device: row.device }, row.active);
+      deviceActiveSessions.inc({ device: row.device }, row.active);
+    }
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * OpenID Connect single sign-on
+ *
+ * Authorization code flow with PKCE against the provider configured in
+ * Settings. The state, nonce and code verifier travel in a short-lived signed
+ * cookie, so nothing is kept in memory between the redirect and the callback.
+ * Users are created on their first sign-in, and their role is set from the
+ * groups claim on every sign-in.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import { createRemoteJWKSet, jwtVerify, type JWTPayload } from "jose";
+import type { UserRole } from "@davidilie/claude-code-prometheus-shared";
+import { db } from "~/server/db";
+import { parseUserRole, type OidcFlow } from "./auth";
+
+export const OIDC_CALLBACK_PATH = "/api/auth/oidc/callback";
+// Cookie holding the signed flow until the callback, sent only to the SSO routes
+export const OIDC_FLOW_COOKIE = "oidc-flow";
+
+// Provider metadata rarely changes - refetch hourly so key or endpoint moves are picked up
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+export interface OidcConfig {
+  serverUrl: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string | null;
+  scopes: string;
+  groupsClaim: string;
+  adminGroups: string[];
+  memberGroups: string[];
+  defaultRole: UserRole;
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+const discoveryCache = new Map<string, { metadata: ProviderMetadata; fetchedAt: number }>();
+const jwksCache = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+
+function parseGroupList(value: string | null): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((group) => group.trim())
+    .filter(Boolean);
+}
+
+// SSO settings, or null while it's disabled or missing the issuer or client id
+export async function getOidcConfig(): Promise<OidcConfig | null> {
+  const settings = await db.settings.findUnique({ where: { id: "settings" } });
+  if (!settings?.oidcEnabled || !settings.oidcIssuer || !settings.oidcClientId) {
+    return null;
+  }
+
+  return {
+    serverUrl: settings.serverUrl,
+    issuer: settings.oidcIssuer.replace(/\/$/, ""),
+    clientId: settings.oidcClientId,
+    clientSecret: settings.oidcClientSecret || null,
+    scopes: settings.oidcScopes,
+    groupsClaim: settings.oidcGroupsClaim,
+    adminGroups: parseGroupList(settings.oidcAdminGroups),
+    memberGroups: parseGroupList(settings.oidcMemberGroups),
+    defaultRole: parseUserRole(settings.oidcDefaultRole),
+  };
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (!response.ok) {
+    const body = await response.text().catch(() => "");
+    throw new Error(`${url} returned ${response.status}${body ? `: ${body.slice(0, 200)}` : ""}`);
+  }
+  return (await response.json()) as T;
+}
+
+async function discover(issuer: string): Promise<ProviderMetadata> {
+  const cached = discoveryCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS) {
+    return cached.metadata;
+  }
+
+  const metadata = await fetchJson<ProviderMetadata>(`${issuer}/.well-known/openid-configuration`);
+  if (!metadata.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+    throw new Error("The provider's discovery document is missing required endpoints");
+  }
+
+  discoveryCache.set(issuer, { metadata, fetchedAt: Date.now() });
+  return metadata;
+}
+
+function getJwks(jwksUri: string) {
+  let jwks = jwksCache.get(jwksUri);
+  if (!jwks) {
+    jwks = createRemoteJWKSet(new URL(jwksUri));
+    jwksCache.set(jwksUri, jwks);
+  }
+  return jwks;
+}
+
+function randomToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+// The callback URL registered with the provider - the configured server URL, else the request's origin
+export function getRedirectUri(config: OidcConfig, requestUrl: string): string {
+  const base = config.serverUrl || new URL(requestUrl).origin;
+  return `${base.replace(/\/$/, "")}${OIDC_CALLBACK_PATH}`;
+}
+
+// Where to send the browser to sign in, and the flow to keep until it comes back
+export async function startOidcLogin(
+  config: OidcConfig,
+  redirectUri: string
+): Promise<{ url: string; flow: OidcFlow }> {
+  const metadata = await discover(config.issuer);
+
+  const flow: OidcFlow = {
+    state: randomToken(),
+    nonce: randomToken(),
+    codeVerifier: randomToken(),
+    redirectUri,
+  };
+  const codeChallenge = createHash("sha256").update(flow.codeVerifier).digest("base64url");
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", config.clientId);
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("scope", config.scopes);
+  url.searchParams.set("state", flow.state);
+  url.searchParams.set("nonce", flow.nonce);
+  url.searchParams.set("code_challenge", codeChallenge);
+  url.searchParams.set("code_challenge_method", "S256");
+
+  return { url: url.toString(), flow };
+}
+
+// Groups as a list, whether the provider sends an array or a single string
+function readGroups(claims: JWTPayload, claim: string): string[] | null {
+  const value = claims[claim];
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === "string") return parseGroupList(value);
+  return null;
+}
+
+export function resolveOidcRole(groups: string[], config: OidcConfig): UserRole {
+  if (groups.some((group) => config.adminGroups.includes(group))) return "admin";
+  if (groups.some((group) => config.memberGroups.includes(group))) return "member";
+  return config.defaultRole;
+}
+
+// Exchange the code, verify the ID token and return its claims with the user's groups
+async function fetchClaims(
+  config: OidcConfig,
+  flow: OidcFlow,
+  code: string
+): Promise<{ claims: JWTPayload; groups: string[] }> {
+  const metadata = await discover(config.issuer);
+
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: flow.redirectUri,
+    code_verifier: flow.codeVerifier,
+    client_id: config.clientId,
+  });
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+  if (config.clientSecret) {
+    const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  }
+
+  const tokens = await fetchJson<{ id_token?: string; access_token?: string }>(
+    metadata.token_endpoint,
+    { method: "POST", headers, body }
+  );
+  if (!tokens.id_token) {
+    throw new Error("The provider did not return an ID token");
+  }
+
+  const { payload: claims } = await jwtVerify(tokens.id_token, getJwks(metadata.jwks_uri), {
+    issuer: metadata.issuer,
+    audience: config.clientId,
+  });
+  if (claims.nonce !== flow.nonce) {
+    throw new Error("The ID token's nonce doesn't match this sign-in");
+  }
+
+  // Some providers only put groups in the userinfo response
+  let groups = readGroups(claims, config.groupsClaim);
+  if (!groups && metadata.userinfo_endpoint && tokens.access_token) {
+    const userinfo = await fetchJson<JWTPayload>(metadata.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}`, Accept: "application/json" },
+    });
+    if (userinfo.sub === claims.sub) {
+      groups = readGroups(userinfo, config.groupsClaim);
+    }
+  }
+
+  return { claims, groups: groups ?? [] };
+}
+
+// A free username based on the provider's preferred name or email
+async function pickUsername(claims: JWTPayload): Promise<string> {
+  const candidates = [claims.preferred_username, claims.email, claims.sub];
+  const preferred = candidates.find((value): value is string => typeof value === "string" && !!value)!;
+  const base = preferred.split("@")[0]!.slice(0, 50) || "user";
+
+  for (let suffix = 1; ; suffix++) {
+    const username = suffix === 1 ? base : `${base}-${suffix}`;
+    const existing = await db.user.findUnique({ where: { username }, select: { id: true } });
+    if (!existing) return username;
+  }
+}
+
+/**
+ * Finish a sign-in from the provider's callback. Returns the signed-in user,
+ * creating them on first sign-in and updating their role and email after.
+ */
+export async function completeOidcLogin(
+  config: OidcConfig,
+  flow: OidcFlow,
+  code: string
+): Promise<{ id: string; username: string }> {
+  const { claims, groups } = await fetchClaims(config, flow, code);
+  if (!claims.sub) {
+    throw new Error("The ID token has no subject");
+  }
+
+  const role = resolveOidcRole(groups, config);
+  const email = typeof claims.email === "string" ? claims.email : null;
+
+  const existing = await db.user.findFirst({
+    where: { oidcIssuer: config.issuer, oidcSubject: claims.sub },
+    select: { id: true, username: true, role: true },
+  });
+
+  if (existing) {
+    // Same rule as the Users page - the last admin keeps the role
+    const keepAdmin =
+      existing.role === "admin" &&
+      role !== "admin" &&
+      (await db.user.count({ where: { role: "admin", id: { not: existing.id } } })) === 0;
+
+    await db.user.update({
+      where: { id: existing.id },
+      data: { role: keepAdmin ? "admin" : role, ...(email && { email }) },
+    });
+    return { id: existing.id, username: existing.username };
+  }
+
+  return db.user.create({
+    data: {
+      username: await pickUsername(claims),
+      email,
+      role,
+      oidcIssuer: config.issuer,
+      oidcSubject: claims.sub,
+    },
+    select: { id: true, username: true },
+  });
+}
@@ -1,5 +1,6 @@
 import { db } from "~/server/db";
 import { pricingLastUpdated, modelInputPrice, modelOutputPrice } from "./metrics";
+import { emitWebhookEvent } from "./webhooks";
 
 const LITELLM_PRICING_URL =
   "https://raw.githubusercontent.com/BerriAI/litellm/main/model_prices_and_context_window.json";
@@ -113,6 +114,10 @@ export async function fetchAndUpdatePricing(): Promise<{
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error("Failed to fetch pricing:", errorMessage);
+    await emitWebhookEvent("pricing.refresh_failed", {
+      source: LITELLM_PRICING_URL,
+      error: errorMessage,
+    });
     return { success: false, modelsUpdated: 0, error: errorMessage };
   }
 }
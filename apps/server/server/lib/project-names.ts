@@ -0,0 +1,82 @@
+/**
+ * Readable project names
+ *
+ * Daemons before project path decoding sent Claude Code's encoded folder name
+ * (-home-alice-src-my-app) as the project. Entries carry their working
+ * directory, so the real path is recovered whenever a cwd encodes back to the
+ * folder name - for new pushes from old daemons, and once for stored sessions.
+ * Ingestion also renames stored sessions once a push resolves their name.
+ */
+
+import type { UsageEntry } from "@davidilie/claude-code-prometheus-shared";
+import { isEncodedProjectDir, matchesProjectDir } from "@davidilie/claude-code-prometheus-shared";
+import { db } from "~/server/db";
+import { appLog, LogCategories } from "./app-logger";
+
+// Working directories recorded per session, checked when renaming stored projects
+const MAX_CWD_CANDIDATES = 50;
+
+// Rename encoded projects in a push using any entry of the batch whose cwd matches
+export function resolveProjectNames(entries: UsageEntry[]): UsageEntry[] {
+  const paths = new Map<string, string>();
+
+  for (const entry of entries) {
+    if (entry.cwd && !paths.has(entry.project) && isEncodedProjectDir(entry.project)) {
+      if (matchesProjectDir(entry.cwd, entry.project)) {
+        paths.set(entry.project, entry.cwd);
+      }
+    }
+  }
+
+  if (paths.size === 0) return entries;
+  return entries.map((entry) => {
+    const path = paths.get(entry.project);
+    return path ? { ...entry, project: path } : entry;
+  });
+}
+
+/**
+ * Rewrite stored sessions (and project budgets) that still use an encoded
+ * folder name. Safe to run on every start - renamed projects no longer look
+ * encoded.
+ */
+export async function migrateProjectNames(): Promise<number> {
+  const projects = await db.session.findMany({
+    distinct: ["project"],
+    select: { project: true },
+  });
+
+  let renamed = 0;
+
+  for (const { project } of projects) {
+    if (!isEncodedProjectDir(project)) continue;
+
+    const candidates = await db.usageEntry.findMany({
+      where: { session: { project }, cwd: { not: null } },
+      distinct: ["cwd"],
+      select: { cwd: true },
+      take: MAX_CWD_CANDIDATES,
+    });
+    const path = candidates
+      .map((candidate) => candidate.cwd!)
+      .find((cwd) => matchesProjectDir(cwd, project));
+    if (!path) continue;
+
+    const [sessions] = await db.$transaction([
+      db.session.updateMany({ where: { project }, data: { project: path } }),
+      db.budget.updateMany({
+        where: { scope: "project", scopeValue: project },
+        data: { scopeValue: path },
+      }),
+    ]);
+
+    appLog.info(LogCategories.SESSION, "Renamed encoded project to its path", {
+      from: project,
+      to: path,
+      sessions: sessions.count,
+    });
+    renamed++;
+  }
+
+  return renamed;
+}
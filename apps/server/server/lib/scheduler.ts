@@ -1,14 +1,130 @@
 import { db } from "~/server/db";
 import { fetchAndUpdatePricing } from "./pricing-fetcher";
+import { recordSessionEnd } from "./metrics";
+import { ensureMetricsHydrated } from "./metrics-hydration";
+import { evaluateBudgets } from "./budgets";
+import { markOfflineDevices } from "./device-status";
+import { retryPendingDeliveries } from "./webhooks";
+import { appLog, LogCategories } from "./app-logger";
 
 // Track if scheduler is already running
 let schedulerRunning = false;
 let pricingIntervalId: NodeJS.Timeout | null = null;
 let dataCleanupIntervalId: NodeJS.Timeout | null = null;
+let sessionIdleIntervalId: NodeJS.Timeout | null = null;
+let budgetIntervalId: NodeJS.Timeout | null = null;
+let deviceOfflineIntervalId: NodeJS.Timeout | null = null;
+let webhookRetryIntervalId: NodeJS.Timeout | null = null;
 
 // Default intervals
 const PRICING_UPDATE_INTERVAL = 24 * 60 * 60 * 1000; // 24 hours
 const DATA_CLEANUP_INTERVAL = 6 * 60 * 60 * 1000; // 6 hours
+const SESSION_IDLE_CHECK_INTERVAL = 60 * 1000; // 1 minute
+const BUDGET_CHECK_INTERVAL = 5 * 60 * 1000; // 5 minutes
+const DEVICE_OFFLINE_CHECK_INTERVAL = 60 * 1000; // 1 minute
+const WEBHOOK_RETRY_INTERVAL = 30 * 1000; // 30 seconds
+
+const DEFAULT_SESSION_IDLE_TIMEOUT_MINUTES = 30;
+const SESSION_CLOSE_BATCH_SIZE = 500;
+
+// Close sessions with no new entries for longer than the configured idle timeout
+export async function closeIdleSessions(): Promise<number> {
+  const settings = await db.settings.findUnique({
+    where: { id: "settings" },
+    select: { sessionIdleTimeoutMinutes: true },
+  });
+
+  const timeoutMinutes =
+    settings?.sessionIdleTimeoutMinutes ?? DEFAULT_SESSION_IDLE_TIMEOUT_MINUTES;
+  const cutoff = new Date(Date.now() - timeoutMinutes * 60 * 1000);
+
+  const idleSessions = await db.session.findMany({
+    where: {
+      status: "active",
+      OR: [
+        { endedAt: { lt: cutoff } },
+        { endedAt: null, startedAt: { lt: cutoff } },
+      ],
+    },
+    take: SESSION_CLOSE_BATCH_SIZE,
+    select: {
+      id: true,
+      sessionId: true,
+      project: true,
+      profile: true,
+      startedAt: true,
+      endedAt: true,
+      device: { select: { name: true } },
+    },
+  });
+
+  if (idleSessions.length === 0) return 0;
+
+  // Active session gauges are seeded at hydration - don't decrement before that
+  await ensureMetricsHydrated();
+
+  const sessionRowIds = idleSessions.map((session) => session.id);
+
+  const [totals, firstEntries] = await Promise.all([
+    db.usageEntry.groupBy({
+      by: ["sessionId"],
+      where: { sessionId: { in: sessionRowIds } },
+      _sum: {
+        inputTokens: true,
+        outputTokens: true,
+        costUSD: true,
+      },
+      _count: { _all: true },
+    }),
+    // First model per session, matching the label recordSessionStart used
+    db.usageEntry.findMany({
+      where: { sessionId: { in: sessionRowIds } },
+      distinct: ["sessionId"],
+      orderBy: { timestamp: "asc" },
+      select: { sessionId: true, model: true },
+    }),
+  ]);
+
+  const totalsBySession = new Map(totals.map((t) => [t.sessionId, t]));
+  const modelBySession = new Map(firstEntries.map((e) => [e.sessionId, e.model]));
+
+  let closed = 0;
+
+  for (const session of idleSessions) {
+    // Only close if no entries arrived since we looked - otherwise leave it active
+    const result = await db.session.updateMany({
+      where: { id: session.id, status: "active", endedAt: session.endedAt },
+      data: { status: "ended" },
+    });
+
+    if (result.count === 0) continue;
+
+    const sessionTotals = totalsBySession.get(session.id);
+    const lastActivity = session.endedAt ?? session.startedAt;
+
+    recordSessionEnd(
+      session.device.name,
+      session.sessionId,
+      session.project,
+      Math.max(0, (lastActivity.getTime() - session.startedAt.getTime()) / 1000),
+      sessionTotals?._sum.costUSD ?? 0,
+      (sessionTotals?._sum.inputTokens ?? 0) + (sessionTotals?._sum.outputTokens ?? 0),
+      sessionTotals?._count._all ?? 0,
+      modelBySession.get(session.id) ?? "unknown",
+      session.profile ?? undefined
+    );
+
+    closed++;
+  }
+
+  if (closed > 0) {
+    appLog.info(LogCategories.SESSION, `Closed ${closed} idle sessions`, {
+      idleTimeoutMinutes: timeoutMinutes,
+    });
+  }
+
+  return closed;
+}
 
 export async function startScheduler(): Promise<void> {
   if (schedulerRunning) {
@@ -66,15 +182,68 @@ export async function startScheduler(): Promise<void> {
             where: { entries: { none: {} } },
           });
         }
+
+        await db.webhookDelivery.deleteMany({
+          where: { createdAt: { lt: cutoffDate } },
+        });
       }
     } catch (error) {
       console.error("Data cleanup job failed:", error);
     }
   }, DATA_CLEANUP_INTERVAL);
 
+  // Schedule idle session detection
+  sessionIdleIntervalId = setInterval(async () => {
+    try {
+      await closeIdleSessions();
+    } catch (error) {
+      console.error("Session idle job failed:", error);
+    }
+  }, SESSION_IDLE_CHECK_INTERVAL);
+
+  // Refresh budget gauges so they roll over at period boundaries without new usage
+  budgetIntervalId = setInterval(async () => {
+    try {
+      await evaluateBudgets();
+    } catch (error) {
+      console.error("Budget evaluation job failed:", error);
+    }
+  }, BUDGET_CHECK_INTERVAL);
+
+  evaluateBudgets().catch((error) => {
+    console.error("Initial budget evaluation failed:", error);
+  });
+
+  // Schedule device offline detection
+  deviceOfflineIntervalId = setInterval(async () => {
+    try {
+      await markOfflineDevices();
+    } catch (error) {
+      console.error("Device offline job failed:", error);
+    }
+  }, DEVICE_OFFLINE_CHECK_INTERVAL);
+
+  // Schedule webhook retries
+  webhookRetryIntervalId = setInterval(async () => {
+    try {
+      await retryPendingDeliveries();
+    } catch (error) {
+      console.error("Webhook retry job failed:", error);
+    }
+  }, WEBHOOK_RETRY_INTERVAL);
+
   console.log("Background scheduler started");
 }
 
+// Start the scheduler once per process - safe to call from any request handler
+export function ensureSchedulerStarted(): void {
+  if (schedulerRunning) return;
+
+  startScheduler().catch((error) => {
+    console.error("Failed to start scheduler:", error);
+  });
+}
+
 export function stopScheduler(): void {
   if (pricingIntervalId) {
     clearInterval(pricingIntervalId);
@@ -84,6 +253,22 @@ export function stopScheduler(): void {
     clearInterval(dataCleanupIntervalId);
     dataCleanupIntervalId = null;
   }
+  if (sessionIdleIntervalId) {
+    clearInterval(sessionIdleIntervalId);
+    sessionIdleIntervalId = null;
+  }
+  if (budgetIntervalId) {
+    clearInterval(budgetIntervalId);
+    budgetIntervalId = null;
+  }
+  if (deviceOfflineIntervalId) {
+    clearInterval(deviceOfflineIntervalId);
+    deviceOfflineIntervalId = null;
+  }
+  if (webhookRetryIntervalId) {
+    clearInterval(webhookRetryIntervalId);
+    webhookRetryIntervalId = null;
+  }
   schedulerRunning = false;
   console.log("Background scheduler stopped");
 }
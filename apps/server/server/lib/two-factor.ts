@@ -0,0 +1,220 @@
+/**
+ * TOTP two-factor authentication
+ *
+ * RFC 6238 codes (SHA-1, 6 digits, 30 seconds) as used by every authenticator
+ * app, plus one-time recovery codes for when the app is lost. A code is only
+ * accepted once, and one step of clock drift is allowed either way.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import QRCode from "qrcode";
+import { db } from "~/server/db";
+
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export interface TotpSetup {
+  secret: string;
+  // otpauth:// URL, and the same as a QR code image for the authenticator app
+  uri: string;
+  qrCode: string;
+}
+
+function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(encoded: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of encoded.toUpperCase().replace(/=+$/, "")) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 secret");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// RFC 4226 HOTP for one counter value
+function generateCode(key: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const digest = createHmac("sha1", key).update(message).digest();
+  const offset = digest[digest.length - 1]! & 0xf;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+/**
+ * The time step a code belongs to, or null if it's wrong. Steps at or before
+ * lastStep are skipped, so a code can't be replayed.
+ */
+function matchTotpStep(secret: string, code: string, lastStep: number | null): number | null {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) return null;
+
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+
+  for (let step = currentStep - TOTP_DRIFT_STEPS; step <= currentStep + TOTP_DRIFT_STEPS; step++) {
+    if (lastStep !== null && step <= lastStep) continue;
+    if (timingSafeEqual(Buffer.from(generateCode(key, step)), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// Recovery codes are compared without case, spaces or dashes
+function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[\s-]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+function generateRecoveryCode(): string {
+  const hex = randomBytes(5).toString("hex");
+  return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+}
+
+// Mark a TOTP code as used - false if it's wrong or was already used
+async function consumeTotpCode(
+  user: { id: string; totpSecret: string; totpLastStep: number | null },
+  code: string
+): Promise<boolean> {
+  const step = matchTotpStep(user.totpSecret, code, user.totpLastStep);
+  if (step === null) return false;
+
+  // Conditional on the stored step, so two requests can't both use the same code
+  const updated = await db.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }],
+    },
+    data: { totpLastStep: step },
+  });
+  return updated.count > 0;
+}
+
+/**
+ * Start setup with a fresh secret. It's stored straight away but isn't asked
+ * for until confirmTotpSetup sees a code from it.
+ */
+export async function beginTotpSetup(user: { id: string; username: string }): Promise<TotpSetup> {
+  const settings = await db.settings.findUnique({
+    where: { id: "settings" },
+    select: { serverName: true },
+  });
+  const issuer = settings?.serverName || "Claude Tracker";
+
+  const secret = base32Encode(randomBytes(20));
+  await db.user.update({
+    where: { id: user.id },
+    data: { totpSecret: secret, totpEnabled: false, totpLastStep: null },
+  });
+
+  const label = encodeURIComponent(`${issuer}:${user.username}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  const uri = `otpauth://totp/${label}?${params.toString()}`;
+
+  return { secret, uri, qrCode: await QRCode.toDataURL(uri, { margin: 1, width: 200 }) };
+}
+
+// Replace the user's recovery codes, returning the new ones - only shown this once
+export async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+  await db.$transaction([
+    db.recoveryCode.deleteMany({ where: { userId } }),
+    db.recoveryCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+    }),
+  ]);
+
+  return codes;
+}
+
+/**
+ * Turn two-factor on once the user proves their app has the secret. Returns
+ * their recovery codes, or null if the code is wrong.
+ */
+export async function confirmTotpSetup(userId: string, code: string): Promise<string[] | null> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { id: true, totpSecret: true, totpEnabled: true, totpLastStep: true },
+  });
+  if (!user?.totpSecret || user.totpEnabled) return null;
+
+  const valid = await consumeTotpCode({ ...user, totpSecret: user.totpSecret }, code);
+  if (!valid) return null;
+
+  await db.user.update({
+    where: { id: userId },
+    data: { totpEnabled: true },
+  });
+  return replaceRecoveryCodes(userId);
+}
+
+// Check a code from the authenticator app or an unused recovery code, using it up
+export async function verifySecondFactor(userId: string, code: string): Promise<boolean> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { id: true, totpSecret: true, totpEnabled: true, totpLastStep: true },
+  });
+  if (!user?.totpEnabled || !user.totpSecret) return false;
+
+  const trimmed = code.trim();
+  if (await consumeTotpCode({ ...user, totpSecret: user.totpSecret }, trimmed)) {
+    return true;
+  }
+
+  const used = await db.recoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(trimmed), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return used.count > 0;
+}
+
+// Turn two-factor off and drop the secret and recovery codes
+export async function disableTwoFactor(userId: string): Promise<void> {
+  await db.$transaction([
+    db.user.update({
+      where: { id: userId },
+      data: { totpSecret: null, totpEnabled: false, totpLastStep: null },
+    }),
+    db.recoveryCode.deleteMany({ where: { userId } }),
+  ]);
+}
@@ -0,0 +1,522 @@
+/**
+ * Usage ingestion for daemon pushes
+ *
+ * A push is written in a single transaction: sessions are resolved in bulk,
+ * entries are inserted with one createMany, and each touched session gets one
+ * endedAt update. Sessions closed by the idle job are reopened by entries
+ * later than their end.
+ * Streamed lines of one API request (same message and request id) are stored
+ * as a single row, topped up if a later line carries more usage. A session's
+ * git repository and branch are filled in from the first entry that has them.
+ * Sessions stored under an encoded folder name take the readable name a push
+ * resolves for them, along with the device's other sessions of that project.
+ * Usage is labelled in metrics with the team the device belongs to at ingest.
+ * A concurrent push of the same entries loses the race on the unique index;
+ * the batch is then retried, and the rows now stored count as duplicates.
+ * Metrics and the Redis cache are only updated after commit.
+ */
+
+import { Prisma, type Device } from "@prisma/client";
+import type { UsageEntry } from "@davidilie/claude-code-prometheus-shared";
+import { isEncodedProjectDir } from "@davidilie/claude-code-prometheus-shared";
+import { db } from "~/server/db";
+import { calculateCost, calculateCacheSavings } from "./pricing";
+import {
+  DEFAULT_PROFILE,
+  recordUsageMetrics,
+  recordUsageTopUp,
+  recordSessionStart,
+  recordSessionResume,
+} from "./metrics";
+import { resolveProjectNames } from "./project-names";
+import {
+  isRedisAvailable,
+  cacheUsageEntry,
+  type CachedUsageEntry,
+} from "./redis";
+
+// Large offline backlogs take a while to insert - give the transaction room
+const TRANSACTION_TIMEOUT_MS = 60 * 1000;
+const MAX_BATCH_ATTEMPTS = 3;
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+export interface IngestResult {
+  inserted: number;
+  duplicates: number;
+}
+
+// Session labels shared by every entry of the session, same as hydration
+interface SessionLabels {
+  profile: string;
+  repo: string;
+  branch: string;
+}
+
+interface TopUp extends SessionLabels {
+  model: string | null;
+  project: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  costUSD: number;
+  cacheSavings: number;
+}
+
+function totalTokens(usage: {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+}): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheCreationTokens + usage.cacheReadTokens;
+}
+
+function getRequestKey(messageId: string | null | undefined, requestId: string | null | undefined): string {
+  return `${messageId ?? ""}:${requestId ?? ""}`;
+}
+
+function getSessionLabels(session: {
+  profile: string | null;
+  gitRepo: string | null;
+  gitBranch: string | null;
+}): SessionLabels {
+  return {
+    profile: session.profile ?? DEFAULT_PROFILE,
+    repo: session.gitRepo ?? "",
+    branch: session.gitBranch ?? "",
+  };
+}
+
+function priceEntry(entry: UsageEntry): number {
+  // Calculate cost if not provided
+  return (
+    entry.costUSD ??
+    calculateCost(
+      entry.model,
+      entry.inputTokens,
+      entry.outputTokens,
+      entry.cacheCreationTokens,
+      entry.cacheReadTokens
+    )
+  );
+}
+
+interface PreparedEntry {
+  entry: UsageEntry;
+  sessionRowId: string;
+  labels: SessionLabels;
+  timestamp: Date;
+  costUSD: number;
+  cacheSavings: number;
+}
+
+export async function ingestUsageEntries(
+  device: Pick<Device, "id" | "name"> & { team?: { name: string } | null },
+  entries: UsageEntry[]
+): Promise<IngestResult> {
+  const team = device.team?.name ?? "";
+
+  // Older daemons send encoded folder names - group them under the real path
+  entries = resolveProjectNames(entries);
+
+  const writeBatch = () => db.$transaction(
+    async (tx) => {
+      // Drop entries this device has already pushed (state reset, lost state.json)
+      const incomingUuids = entries
+        .map((entry) => entry.uuid)
+        .filter((uuid): uuid is string => !!uuid);
+
+      const seenUuids = new Set<string>();
+      if (incomingUuids.length > 0) {
+        const existing = await tx.usageEntry.findMany({
+          where: {
+            deviceId: device.id,
+            messageUuid: { in: incomingUuids },
+          },
+          select: { messageUuid: true },
+        });
+        for (const row of existing) {
+          if (row.messageUuid) seenUuids.add(row.messageUuid);
+        }
+      }
+
+      let duplicates = 0;
+      const unseen: UsageEntry[] = [];
+      for (const entry of entries) {
+        if (entry.uuid) {
+          if (seenUuids.has(entry.uuid)) {
+            duplicates++;
+            continue;
+          }
+          seenUuids.add(entry.uuid);
+        }
+        unseen.push(entry);
+      }
+
+      // Collapse streamed lines of the same request within the batch - usage
+      // is cumulative, so the line with the most tokens wins
+      const byRequest = new Map<string, UsageEntry>();
+      const fresh: UsageEntry[] = [];
+      for (const entry of unseen) {
+        if (!entry.messageId) {
+          fresh.push(entry);
+          continue;
+        }
+        const key = getRequestKey(entry.messageId, entry.requestId);
+        const current = byRequest.get(key);
+        if (current) duplicates++;
+        if (!current || totalTokens(entry) >= totalTokens(current)) {
+          byRequest.set(key, entry);
+        }
+      }
+
+      // Requests already stored from an earlier push are topped up, not inserted again
+      const topUps: TopUp[] = [];
+      const messageIds = Array.from(byRequest.values()).map((entry) => entry.messageId!);
+      const storedRequests =
+        messageIds.length > 0
+          ? await tx.usageEntry.findMany({
+              where: { deviceId: device.id, messageId: { in: messageIds } },
+              select: {
+                id: true,
+                messageId: true,
+                requestId: true,
+                model: true,
+                inputTokens: true,
+                outputTokens: true,
+                cacheCreationTokens: true,
+                cacheReadTokens: true,
+                costUSD: true,
+                session: {
+                  select: { project: true, profile: true, gitRepo: true, gitBranch: true },
+                },
+              },
+            })
+          : [];
+      const storedByRequest = new Map(
+        storedRequests.map((row) => [getRequestKey(row.messageId, row.requestId), row])
+      );
+
+      for (const [key, entry] of byRequest) {
+        const stored = storedByRequest.get(key);
+        if (!stored) {
+          fresh.push(entry);
+          continue;
+        }
+
+        duplicates++;
+        if (totalTokens(entry) <= totalTokens(stored)) continue;
+
+        const costUSD = priceEntry(entry);
+        await tx.usageEntry.update({
+          where: { id: stored.id },
+          data: {
+            model: entry.model ?? stored.model,
+            inputTokens: entry.inputTokens,
+            outputTokens: entry.outputTokens,
+            cacheCreationTokens: entry.cacheCreationTokens,
+            cacheReadTokens: entry.cacheReadTokens,
+            costUSD,
+          },
+        });
+
+        topUps.push({
+          model: entry.model ?? stored.model,
+          project: stored.session.project,
+          ...getSessionLabels(stored.session),
+          inputTokens: Math.max(0, entry.inputTokens - stored.inputTokens),
+          outputTokens: Math.max(0, entry.outputTokens - stored.outputTokens),
+          cacheCreationTokens: Math.max(0, entry.cacheCreationTokens - stored.cacheCreationTokens),
+          cacheReadTokens: Math.max(0, entry.cacheReadTokens - stored.cacheReadTokens),
+          costUSD: Math.max(0, costUSD - (stored.costUSD ?? 0)),
+          cacheSavings: calculateCacheSavings(
+            entry.model,
+            Math.max(0, entry.cacheReadTokens - stored.cacheReadTokens)
+          ),
+        });
+      }
+
+      // Resolve sessions in bulk, creating the ones we haven't seen yet
+      const firstEntryBySession = new Map<string, UsageEntry>();
+      const gitEntryBySession = new Map<string, UsageEntry>();
+      for (const entry of fresh) {
+        if (!firstEntryBySession.has(entry.sessionId)) {
+          firstEntryBySession.set(entry.sessionId, entry);
+        }
+        if (entry.gitRepo && !gitEntryBySession.has(entry.sessionId)) {
+          gitEntryBySession.set(entry.sessionId, entry);
+        }
+      }
+      const sessionIds = Array.from(firstEntryBySession.keys());
+
+      const existingSessions = await tx.session.findMany({
+        where: { deviceId: device.id, sessionId: { in: sessionIds } },
+        select: {
+          id: true,
+          sessionId: true,
+          status: true,
+          endedAt: true,
+          project: true,
+          profile: true,
+          gitRepo: true,
+          gitBranch: true,
+        },
+      });
+      const sessionRowIds = new Map(
+        existingSessions.map((session) => [session.sessionId, session.id])
+      );
+      const sessionLabels = new Map(
+        existingSessions.map((session) => [session.id, getSessionLabels(session)])
+      );
+
+      // Sessions stored by an older daemon, or before the transcript had a cwd
+      for (const session of existingSessions) {
+        const git = gitEntryBySession.get(session.sessionId);
+        if (session.gitRepo || !git) continue;
+
+        const updated = await tx.session.update({
+          where: { id: session.id },
+          data: { gitRemote: git.gitRemote, gitRepo: git.gitRepo, gitBranch: git.gitBranch },
+          select: { profile: true, gitRepo: true, gitBranch: true },
+        });
+        sessionLabels.set(session.id, getSessionLabels(updated));
+      }
+
+      // Encoded names stored by an older daemon, now resolved by this push
+      const renamedProjects = new Map<string, string>();
+      for (const session of existingSessions) {
+        const project = firstEntryBySession.get(session.sessionId)!.project;
+        if (
+          project !== session.project &&
+          isEncodedProjectDir(session.project) &&
+          !isEncodedProjectDir(project)
+        ) {
+          renamedProjects.set(session.project, project);
+        }
+      }
+
+      for (const [from, to] of renamedProjects) {
+        await tx.session.updateMany({
+          where: { deviceId: device.id, project: from },
+          data: { project: to },
+        });
+        await tx.budget.updateMany({
+          where: { scope: "project", scopeValue: from },
+          data: { scopeValue: to },
+        });
+      }
+      for (const topUp of topUps) {
+        topUp.project = renamedProjects.get(topUp.project) ?? topUp.project;
+      }
+
+      // New activity on a session the idle job already closed reopens it. Older
+      // entries (a backfill) don't, as its end has already been recorded
+      const latestTimestampBySession = new Map<string, number>();
+      for (const entry of fresh) {
+        const timestamp = new Date(entry.timestamp).getTime();
+        const current = latestTimestampBySession.get(entry.sessionId);
+        if (current === undefined || timestamp > current) {
+          latestTimestampBySession.set(entry.sessionId, timestamp);
+        }
+      }
+
+      const resumedSessions = existingSessions.filter(
+        (session) =>
+          session.status === "ended" &&
+          (!session.endedAt ||
+            (latestTimestampBySession.get(session.sessionId) ?? 0) > session.endedAt.getTime())
+      );
+      if (resumedSessions.length > 0) {
+        await tx.session.updateMany({
+          where: { id: { in: resumedSessions.map((session) => session.id) } },
+          data: { status: "active" },
+        });
+      }
+
+      const newSessions = sessionIds
+        .filter((sessionId) => !sessionRowIds.has(sessionId))
+        .map((sessionId) => firstEntryBySession.get(sessionId)!);
+
+      if (newSessions.length > 0) {
+        await tx.session.createMany({
+          data: newSessions.map((entry) => ({
+            sessionId: entry.sessionId,
+            deviceId: device.id,
+            project: entry.project,
+            profile: entry.profile,
+            gitRemote: gitEntryBySession.get(entry.sessionId)?.gitRemote,
+            gitRepo: gitEntryBySession.get(entry.sessionId)?.gitRepo,
+            gitBranch: gitEntryBySession.get(entry.sessionId)?.gitBranch,
+            startedAt: new Date(entry.timestamp),
+          })),
+        });
+
+        const created = await tx.session.findMany({
+          where: {
+            deviceId: device.id,
+            sessionId: { in: newSessions.map((entry) => entry.sessionId) },
+          },
+          select: { id: true, sessionId: true, profile: true, gitRepo: true, gitBranch: true },
+        });
+        for (const session of created) {
+          sessionRowIds.set(session.sessionId, session.id);
+          sessionLabels.set(session.id, getSessionLabels(session));
+        }
+      }
+
+      // Price and insert entries in one statement
+      const prepared: PreparedEntry[] = fresh.map((entry) => {
+        const sessionRowId = sessionRowIds.get(entry.sessionId)!;
+        return {
+          entry,
+          sessionRowId,
+          labels: sessionLabels.get(sessionRowId)!,
+          timestamp: new Date(entry.timestamp),
+          costUSD: priceEntry(entry),
+          cacheSavings: calculateCacheSavings(entry.model, entry.cacheReadTokens),
+        };
+      });
+
+      if (prepared.length > 0) {
+        await tx.usageEntry.createMany({
+          data: prepared.map((p) => ({
+            sessionId: p.sessionRowId,
+            deviceId: device.id,
+            messageUuid: p.entry.uuid,
+            timestamp: p.timestamp,
+            type: p.entry.type,
+            model: p.entry.model,
+            inputTokens: p.entry.inputTokens,
+            outputTokens: p.entry.outputTokens,
+            cacheCreationTokens: p.entry.cacheCreationTokens,
+            cacheReadTokens: p.entry.cacheReadTokens,
+            costUSD: p.costUSD,
+            messageId: p.entry.messageId,
+            requestId: p.entry.requestId,
+            cwd: p.entry.cwd,
+            gitBranch: p.entry.gitBranch,
+            version: p.entry.version,
+            isSidechain: p.entry.isSidechain ?? false,
+          })),
+        });
+      }
+
+      // One endedAt update per session, never moving it backwards
+      const lastTimestampBySession = new Map<string, Date>();
+      for (const p of prepared) {
+        const current = lastTimestampBySession.get(p.sessionRowId);
+        if (!current || p.timestamp > current) {
+          lastTimestampBySession.set(p.sessionRowId, p.timestamp);
+        }
+      }
+
+      for (const [sessionRowId, endedAt] of lastTimestampBySession) {
+        await tx.session.updateMany({
+          where: {
+            id: sessionRowId,
+            OR: [{ endedAt: null }, { endedAt: { lt: endedAt } }],
+          },
+          data: { endedAt },
+        });
+      }
+
+      return { prepared, topUps, duplicates, newSessions, resumedSessions };
+    },
+    { timeout: TRANSACTION_TIMEOUT_MS }
+  );
+
+  let batch: Awaited<ReturnType<typeof writeBatch>>;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      batch = await writeBatch();
+      break;
+    } catch (error) {
+      // Retrying re-reads the stored uuids, so the rows that raced are skipped
+      if (!isUniqueViolation(error) || attempt >= MAX_BATCH_ATTEMPTS) throw error;
+    }
+  }
+  const { prepared, topUps, duplicates, newSessions, resumedSessions } = batch;
+
+  // Everything below only runs once the batch is committed
+  for (const entry of newSessions) {
+    recordSessionStart(
+      device.name,
+      entry.sessionId,
+      entry.project,
+      entry.model ?? "unknown",
+      entry.profile ?? DEFAULT_PROFILE,
+      team
+    );
+  }
+
+  for (const session of resumedSessions) {
+    recordSessionResume(device.name);
+  }
+
+  for (const topUp of topUps) {
+    recordUsageTopUp(
+      device.name,
+      topUp.model,
+      topUp.inputTokens,
+      topUp.outputTokens,
+      topUp.cacheCreationTokens,
+      topUp.cacheReadTokens,
+      topUp.costUSD,
+      topUp.cacheSavings,
+      topUp.project,
+      topUp.profile,
+      topUp.repo,
+      topUp.branch,
+      team
+    );
+  }
+
+  for (const p of prepared) {
+    const { entry } = p;
+
+    recordUsageMetrics(
+      device.name,
+      entry.model ?? null,
+      entry.inputTokens,
+      entry.outputTokens,
+      entry.cacheCreationTokens,
+      entry.cacheReadTokens,
+      p.costUSD,
+      p.cacheSavings,
+      entry.project,
+      entry.sessionId,
+      p.labels.profile,
+      p.labels.repo,
+      p.labels.branch,
+      team
+    );
+
+    // Cache in Redis if enabled (for faster Prometheus queries)
+    if (isRedisAvailable()) {
+      const cachedEntry: CachedUsageEntry = {
+        deviceId: device.id,
+        deviceName: device.name,
+        sessionId: entry.sessionId,
+        project: entry.project,
+        timestamp: entry.timestamp,
+        type: entry.type,
+        model: entry.model ?? null,
+        inputTokens: entry.inputTokens,
+        outputTokens: entry.outputTokens,
+        cacheCreationTokens: entry.cacheCreationTokens,
+        cacheReadTokens: entry.cacheReadTokens,
+        costUSD: p.costUSD,
+      };
+      // Fire and forget - don't block on Redis
+      cacheUsageEntry(cachedEntry).catch(() => {
+        // Silently ignore Redis cache failures
+      });
+    }
+  }
+
+  return { inserted: prepared.length, duplicates };
+}
@@ -0,0 +1,265 @@
+/**
+ * Outbound webhooks
+ *
+ * Server events are queued as one WebhookDelivery row per subscribed webhook
+ * and POSTed as JSON right away. Failed deliveries are retried by the
+ * scheduler with exponential backoff until MAX_ATTEMPTS is reached.
+ *
+ * Every request is signed: X-Webhook-Signature is
+ * "sha256=" + hex(HMAC-SHA256(secret, `${timestamp}.${body}`)), where timestamp
+ * is the X-Webhook-Timestamp header (unix seconds).
+ */
+
+import { createHmac } from "node:crypto";
+import type { Webhook } from "@prisma/client";
+import { db } from "~/server/db";
+import { appLog, LogCategories } from "./app-logger";
+
+export const WEBHOOK_EVENTS = [
+  "budget.threshold",
+  "device.offline",
+  "device.registered",
+  "device.key_regenerated",
+  "pricing.refresh_failed",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number] | "webhook.test";
+
+export interface WebhookPayload {
+  event: WebhookEvent;
+  timestamp: string;
+  data: Record<string, unknown>;
+}
+
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 30 * 1000; // 30s, 1m, 2m, 4m
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// How long a delivery stays claimed while its request is in flight
+const DELIVERY_LEASE_MS = REQUEST_TIMEOUT_MS * 3;
+const RETRY_BATCH_SIZE = 50;
+const MAX_ERROR_LENGTH = 500;
+
+export function parseWebhookEvents(events: string): string[] {
+  try {
+    const parsed: unknown = JSON.parse(events);
+    return Array.isArray(parsed) ? parsed.filter((e): e is string => typeof e === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return "sha256=" + createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+async function queueDeliveries(
+  webhooks: Pick<Webhook, "id">[],
+  payload: WebhookPayload
+): Promise<string[]> {
+  const body = JSON.stringify(payload);
+  const now = new Date();
+
+  const deliveries = await db.$transaction(
+    webhooks.map((webhook) =>
+      db.webhookDelivery.create({
+        data: {
+          webhookId: webhook.id,
+          event: payload.event,
+          payload: body,
+          nextAttemptAt: now,
+        },
+        select: { id: true },
+      })
+    )
+  );
+
+  return deliveries.map((delivery) => delivery.id);
+}
+
+/**
+ * Attempt one delivery. The row is claimed first so the retry job and an
+ * immediate send never post the same delivery twice.
+ */
+export async function attemptDelivery(deliveryId: string): Promise<boolean> {
+  const now = new Date();
+
+  const claimed = await db.webhookDelivery.updateMany({
+    where: {
+      id: deliveryId,
+      status: "pending",
+      nextAttemptAt: { lte: now },
+    },
+    data: { nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE_MS) },
+  });
+
+  if (claimed.count === 0) return false;
+
+  const delivery = await db.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { webhook: true },
+  });
+
+  if (!delivery) return false;
+
+  const attempts = delivery.attempts + 1;
+  const timestamp = Math.floor(Date.now() / 1000);
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(delivery.webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "claude-code-prometheus/1.0",
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Delivery": delivery.id,
+        "X-Webhook-Timestamp": timestamp.toString(),
+        "X-Webhook-Signature": signWebhookPayload(
+          delivery.webhook.secret,
+          timestamp,
+          delivery.payload
+        ),
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    responseStatus = response.status;
+    if (!response.ok) {
+      error = `HTTP ${response.status}: ${response.statusText}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  if (!error) {
+    await db.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: "success",
+        attempts,
+        responseStatus,
+        error: null,
+        nextAttemptAt: null,
+        deliveredAt: new Date(),
+      },
+    });
+    return true;
+  }
+
+  const exhausted = attempts >= MAX_ATTEMPTS;
+
+  await db.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: exhausted ? "failed" : "pending",
+      attempts,
+      responseStatus,
+      error: error.slice(0, MAX_ERROR_LENGTH),
+      nextAttemptAt: exhausted
+        ? null
+        : new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)),
+    },
+  });
+
+  if (exhausted) {
+    appLog.error(LogCategories.WEBHOOK, `Webhook delivery failed after ${attempts} attempts`, {
+      webhook: delivery.webhook.name,
+      event: delivery.event,
+      error,
+    });
+  } else {
+    appLog.warn(LogCategories.WEBHOOK, "Webhook delivery failed, will retry", {
+      webhook: delivery.webhook.name,
+      event: delivery.event,
+      attempt: attempts,
+      error,
+    });
+  }
+
+  return false;
+}
+
+function deliverInBackground(deliveryIds: string[]): void {
+  for (const id of deliveryIds) {
+    attemptDelivery(id).catch((error) => {
+      console.error("Webhook delivery error:", error);
+    });
+  }
+}
+
+/**
+ * Queue an event for every enabled webhook subscribed to it and start sending.
+ * Never throws - a webhook problem must not break the code path raising the event.
+ */
+export async function emitWebhookEvent(
+  event: (typeof WEBHOOK_EVENTS)[number],
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const webhooks = await db.webhook.findMany({
+      where: { enabled: true },
+      select: { id: true, events: true },
+    });
+
+    const subscribed = webhooks.filter((webhook) =>
+      parseWebhookEvents(webhook.events).includes(event)
+    );
+    if (subscribed.length === 0) return;
+
+    const deliveryIds = await queueDeliveries(subscribed, {
+      event,
+      timestamp: new Date().toISOString(),
+      data,
+    });
+
+    deliverInBackground(deliveryIds);
+  } catch (error) {
+    appLog.error(LogCategories.WEBHOOK, "Failed to queue webhook event", {
+      event,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+// Send a test event to one webhook, regardless of its subscriptions
+export async function sendTestWebhook(webhookId: string): Promise<boolean> {
+  const [deliveryId] = await queueDeliveries([{ id: webhookId }], {
+    event: "webhook.test",
+    timestamp: new Date().toISOString(),
+    data: { message: "Test event from Claude Code Prometheus" },
+  });
+
+  return deliveryId ? attemptDelivery(deliveryId) : false;
+}
+
+// Put a delivery back in the queue for an immediate attempt
+export async function redeliverWebhook(deliveryId: string): Promise<boolean> {
+  await db.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: { status: "pending", attempts: 0, nextAttemptAt: new Date() },
+  });
+
+  return attemptDelivery(deliveryId);
+}
+
+// Retry deliveries whose backoff has elapsed (called by the scheduler)
+export async function retryPendingDeliveries(): Promise<number> {
+  const due = await db.webhookDelivery.findMany({
+    where: {
+      status: "pending",
+      nextAttemptAt: { lte: new Date() },
+      webhook: { enabled: true },
+    },
+    orderBy: { nextAttemptAt: "asc" },
+    take: RETRY_BATCH_SIZE,
+    select: { id: true },
+  });
+
+  for (const delivery of due) {
+    await attemptDelivery(delivery.id);
+  }
+
+  return due.length;
+}
@@ -2,6 +2,7 @@
 
 import type { ReactNode } from "react";
 import { Link, useRouterState, useNavigate } from "@tanstack/react-router";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import {
   LayoutDashboard,
   Monitor,
@@ -14,8 +15,11 @@ import {
   X,
   ExternalLink,
   AlertCircle,
+  Users,
+  User,
 } from "lucide-react";
 import { useState, useEffect } from "react";
+import { useTRPC } from "~/trpc/react";
 import { cn } from "~/app/lib/utils";
 
 interface LayoutProps {
@@ -39,8 +43,19 @@ const DISABLE_FOOTER_PROMO = typeof window !== "undefined"
   ? (window as unknown as { __ENV__?: { DISABLE_FOOTER_PROMO?: string } }).__ENV__?.DISABLE_FOOTER_PROMO === "true"
   : process.env.DISABLE_FOOTER_PROMO === "true";
 
+type DeviceScope = "all" | "mine";
+
+// Admin's choice between everyone's data and their own, read by the tRPC context
+const DEVICE_SCOPE_COOKIE = "device-scope";
+
+function readDeviceScope(): DeviceScope {
+  const match = document.cookie.match(new RegExp(`(?:^|; )${DEVICE_SCOPE_COOKIE}=([^;]*)`));
+  return match?.[1] === "mine" ? "mine" : "all";
+}
+
 export function Layout({ children, title, actions }: LayoutProps) {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const [deviceScope, setDeviceScope] = useState<DeviceScope>("all");
   const [versionStatus, setVersionStatus] = useState<{
     current: string;
     latest: string | null;
@@ -55,6 +70,25 @@ export function Layout({ children, title, actions }: LayoutProps) {
   const routerState = useRouterState();
   const currentPath = routerState.location.pathname;
   const navigate = useNavigate();
+  const api = useTRPC();
+  const queryClient = useQueryClient();
+
+  const { data: session } = useQuery({
+    ...api.auth.getSession.queryOptions(),
+    retry: false,
+  });
+  const isAdmin = session?.role === "admin";
+
+  useEffect(() => {
+    setDeviceScope(readDeviceScope());
+  }, []);
+
+  const handleDeviceScopeChange = (scope: DeviceScope) => {
+    document.cookie = `${DEVICE_SCOPE_COOKIE}=${scope}; path=/; max-age=${365 * 24 * 60 * 60}; samesite=strict`;
+    setDeviceScope(scope);
+    // Every scoped query changes with it
+    queryClient.invalidateQueries();
+  };
 
   const handleLogout = () => {
     // Clear the auth-token cookie
@@ -140,6 +174,34 @@ export function Layout({ children, title, actions }: LayoutProps) {
               </div>
             </div>
 
+            {/* Admins can narrow every page to their own devices */}
+            {isAdmin && (
+              <div className="border-b border-border px-4 py-3">
+                <div className="grid grid-cols-2 gap-1 rounded-lg bg-secondary/50 p-1">
+                  {(
+                    [
+                      { scope: "all", label: "All users", icon: Users },
+                      { scope: "mine", label: "Only mine", icon: User },
+                    ] as const
+                  ).map((option) => (
+                    <button
+                      key={option.scope}
+                      onClick={() => handleDeviceScopeChange(option.scope)}
+                      className={cn(
+                        "flex items-center justify-center gap-1.5 rounded-md px-2 py-1.5 text-xs font-medium transition-colors",
+                        deviceScope === option.scope
+                          ? "bg-card text-foreground shadow-sm"
+                          : "text-muted-foreground hover:text-foreground"
+                      )}
+                    >
+                      <option.icon className="h-3.5 w-3.5" />
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Navigation */}
             <nav className="flex-1 space-y-1 p-3">
               <div className="mb-2 px-3 text-xs font-medium uppercase tracking-wider text-muted-foreground">
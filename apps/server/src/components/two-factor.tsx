@@ -0,0 +1,55 @@
+"use client";
+
+import { Copy } from "lucide-react";
+
+// QR code and secret to add to an authenticator app, shared by login and Settings
+export function TotpSetupDetails({ qrCode, secret }: { qrCode: string; secret: string }) {
+  return (
+    <div className="flex flex-col items-center gap-3 rounded-lg border border-border bg-secondary/30 p-4 sm:flex-row sm:items-start">
+      <img
+        src={qrCode}
+        alt="QR code for your authenticator app"
+        className="h-40 w-40 shrink-0 rounded-md bg-white p-1"
+      />
+      <div className="min-w-0 space-y-2 text-sm">
+        <p>Scan the QR code with an authenticator app, then enter the 6-digit code it shows.</p>
+        <p className="text-xs text-muted-foreground">Can't scan it? Enter this key instead:</p>
+        <div className="flex items-center gap-2">
+          <code className="min-w-0 break-all font-mono text-xs">{secret}</code>
+          <button
+            type="button"
+            onClick={() => navigator.clipboard.writeText(secret)}
+            className="shrink-0 text-muted-foreground hover:text-foreground"
+          >
+            <Copy className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Freshly generated recovery codes - the only time they're shown
+export function RecoveryCodesList({ codes }: { codes: string[] }) {
+  return (
+    <div className="space-y-3 rounded-lg border border-amber-500/20 bg-amber-500/5 p-4">
+      <p className="text-sm">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+        authenticator app, and they won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+        {codes.map((code) => (
+          <code key={code}>{code}</code>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => navigator.clipboard.writeText(codes.join("\n"))}
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+      >
+        <Copy className="h-3 w-3" />
+        Copy codes
+      </button>
+    </div>
+  );
+}
@@ -15,11 +15,14 @@ import { Route as SessionsRouteImport } from './routes/sessions'
 import { Route as LoginRouteImport } from './routes/login'
 import { Route as DevicesRouteImport } from './routes/devices'
 import { Route as IndexRouteImport } from './routes/index'
+import { Route as InviteTokenRouteImport } from './routes/invite.$token'
 import { Route as ApiUsageRouteImport } from './routes/api/usage'
 import { Route as ApiMetricsRouteImport } from './routes/api/metrics'
 import { Route as ApiHealthRouteImport } from './routes/api/health'
 import { Route as ApiTrpcSplatRouteImport } from './routes/api/trpc.$'
 import { Route as ApiDevicesRegisterRouteImport } from './routes/api/devices.register'
+import { Route as ApiAuthOidcLoginRouteImport } from './routes/api/auth.oidc.login'
+import { Route as ApiAuthOidcCallbackRouteImport } from './routes/api/auth.oidc.callback'
 
 const SetupRoute = SetupRouteImport.update({
   id: '/setup',
@@ -51,6 +54,11 @@ const IndexRoute = IndexRouteImport.update({
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const InviteTokenRoute = InviteTokenRouteImport.update({
+  id: '/invite/$token',
+  path: '/invite/$token',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ApiUsageRoute = ApiUsageRouteImport.update({
   id: '/api/usage',
   path: '/api/usage',
@@ -76,6 +84,16 @@ const ApiDevicesRegisterRoute = ApiDevicesRegisterRouteImport.update({
   path: '/api/devices/register',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiAuthOidcLoginRoute = ApiAuthOidcLoginRouteImport.update({
+  id: '/api/auth/oidc/login',
+  path: '/api/auth/oidc/login',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiAuthOidcCallbackRoute = ApiAuthOidcCallbackRouteImport.update({
+  id: '/api/auth/oidc/callback',
+  path: '/api/auth/oidc/callback',
+  getParentRoute: () => rootRouteImport,
+} as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
@@ -87,8 +105,11 @@ export interface FileRoutesByFullPath {
   '/api/health': typeof ApiHealthRoute
   '/api/metrics': typeof ApiMetricsRoute
   '/api/usage': typeof ApiUsageRoute
+  '/invite/$token': typeof InviteTokenRoute
   '/api/devices/register': typeof ApiDevicesRegisterRoute
   '/api/trpc/$': typeof ApiTrpcSplatRoute
+  '/api/auth/oidc/callback': typeof ApiAuthOidcCallbackRoute
+  '/api/auth/oidc/login': typeof ApiAuthOidcLoginRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
@@ -100,8 +121,11 @@ export interface FileRoutesByTo {
   '/api/health': typeof ApiHealthRoute
   '/api/metrics': typeof ApiMetricsRoute
   '/api/usage': typeof ApiUsageRoute
+  '/invite/$token': typeof InviteTokenRoute
   '/api/devices/register': typeof ApiDevicesRegisterRoute
   '/api/trpc/$': typeof ApiTrpcSplatRoute
+  '/api/auth/oidc/callback': typeof ApiAuthOidcCallbackRoute
+  '/api/auth/oidc/login': typeof ApiAuthOidcLoginRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
@@ -114,8 +138,11 @@ export interface FileRoutesById {
   '/api/health': typeof ApiHealthRoute
   '/api/metrics': typeof ApiMetricsRoute
   '/api/usage': typeof ApiUsageRoute
+  '/invite/$token': typeof InviteTokenRoute
   '/api/devices/register': typeof ApiDevicesRegisterRoute
   '/api/trpc/$': typeof ApiTrpcSplatRoute
+  '/api/auth/oidc/callback': typeof ApiAuthOidcCallbackRoute
+  '/api/auth/oidc/login': typeof ApiAuthOidcLoginRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
@@ -129,8 +156,11 @@ export interface FileRouteTypes {
     | '/api/health'
     | '/api/metrics'
     | '/api/usage'
+    | '/invite/$token'
     | '/api/devices/register'
     | '/api/trpc/$'
+    | '/api/auth/oidc/callback'
+    | '/api/auth/oidc/login'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
@@ -142,8 +172,11 @@ export interface FileRouteTypes {
     | '/api/health'
     | '/api/metrics'
     | '/api/usage'
+    | '/invite/$token'
     | '/api/devices/register'
     | '/api/trpc/$'
+    | '/api/auth/oidc/callback'
+    | '/api/auth/oidc/login'
   id:
     | '__root__'
     | '/'
@@ -155,8 +188,11 @@ export interface FileRouteTypes {
     | '/api/health'
     | '/api/metrics'
     | '/api/usage'
+    | '/invite/$token'
     | '/api/devices/register'
     | '/api/trpc/$'
+    | '/api/auth/oidc/callback'
+    | '/api/auth/oidc/login'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
@@ -169,8 +205,11 @@ export interface RootRouteChildren {
   ApiHealthRoute: typeof ApiHealthRoute
   ApiMetricsRoute: typeof ApiMetricsRoute
   ApiUsageRoute: typeof ApiUsageRoute
+  InviteTokenRoute: typeof InviteTokenRoute
   ApiDevicesRegisterRoute: typeof ApiDevicesRegisterRoute
   ApiTrpcSplatRoute: typeof ApiTrpcSplatRoute
+  ApiAuthOidcCallbackRoute: typeof ApiAuthOidcCallbackRoute
+  ApiAuthOidcLoginRoute: typeof ApiAuthOidcLoginRoute
 }
 
 declare module '@tanstack/react-router' {
@@ -217,6 +256,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/invite/$token': {
+      id: '/invite/$token'
+      path: '/invite/$token'
+      fullPath: '/invite/$token'
+      preLoaderRoute: typeof InviteTokenRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/api/usage': {
       id: '/api/usage'
       path: '/api/usage'
@@ -252,6 +298,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiDevicesRegisterRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/auth/oidc/login': {
+      id: '/api/auth/oidc/login'
+      path: '/api/auth/oidc/login'
+      fullPath: '/api/auth/oidc/login'
+      preLoaderRoute: typeof ApiAuthOidcLoginRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/auth/oidc/callback': {
+      id: '/api/auth/oidc/callback'
+      path: '/api/auth/oidc/callback'
+      fullPath: '/api/auth/oidc/callback'
+      preLoaderRoute: typeof ApiAuthOidcCallbackRouteImport
+      parentRoute: typeof rootRouteImport
+    }
   }
 }
 
@@ -265,8 +325,11 @@ const rootRouteChildren: RootRouteChildren = {
   ApiHealthRoute: ApiHealthRoute,
   ApiMetricsRoute: ApiMetricsRoute,
   ApiUsageRoute: ApiUsageRoute,
+  InviteTokenRoute: InviteTokenRoute,
   ApiDevicesRegisterRoute: ApiDevicesRegisterRoute,
   ApiTrpcSplatRoute: ApiTrpcSplatRoute,
+  ApiAuthOidcCallbackRoute: ApiAuthOidcCallbackRoute,
+  ApiAuthOidcLoginRoute: ApiAuthOidcLoginRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
@@ -0,0 +1,85 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { createToken, verifyOidcFlowToken } from "~/server/lib/auth";
+import { getOidcConfig, completeOidcLogin, OIDC_FLOW_COOKIE } from "~/server/lib/oidc";
+import { appLog, LogCategories } from "~/server/lib/app-logger";
+
+const AUTH_TOKEN_MAX_AGE = 7 * 24 * 60 * 60; // Matches the token expiry
+// Details only go to the logs - the login page gets the same message for every failure
+const FAILED_MESSAGE = "Single sign-on failed. Try again or ask an admin to check the logs.";
+
+function getCookie(request: Request, name: string): string | undefined {
+  const header = request.headers.get("cookie");
+  if (!header) return undefined;
+
+  for (const cookie of header.split("; ")) {
+    const [key, ...rest] = cookie.split("=");
+    if (key === name) return rest.join("=");
+  }
+  return undefined;
+}
+
+function redirect(location: string, cookies: string[]): Response {
+  const headers = new Headers({ Location: location });
+  for (const cookie of cookies) {
+    headers.append("Set-Cookie", cookie);
+  }
+  return new Response(null, { status: 302, headers });
+}
+
+export const Route = createFileRoute("/api/auth/oidc/callback")({
+  server: {
+    handlers: {
+      GET: async ({ request }) => {
+        const url = new URL(request.url);
+        const secure = url.protocol === "https:" ? "; Secure" : "";
+        // The flow is single-use whatever the outcome
+        const clearFlow = `${OIDC_FLOW_COOKIE}=; Path=/api/auth/oidc; Max-Age=0; HttpOnly; SameSite=Lax${secure}`;
+
+        const fail = (message: string, details: Record<string, unknown>) => {
+          appLog.warn(LogCategories.AUTH, `Single sign-on failed: ${message}`, details);
+          return redirect(`/login?error=${encodeURIComponent(FAILED_MESSAGE)}`, [clearFlow]);
+        };
+
+        const config = await getOidcConfig();
+        if (!config) {
+          return fail("single sign-on is not enabled", {});
+        }
+
+        const providerError = url.searchParams.get("error");
+        if (providerError) {
+          return fail("the provider returned an error", {
+            error: providerError,
+            description: url.searchParams.get("error_description"),
+          });
+        }
+
+        const flowToken = getCookie(request, OIDC_FLOW_COOKIE);
+        const flow = flowToken ? await verifyOidcFlowToken(flowToken) : null;
+        const code = url.searchParams.get("code");
+        if (!flow || !code || url.searchParams.get("state") !== flow.state) {
+          return fail("the sign-in expired or its state doesn't match", {});
+        }
+
+        try {
+          const user = await completeOidcLogin(config, flow, code);
+          const token = await createToken({ userId: user.id, username: user.username });
+
+          appLog.info(LogCategories.AUTH, "User signed in with single sign-on", {
+            username: user.username,
+          });
+
+          // Lax so the cookie is sent on the redirect that follows the provider's
+          return redirect("/", [
+            clearFlow,
+            `auth-token=${token}; Path=/; Max-Age=${AUTH_TOKEN_MAX_AGE}; SameSite=Lax${secure}`,
+          ]);
+        } catch (error) {
+          return fail("couldn't complete the sign-in", {
+            issuer: config.issuer,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      },
+    },
+  },
+});
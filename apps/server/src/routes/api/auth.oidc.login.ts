@@ -0,0 +1,50 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { createOidcFlowToken } from "~/server/lib/auth";
+import {
+  getOidcConfig,
+  getRedirectUri,
+  startOidcLogin,
+  OIDC_FLOW_COOKIE,
+} from "~/server/lib/oidc";
+import { appLog, LogCategories } from "~/server/lib/app-logger";
+
+function redirectToLogin(error: string): Response {
+  return new Response(null, {
+    status: 302,
+    headers: { Location: `/login?error=${encodeURIComponent(error)}` },
+  });
+}
+
+export const Route = createFileRoute("/api/auth/oidc/login")({
+  server: {
+    handlers: {
+      GET: async ({ request }) => {
+        const config = await getOidcConfig();
+        if (!config) {
+          return redirectToLogin("Single sign-on is not enabled");
+        }
+
+        try {
+          const { url, flow } = await startOidcLogin(config, getRedirectUri(config, request.url));
+          const token = await createOidcFlowToken(flow);
+          const secure = new URL(request.url).protocol === "https:" ? "; Secure" : "";
+
+          // Lax, not Strict - the provider's redirect back is a cross-site navigation
+          return new Response(null, {
+            status: 302,
+            headers: {
+              Location: url,
+              "Set-Cookie": `${OIDC_FLOW_COOKIE}=${token}; Path=/api/auth/oidc; Max-Age=600; HttpOnly; SameSite=Lax${secure}`,
+            },
+          });
+        } catch (error) {
+          appLog.error(LogCategories.AUTH, "Failed to start single sign-on", {
+            issuer: config.issuer,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return redirectToLogin("Couldn't reach the identity provider");
+        }
+      },
+    },
+  },
+});
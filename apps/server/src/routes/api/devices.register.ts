@@ -1,10 +1,18 @@
 import { createFileRoute } from "@tanstack/react-router";
 import { json } from "@tanstack/react-start";
-import { deviceRegistrationSchema } from "@davidilie/claude-code-prometheus-shared";
+import { deviceRegistrationSchema, hasRole } from "@davidilie/claude-code-prometheus-shared";
 import { db } from "~/server/db";
-import { generateApiKey } from "~/server/lib/auth";
+import {
+  generateApiKey,
+  verifyDeviceRegistrationToken,
+  parseUserRole,
+  checkRateLimit,
+  RATE_LIMITS,
+} from "~/server/lib/auth";
 import { updateDeviceStatus } from "~/server/lib/metrics";
+import { emitWebhookEvent } from "~/server/lib/webhooks";
 
+// Registration tokens come from the Devices page, so each device belongs to whoever made one
 export const Route = createFileRoute("/api/devices/register")({
   server: {
     handlers: {
@@ -39,19 +47,80 @@ export const Route = createFileRoute("/api/devices/register")({
             );
           }
 
+          const authHeader = request.headers.get("authorization");
+          const grant = authHeader?.startsWith("Bearer ")
+            ? await verifyDeviceRegistrationToken(authHeader.slice(7))
+            : null;
+
+          if (!grant) {
+            return json(
+              {
+                success: false,
+                error: "A registration token is required - create one on the Devices page",
+              },
+              { status: 401 }
+            );
+          }
+
+          // The role is checked again, so removed users and viewers can't use an old token
+          const user = await db.user.findUnique({
+            where: { id: grant.userId },
+            select: { id: true, role: true, teamId: true },
+          });
+
+          if (!user) {
+            return json(
+              {
+                success: false,
+                error: "Invalid registration token",
+              },
+              { status: 401 }
+            );
+          }
+
+          if (!hasRole(parseUserRole(user.role), "member")) {
+            return json(
+              {
+                success: false,
+                error: "This action requires the member role",
+              },
+              { status: 403 }
+            );
+          }
+
+          const rateLimitResult = checkRateLimit(`register:${user.id}`, RATE_LIMITS.register);
+          if (!rateLimitResult.allowed) {
+            return json(
+              {
+                success: false,
+                error: "Too many device registrations. Please try again later.",
+              },
+              { status: 429 }
+            );
+          }
+
           const { name, hostname } = parsed.data;
           const apiKey = generateApiKey();
 
+          // Same owner and team as registering from the Devices page
           const device = await db.device.create({
             data: {
               name,
               hostname,
               apiKey,
+              ownerId: user.id,
+              teamId: user.teamId,
             },
           });
 
           updateDeviceStatus(device.name, true);
 
+          await emitWebhookEvent("device.registered", {
+            deviceId: device.id,
+            name: device.name,
+            hostname: device.hostname,
+          });
+
           return json(
             {
               deviceId: device.id,
@@ -2,11 +2,14 @@ import { createFileRoute } from "@tanstack/react-router";
 import { json } from "@tanstack/react-start";
 import { db } from "~/server/db";
 import { getRedisStatus } from "~/server/lib/redis";
+import { ensureSchedulerStarted } from "~/server/lib/scheduler";
 
 export const Route = createFileRoute("/api/health")({
   server: {
     handlers: {
       GET: async () => {
+        ensureSchedulerStarted();
+
         try {
           // Check database connectivity
           await db.$queryRaw`SELECT 1`;
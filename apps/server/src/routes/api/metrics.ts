@@ -1,5 +1,7 @@
 import { createFileRoute } from "@tanstack/react-router";
 import { registry, initializePricingMetrics } from "~/server/lib/metrics";
+import { ensureMetricsHydrated } from "~/server/lib/metrics-hydration";
+import { ensureSchedulerStarted } from "~/server/lib/scheduler";
 
 // Initialize pricing metrics on module load
 initializePricingMetrics();
@@ -8,7 +10,11 @@ export const Route = createFileRoute("/api/metrics")({
   server: {
     handlers: {
       GET: async () => {
+        ensureSchedulerStarted();
+
         try {
+          // Seed counters from the database before the first scrape
+          await ensureMetricsHydrated();
           const metrics = await registry.metrics();
           return new Response(metrics, {
             status: 200,
@@ -1,20 +1,21 @@
+import { gunzipSync } from "node:zlib";
 import { createFileRoute } from "@tanstack/react-router";
 import { json } from "@tanstack/react-start";
-import { usagePushRequestSchema } from "@davidilie/claude-code-prometheus-shared";
-import { db } from "~/server/db";
-import { calculateCost, calculateCacheSavings } from "~/server/lib/pricing";
 import {
-  recordUsageMetrics,
-  updateDeviceStatus,
-  recordSessionStart,
-} from "~/server/lib/metrics";
+  usagePushEnvelopeSchema,
+  usageEntrySchema,
+  type UsageEntry,
+  type UsageEntryError,
+  type UsagePushResponse,
+} from "@davidilie/claude-code-prometheus-shared";
+import { db } from "~/server/db";
+import { updateDeviceStatus } from "~/server/lib/metrics";
+import { ensureMetricsHydrated } from "~/server/lib/metrics-hydration";
+import { ingestUsageEntries } from "~/server/lib/usage-ingest";
+import { evaluateBudgets } from "~/server/lib/budgets";
 import { checkRateLimit, RATE_LIMITS } from "~/server/lib/auth";
-import {
-  isRedisAvailable,
-  cacheUsageEntry,
-  type CachedUsageEntry,
-} from "~/server/lib/redis";
 import { appLog, LogCategories } from "~/server/lib/app-logger";
+import { ensureSchedulerStarted } from "~/server/lib/scheduler";
 
 // Get client IP for rate limiting
 function getClientIP(request: Request): string {
@@ -36,10 +37,59 @@ function getClientIP(request: Request): string {
   return "unknown";
 }
 
+// Push size limits - the daemon splits its queue into batches well under these
+const MAX_BATCH_ENTRIES = parseInt(process.env.USAGE_MAX_BATCH_ENTRIES ?? "5000", 10);
+const MAX_BODY_BYTES = parseInt(process.env.USAGE_MAX_BODY_MB ?? "25", 10) * 1024 * 1024;
+
+type BodyResult =
+  | { ok: true; body: Record<string, unknown> }
+  | { ok: false; status: number; error: string };
+
+// Read the JSON body, decompressing gzip (Content-Encoding: gzip) and enforcing MAX_BODY_BYTES
+async function readUsageBody(request: Request): Promise<BodyResult> {
+  const tooLarge: BodyResult = {
+    ok: false,
+    status: 413,
+    error: `Request body too large (max ${MAX_BODY_BYTES / (1024 * 1024)}MB) - send smaller batches`,
+  };
+
+  const contentLength = parseInt(request.headers.get("content-length") ?? "0", 10);
+  if (contentLength > MAX_BODY_BYTES) return tooLarge;
+
+  const encoding = request.headers.get("content-encoding")?.toLowerCase() ?? "identity";
+  if (encoding !== "identity" && encoding !== "gzip") {
+    return { ok: false, status: 415, error: `Unsupported Content-Encoding: ${encoding}` };
+  }
+
+  let raw: Buffer = Buffer.from(await request.arrayBuffer());
+  if (raw.length > MAX_BODY_BYTES) return tooLarge;
+
+  if (encoding === "gzip") {
+    try {
+      raw = gunzipSync(raw, { maxOutputLength: MAX_BODY_BYTES });
+    } catch (error) {
+      if (error instanceof RangeError) return tooLarge;
+      return { ok: false, status: 400, error: "Invalid gzip body" };
+    }
+  }
+
+  try {
+    const body: unknown = JSON.parse(raw.toString("utf-8"));
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return { ok: false, status: 400, error: "Request body must be a JSON object" };
+    }
+    return { ok: true, body: body as Record<string, unknown> };
+  } catch {
+    return { ok: false, status: 400, error: "Invalid JSON body" };
+  }
+}
+
 export const Route = createFileRoute("/api/usage")({
   server: {
     handlers: {
       POST: async ({ request }) => {
+        ensureSchedulerStarted();
+
         try {
           // Get API key from header (preferred) or body (legacy support)
           const apiKeyFromHeader = request.headers.get("X-Device-Key");
@@ -74,7 +124,23 @@ export const Route = createFileRoute("/api/usage")({
             );
           }
 
-          const body = await request.json();
+          const bodyResult = await readUsageBody(request);
+          if (!bodyResult.ok) {
+            if (bodyResult.status === 413) {
+              appLog.warn(LogCategories.API, "Rejected oversized usage push", {
+                contentLength: request.headers.get("content-length"),
+              });
+            }
+            return json(
+              {
+                success: false,
+                error: bodyResult.error,
+                ...(bodyResult.status === 413 && { maxEntries: MAX_BATCH_ENTRIES }),
+              },
+              { status: bodyResult.status }
+            );
+          }
+          const body = bodyResult.body;
 
           // Support both header-based and body-based API key (header takes precedence)
           const deviceApiKey = apiKeyFromHeader ?? body.deviceApiKey;
@@ -88,7 +154,7 @@ export const Route = createFileRoute("/api/usage")({
 
           // Validate request body
           const bodyWithKey = { ...body, deviceApiKey };
-          const parsed = usagePushRequestSchema.safeParse(bodyWithKey);
+          const parsed = usagePushEnvelopeSchema.safeParse(bodyWithKey);
 
           if (!parsed.success) {
             return json(
@@ -101,11 +167,44 @@ export const Route = createFileRoute("/api/usage")({
             );
           }
 
-          const { entries } = parsed.data;
+          if (parsed.data.entries.length > MAX_BATCH_ENTRIES) {
+            return json(
+              {
+                success: false,
+                error: `Batch too large: ${parsed.data.entries.length} entries (max ${MAX_BATCH_ENTRIES}) - send smaller batches`,
+                maxEntries: MAX_BATCH_ENTRIES,
+              },
+              { status: 413 }
+            );
+          }
+
+          // Validate entries individually so one bad entry doesn't sink the batch
+          const entries: UsageEntry[] = [];
+          const errors: UsageEntryError[] = [];
+
+          parsed.data.entries.forEach((raw, index) => {
+            const result = usageEntrySchema.safeParse(raw);
+            if (result.success) {
+              entries.push(result.data);
+              return;
+            }
+            const uuid =
+              raw && typeof raw === "object" && "uuid" in raw && typeof raw.uuid === "string"
+                ? raw.uuid
+                : undefined;
+            errors.push({
+              index,
+              uuid,
+              error: result.error.issues
+                .map((issue) => `${issue.path.join(".") || "entry"}: ${issue.message}`)
+                .join("; "),
+            });
+          });
 
           // Verify device API key
           const device = await db.device.findUnique({
-            where: { apiKey: deviceApiKey },
+            where: { apiKey: parsed.data.deviceApiKey },
+            include: { team: { select: { name: true } } },
           });
 
           if (!device) {
@@ -118,151 +217,93 @@ export const Route = createFileRoute("/api/usage")({
           // Update device last seen
           await db.device.update({
             where: { id: device.id },
-            data: { lastSeen: new Date() },
+            data: { lastSeen: new Date(), online: true },
           });
 
           updateDeviceStatus(device.name, true, device.hostname);
 
+          const rateLimitHeaders = {
+            "X-RateLimit-Limit": RATE_LIMITS.usage.maxRequests.toString(),
+            "X-RateLimit-Remaining": rateLimitResult.remaining.toString(),
+            "X-RateLimit-Reset": new Date(rateLimitResult.resetTime).toISOString(),
+          };
+
           // Return early if no entries to process
           if (entries.length === 0) {
-            return json(
-              { success: true, processed: 0 },
-              {
-                headers: {
-                  "X-RateLimit-Limit": RATE_LIMITS.usage.maxRequests.toString(),
-                  "X-RateLimit-Remaining": rateLimitResult.remaining.toString(),
-                  "X-RateLimit-Reset": new Date(rateLimitResult.resetTime).toISOString(),
-                },
-              }
-            );
+            const response: UsagePushResponse = {
+              success: true,
+              processed: errors.length,
+              inserted: 0,
+              duplicates: 0,
+              failed: errors.length,
+              ...(errors.length > 0 && { errors }),
+            };
+            return json(response, { headers: rateLimitHeaders });
           }
 
-          let processed = 0;
-
-          for (const entry of entries) {
-            // Get or create session
-            let session = await db.session.findUnique({
-              where: {
-                deviceId_sessionId: {
-                  deviceId: device.id,
-                  sessionId: entry.sessionId,
-                },
-              },
+          // Counters must be seeded from the database before new usage is added
+          await ensureMetricsHydrated();
+
+          let ingestResult: Awaited<ReturnType<typeof ingestUsageEntries>>;
+          try {
+            ingestResult = await ingestUsageEntries(device, entries);
+          } catch (error) {
+            // The transaction rolled back, so nothing from this batch was stored
+            appLog.error(LogCategories.USAGE, "Usage batch rolled back", {
+              device: device.name,
+              entries: entries.length,
+              error: error instanceof Error ? error.message : "Unknown error",
             });
-
-            const entryTimestamp = new Date(entry.timestamp);
-
-            if (!session) {
-              session = await db.session.create({
-                data: {
-                  sessionId: entry.sessionId,
-                  deviceId: device.id,
-                  project: entry.project,
-                  startedAt: entryTimestamp,
-                },
-              });
-
-              recordSessionStart(
-                device.name,
-                entry.sessionId,
-                entry.project,
-                entry.model ?? "unknown"
-              );
-            }
-
-            // Calculate cost if not provided
-            let costUSD = entry.costUSD;
-            if (costUSD === undefined) {
-              costUSD = calculateCost(
-                entry.model,
-                entry.inputTokens,
-                entry.outputTokens,
-                entry.cacheCreationTokens,
-                entry.cacheReadTokens
-              );
-            }
-
-            // Calculate cache savings
-            const cacheSavings = calculateCacheSavings(
-              entry.model,
-              entry.cacheReadTokens
-            );
-
-            // Create usage entry
-            await db.usageEntry.create({
-              data: {
-                sessionId: session.id,
-                timestamp: entryTimestamp,
-                type: entry.type,
-                model: entry.model,
-                inputTokens: entry.inputTokens,
-                outputTokens: entry.outputTokens,
-                cacheCreationTokens: entry.cacheCreationTokens,
-                cacheReadTokens: entry.cacheReadTokens,
-                costUSD,
+            console.error("Usage batch rolled back:", error);
+            return json(
+              {
+                success: false,
+                error: "Failed to store usage batch - no entries were saved, safe to retry",
+                processed: 0,
+                inserted: 0,
+                duplicates: 0,
+                failed: entries.length + errors.length,
+                ...(errors.length > 0 && { errors }),
               },
-            });
-
-            // Record metrics
-            recordUsageMetrics(
-              device.name,
-              entry.model ?? null,
-              entry.inputTokens,
-              entry.outputTokens,
-              entry.cacheCreationTokens,
-              entry.cacheReadTokens,
-              costUSD,
-              cacheSavings,
-              entry.project,
-              entry.sessionId
+              { status: 500, headers: rateLimitHeaders }
             );
+          }
 
-            // Cache in Redis if enabled (for faster Prometheus queries)
-            if (isRedisAvailable()) {
-              const cachedEntry: CachedUsageEntry = {
-                deviceId: device.id,
-                deviceName: device.name,
-                sessionId: entry.sessionId,
-                project: entry.project,
-                timestamp: entry.timestamp,
-                type: entry.type,
-                model: entry.model ?? null,
-                inputTokens: entry.inputTokens,
-                outputTokens: entry.outputTokens,
-                cacheCreationTokens: entry.cacheCreationTokens,
-                cacheReadTokens: entry.cacheReadTokens,
-                costUSD,
-              };
-              // Fire and forget - don't block on Redis
-              cacheUsageEntry(cachedEntry).catch(() => {
-                // Silently ignore Redis cache failures
-              });
-            }
+          const { inserted, duplicates } = ingestResult;
+          const processed = entries.length + errors.length;
 
-            // Update session end time
-            await db.session.update({
-              where: { id: session.id },
-              data: { endedAt: entryTimestamp },
+          if (errors.length > 0) {
+            appLog.warn(LogCategories.USAGE, `Rejected ${errors.length} invalid usage entries`, {
+              device: device.name,
+              firstError: errors[0]?.error,
             });
-
-            processed++;
           }
 
           appLog.info(LogCategories.USAGE, `Processed ${processed} usage entries`, {
             device: device.name,
             entries: processed,
+            inserted,
+            duplicates,
           });
 
-          return json(
-            { success: true, processed },
-            {
-              headers: {
-                "X-RateLimit-Limit": RATE_LIMITS.usage.maxRequests.toString(),
-                "X-RateLimit-Remaining": rateLimitResult.remaining.toString(),
-                "X-RateLimit-Reset": new Date(rateLimitResult.resetTime).toISOString(),
-              },
-            }
-          );
+          // Check budgets against the new spend - don't hold up the daemon on it
+          if (inserted > 0) {
+            evaluateBudgets().catch((error) => {
+              appLog.error(LogCategories.BUDGET, "Budget evaluation failed", {
+                error: error instanceof Error ? error.message : "Unknown error",
+              });
+            });
+          }
+
+          const response: UsagePushResponse = {
+            success: true,
+            processed,
+            inserted,
+            duplicates,
+            failed: errors.length,
+            ...(errors.length > 0 && { errors }),
+          };
+          return json(response, { headers: rateLimitHeaders });
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : "Unknown error";
           appLog.error(LogCategories.USAGE, "Error processing usage data", {
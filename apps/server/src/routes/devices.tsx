@@ -16,6 +16,9 @@ import {
   Clock,
   Layers,
   AlertCircle,
+  User,
+  Building2,
+  Terminal,
 } from "lucide-react";
 import { Button } from "~/app/components/ui/button";
 import { Badge } from "~/app/components/ui/badge";
@@ -37,7 +40,9 @@ import {
 } from "~/app/components/ui/dialog";
 import { Input } from "~/app/components/ui/input";
 import { Label } from "~/app/components/ui/label";
+import { Select } from "~/app/components/ui/select";
 import { Layout } from "~/app/components/layout";
+import { hasRole } from "@davidilie/claude-code-prometheus-shared";
 import { useTRPC } from "~/trpc/react";
 import { formatRelativeTime, cn } from "~/app/lib/utils";
 
@@ -66,6 +71,7 @@ function DevicesPage() {
     apiKey: string;
   } | null>(null);
   const [copiedKey, setCopiedKey] = useState(false);
+  const [copiedCommand, setCopiedCommand] = useState(false);
 
   // Compute hostname - use override if provided, otherwise generate from name
   const hostname = hostnameOverride || generateHostname(deviceName);
@@ -81,6 +87,19 @@ function DevicesPage() {
     enabled: !!session,
   });
 
+  const isAdmin = session?.role === "admin";
+
+  // Owner choices for admins reassigning devices
+  const { data: users } = useQuery({
+    ...api.users.list.queryOptions(),
+    enabled: isAdmin,
+  });
+
+  const { data: teams } = useQuery({
+    ...api.teams.list.queryOptions(),
+    enabled: isAdmin,
+  });
+
   // All mutations must be declared before any conditional returns
   const registerMutation = useMutation(
     api.devices.register.mutationOptions({
@@ -91,6 +110,10 @@ function DevicesPage() {
     })
   );
 
+  const registrationTokenMutation = useMutation(
+    api.devices.createRegistrationToken.mutationOptions()
+  );
+
   const deleteMutation = useMutation(
     api.devices.delete.mutationOptions({
       onSuccess: () => {
@@ -99,6 +122,15 @@ function DevicesPage() {
     })
   );
 
+  const updateDeviceMutation = useMutation(
+    api.devices.update.mutationOptions({
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: api.devices.list.queryKey() });
+        queryClient.invalidateQueries({ queryKey: api.teams.list.queryKey() });
+      },
+    })
+  );
+
   useEffect(() => {
     if (!sessionLoading && sessionError) {
       navigate({ to: "/login" });
@@ -130,16 +162,27 @@ function DevicesPage() {
     }
   };
 
+  const handleCopyCommand = async () => {
+    if (registrationTokenMutation.data) {
+      await navigator.clipboard.writeText(registrationTokenMutation.data.command);
+      setCopiedCommand(true);
+      setTimeout(() => setCopiedCommand(false), 2000);
+    }
+  };
+
   const handleDialogClose = (open: boolean) => {
     if (!open) {
       setRegisteredDevice(null);
       setDeviceName("");
       setHostnameOverride("");
       registerMutation.reset();
+      registrationTokenMutation.reset();
     }
     setDialogOpen(open);
   };
 
+  // Viewers can see devices but not register or delete them
+  const canManage = hasRole(session.role, "member");
   const onlineCount = devices?.filter((d) => d.isOnline).length ?? 0;
   const totalCount = devices?.length ?? 0;
 
@@ -147,10 +190,12 @@ function DevicesPage() {
     <Layout
       title="Devices"
       actions={
-        <Button onClick={() => setDialogOpen(true)} className="gap-2">
-          <Plus className="h-4 w-4" />
-          <span className="hidden sm:inline">Register Device</span>
-        </Button>
+        canManage && (
+          <Button onClick={() => setDialogOpen(true)} className="gap-2">
+            <Plus className="h-4 w-4" />
+            <span className="hidden sm:inline">Register Device</span>
+          </Button>
+        )
       }
     >
       <div className="space-y-6">
@@ -361,6 +406,63 @@ function DevicesPage() {
                     </Button>
                   </DialogFooter>
                 </form>
+                <div className="space-y-2 border-t border-border pt-4">
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    <Terminal className="h-4 w-4 text-muted-foreground" />
+                    Register from the device instead
+                  </div>
+                  {registrationTokenMutation.data ? (
+                    <>
+                      <div className="flex gap-2">
+                        <Input
+                          value={registrationTokenMutation.data.command}
+                          readOnly
+                          className="bg-secondary/50 font-mono text-xs"
+                        />
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={handleCopyCommand}
+                          className={cn(
+                            copiedCommand && "border-emerald-500/50 text-emerald-500"
+                          )}
+                        >
+                          {copiedCommand ? (
+                            <Check className="h-4 w-4" />
+                          ) : (
+                            <Copy className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Run this on the device after installing the daemon. The token registers
+                        devices to your account for {registrationTokenMutation.data.expiresInMinutes}{" "}
+                        minutes.
+                      </p>
+                    </>
+                  ) : (
+                    <>
+                      <p className="text-xs text-muted-foreground">
+                        Get a setup command with a registration token for the daemon.
+                      </p>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => registrationTokenMutation.mutate()}
+                        disabled={registrationTokenMutation.isPending}
+                      >
+                        Get setup command
+                      </Button>
+                    </>
+                  )}
+                  {registrationTokenMutation.error && (
+                    <div className="flex items-center gap-2 rounded-lg border border-destructive/20 bg-destructive/5 p-3 text-sm text-destructive">
+                      <AlertCircle className="h-4 w-4" />
+                      <span>{registrationTokenMutation.error.message}</span>
+                    </div>
+                  )}
+                </div>
               </>
             )}
           </DialogContent>
@@ -404,16 +506,20 @@ function DevicesPage() {
                   <Monitor className="h-8 w-8 text-muted-foreground/50" />
                 </div>
                 <h3 className="mt-4 font-medium">No devices registered</h3>
-                <p className="mt-1 text-sm text-muted-foreground">
-                  Click "Register Device" to add your first device
-                </p>
-                <Button
-                  onClick={() => setDialogOpen(true)}
-                  className="mt-4 gap-2"
-                >
-                  <Plus className="h-4 w-4" />
-                  Register Device
-                </Button>
+                {canManage && (
+                  <>
+                    <p className="mt-1 text-sm text-muted-foreground">
+                      Click "Register Device" to add your first device
+                    </p>
+                    <Button
+                      onClick={() => setDialogOpen(true)}
+                      className="mt-4 gap-2"
+                    >
+                      <Plus className="h-4 w-4" />
+                      Register Device
+                    </Button>
+                  </>
+                )}
               </div>
             ) : (
               <div className="space-y-3">
@@ -466,26 +572,84 @@ function DevicesPage() {
                             <Clock className="h-3 w-3" />
                             {formatRelativeTime(new Date(device.lastSeen))}
                           </span>
+                          {isAdmin && (
+                            <>
+                              <span className="text-border">|</span>
+                              <span className="flex items-center gap-1">
+                                <User className="h-3 w-3" />
+                                {device.owner?.username ?? "Unassigned"}
+                              </span>
+                            </>
+                          )}
+                          {device.team && (
+                            <>
+                              <span className="text-border">|</span>
+                              <span className="flex items-center gap-1">
+                                <Building2 className="h-3 w-3" />
+                                {device.team.name}
+                              </span>
+                            </>
+                          )}
                         </div>
                       </div>
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => {
-                        if (
-                          confirm(
-                            `Are you sure you want to delete "${device.name}"? This action cannot be undone.`
-                          )
-                        ) {
-                          deleteMutation.mutate({ id: device.id });
-                        }
-                      }}
-                      disabled={deleteMutation.isPending}
-                      className="opacity-0 transition-opacity group-hover:opacity-100 hover:bg-destructive/10 hover:text-destructive"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    <div className="flex items-center gap-2">
+                      {isAdmin && teams && teams.length > 0 && (
+                        <Select
+                          aria-label={`Team of ${device.name}`}
+                          className="h-8 w-32 text-xs"
+                          value={device.team?.id ?? ""}
+                          onChange={(e) =>
+                            updateDeviceMutation.mutate({
+                              id: device.id,
+                              teamId: e.target.value || null,
+                            })
+                          }
+                          disabled={updateDeviceMutation.isPending}
+                          options={[
+                            { value: "", label: "No team" },
+                            ...teams.map((team) => ({ value: team.id, label: team.name })),
+                          ]}
+                        />
+                      )}
+                      {isAdmin && users && (
+                        <Select
+                          aria-label={`Owner of ${device.name}`}
+                          className="h-8 w-36 text-xs"
+                          value={device.owner?.id ?? ""}
+                          onChange={(e) =>
+                            updateDeviceMutation.mutate({
+                              id: device.id,
+                              ownerId: e.target.value || null,
+                            })
+                          }
+                          disabled={updateDeviceMutation.isPending}
+                          options={[
+                            { value: "", label: "Unassigned" },
+                            ...users.map((user) => ({ value: user.id, label: user.username })),
+                          ]}
+                        />
+                      )}
+                      {canManage && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => {
+                            if (
+                              confirm(
+                                `Are you sure you want to delete "${device.name}"? This action cannot be undone.`
+                              )
+                            ) {
+                              deleteMutation.mutate({ id: device.id });
+                            }
+                          }}
+                          disabled={deleteMutation.isPending}
+                          className="opacity-0 transition-opacity group-hover:opacity-100 hover:bg-destructive/10 hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
                   </div>
                 ))}
               </div>
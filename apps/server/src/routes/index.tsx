@@ -13,6 +13,8 @@ import {
   TrendingDown,
   Database,
   Layers,
+  Users,
+  Building2,
 } from "lucide-react";
 import {
   Card,
@@ -67,6 +69,16 @@ function DashboardPage() {
     enabled: setupStatus?.setupCompleted,
   });
 
+  const { data: costByUser, isLoading: costByUserLoading } = useQuery({
+    ...api.stats.costByUser.queryOptions({}),
+    enabled: setupStatus?.setupCompleted,
+  });
+
+  const { data: costByTeam } = useQuery({
+    ...api.stats.costByTeam.queryOptions({}),
+    enabled: setupStatus?.setupCompleted,
+  });
+
   const { data: recentSessions, isLoading: sessionsLoading } = useQuery({
     ...api.stats.recentSessions.queryOptions({ limit: 5 }),
     enabled: setupStatus?.setupCompleted,
@@ -186,6 +198,72 @@ function DashboardPage() {
           </CardContent>
         </Card>
 
+        {/* Cost by User */}
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Users className="h-4 w-4 text-primary" />
+              Cost by User
+              <span className="text-xs font-normal text-muted-foreground">This month</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {costByUserLoading ? (
+              <div className="space-y-3">
+                {Array.from({ length: 3 }).map((_, i) => (
+                  <Skeleton key={i} className="h-10 w-full" />
+                ))}
+              </div>
+            ) : costByUser?.length === 0 ? (
+              <p className="py-4 text-center text-sm text-muted-foreground">
+                No usage this month.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {costByUser?.map((user) => (
+                  <CostShareRow
+                    key={user.userId ?? "unassigned"}
+                    label={user.username ?? "Unassigned devices"}
+                    muted={!user.username}
+                    devicesCount={user.devicesCount}
+                    tokens={user.inputTokens + user.outputTokens}
+                    costUSD={user.costUSD}
+                    percentage={user.percentage}
+                  />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Cost by Team - only once teams are set up */}
+        {costByTeam?.some((team) => team.teamId) && (
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Building2 className="h-4 w-4 text-primary" />
+                Cost by Team
+                <span className="text-xs font-normal text-muted-foreground">This month</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {costByTeam.map((team) => (
+                  <CostShareRow
+                    key={team.teamId ?? "none"}
+                    label={team.teamName ?? "No team"}
+                    muted={!team.teamName}
+                    devicesCount={team.devicesCount}
+                    tokens={team.inputTokens + team.outputTokens}
+                    costUSD={team.costUSD}
+                    percentage={team.percentage}
+                  />
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Recent Sessions */}
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-3">
@@ -338,6 +416,46 @@ function MetricCard({
   );
 }
 
+function CostShareRow({
+  label,
+  muted = false,
+  devicesCount,
+  tokens,
+  costUSD,
+  percentage,
+}: {
+  label: string;
+  muted?: boolean;
+  devicesCount: number;
+  tokens: number;
+  costUSD: number;
+  percentage: number;
+}) {
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between text-sm">
+        <div className="flex items-center gap-2">
+          <span className={cn("font-medium", muted && "text-muted-foreground")}>{label}</span>
+          <span className="text-xs text-muted-foreground">
+            {devicesCount} {devicesCount === 1 ? "device" : "devices"}
+          </span>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="font-mono text-xs text-muted-foreground">
+            {formatNumber(tokens)} tokens
+          </span>
+          <span className="font-mono text-sm font-medium text-accent">
+            {formatCurrency(costUSD)}
+          </span>
+        </div>
+      </div>
+      <div className="h-1.5 overflow-hidden rounded-full bg-secondary">
+        <div className="h-full rounded-full bg-primary" style={{ width: `${percentage}%` }} />
+      </div>
+    </div>
+  );
+}
+
 function TokenStat({
   label,
   value,
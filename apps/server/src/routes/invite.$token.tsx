@@ -0,0 +1,186 @@
+"use client";
+
+import { useState } from "react";
+import { createFileRoute, useNavigate } from "@tanstack/react-router";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "~/app/components/ui/button";
+import { Input } from "~/app/components/ui/input";
+import { Label } from "~/app/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/app/components/ui/card";
+import { useTRPC } from "~/trpc/react";
+import { Terminal, Loader2, AlertTriangle } from "lucide-react";
+
+export const Route = createFileRoute("/invite/$token")({
+  component: InvitePage,
+});
+
+const roleLabels = {
+  admin: "an admin",
+  member: "a member",
+  viewer: "a viewer",
+} as const;
+
+function InvitePage() {
+  const navigate = useNavigate();
+  const api = useTRPC();
+  const { token } = Route.useParams();
+  const [username, setUsername] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const inviteQuery = useQuery({
+    ...api.users.getInvite.queryOptions({ token }),
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+
+  const acceptMutation = useMutation(
+    api.users.acceptInvite.mutationOptions({
+      onSuccess: (data) => {
+        // Signed in straight away, same as a login
+        document.cookie = `auth-token=${data.token}; path=/; max-age=${7 * 24 * 60 * 60}; samesite=strict`;
+        navigate({ to: "/" });
+      },
+      onError: (err) => {
+        setError(err.message);
+      },
+    })
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (password !== confirmPassword) {
+      setError("Passwords don't match");
+      return;
+    }
+    acceptMutation.mutate({ token, username, email, password, confirmPassword });
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-background p-4">
+      {/* Background grid pattern */}
+      <div className="fixed inset-0 grid-pattern opacity-30" />
+
+      {/* Logo */}
+      <div className="relative mb-8 text-center">
+        <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-2xl bg-primary/10">
+          <Terminal className="h-8 w-8 text-primary" />
+        </div>
+        <h1 className="text-2xl font-semibold tracking-tight">
+          Claude <span className="text-gradient">Tracker</span>
+        </h1>
+      </div>
+
+      <Card className="relative w-full max-w-md border-border bg-card/50 backdrop-blur">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl">Join the team</CardTitle>
+          <CardDescription>
+            {inviteQuery.data
+              ? `You've been invited as ${roleLabels[inviteQuery.data.role]}. Create your account to continue.`
+              : "Create your Claude Usage Tracker account"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {inviteQuery.isLoading ? (
+            <div className="flex items-center justify-center gap-2 py-6">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              <span className="text-sm text-muted-foreground">Checking invite...</span>
+            </div>
+          ) : inviteQuery.error ? (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2 rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                {inviteQuery.error.message}
+              </div>
+              <Button variant="outline" className="w-full" onClick={() => navigate({ to: "/login" })}>
+                Go to sign in
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+                  {error}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="username">Username</Label>
+                <Input
+                  id="username"
+                  type="text"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="email">Email (optional)</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder={inviteQuery.data?.email ?? ""}
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  minLength={8}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm Password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                />
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={acceptMutation.isPending}
+              >
+                {acceptMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Creating account...
+                  </>
+                ) : (
+                  "Create account"
+                )}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Footer */}
+      <p className="relative mt-6 text-center text-xs text-muted-foreground">
+        Claude Tracker • Usage monitoring for Claude Code
+      </p>
+    </div>
+  );
+}
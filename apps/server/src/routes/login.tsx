@@ -13,8 +13,9 @@ import {
   CardHeader,
   CardTitle,
 } from "~/app/components/ui/card";
+import { TotpSetupDetails, RecoveryCodesList } from "~/app/components/two-factor";
 import { useTRPC } from "~/trpc/react";
-import { Terminal, Loader2, ShieldCheck } from "lucide-react";
+import { Terminal, Loader2, ShieldCheck, KeyRound } from "lucide-react";
 
 export const Route = createFileRoute("/login")({
   component: LoginPage,
@@ -27,6 +28,23 @@ function LoginPage() {
   const [password, setPassword] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [isAutoLoggingIn, setIsAutoLoggingIn] = useState(false);
+  // Set once the password is right and a second step is needed
+  const [challenge, setChallenge] = useState<{ kind: "verify" | "setup"; token: string } | null>(
+    null
+  );
+  const [code, setCode] = useState("");
+  // New recovery codes are shown before signing in, along with the token to sign in with
+  const [setupResult, setSetupResult] = useState<{ token: string; recoveryCodes: string[] } | null>(
+    null
+  );
+
+  // Single sign-on redirects back here with ?error= when it fails
+  useEffect(() => {
+    const ssoError = new URLSearchParams(window.location.search).get("error");
+    if (ssoError) {
+      setError(ssoError);
+    }
+  }, []);
 
   // Check auto-login status on page load
   const autoLoginQuery = useQuery({
@@ -35,6 +53,12 @@ function LoginPage() {
     refetchOnWindowFocus: false,
   });
 
+  const ssoQuery = useQuery({
+    ...api.auth.getSsoStatus.queryOptions(),
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+
   // Handle auto-login
   useEffect(() => {
     if (autoLoginQuery.data?.autoLoginEnabled && autoLoginQuery.data?.token) {
@@ -50,13 +74,51 @@ function LoginPage() {
     }
   }, [autoLoginQuery.data, navigate]);
 
+  const signIn = (token: string) => {
+    // Set cookie
+    document.cookie = `auth-token=${token}; path=/; max-age=${7 * 24 * 60 * 60}; samesite=strict`;
+    navigate({ to: "/" });
+  };
+
+  const startSetupMutation = useMutation(
+    api.auth.startTwoFactorSetup.mutationOptions({
+      onError: (err) => {
+        setError(err.message);
+      },
+    })
+  );
+
   const loginMutation = useMutation(
     api.auth.login.mutationOptions({
       onSuccess: (data) => {
-        // Set cookie
-        document.cookie = `auth-token=${data.token}; path=/; max-age=${7 * 24 * 60 * 60}; samesite=strict`;
-        navigate({ to: "/" });
+        if (data.twoFactor && data.challenge) {
+          setCode("");
+          setChallenge({ kind: data.twoFactor, token: data.challenge });
+          if (data.twoFactor === "setup") {
+            startSetupMutation.mutate({ challenge: data.challenge });
+          }
+        } else if (data.token) {
+          signIn(data.token);
+        }
+      },
+      onError: (err) => {
+        setError(err.message);
+      },
+    })
+  );
+
+  const verifyMutation = useMutation(
+    api.auth.verifyTwoFactor.mutationOptions({
+      onSuccess: (data) => signIn(data.token),
+      onError: (err) => {
+        setError(err.message);
       },
+    })
+  );
+
+  const completeSetupMutation = useMutation(
+    api.auth.completeTwoFactorSetup.mutationOptions({
+      onSuccess: (data) => setSetupResult({ token: data.token, recoveryCodes: data.recoveryCodes }),
       onError: (err) => {
         setError(err.message);
       },
@@ -69,6 +131,26 @@ function LoginPage() {
     loginMutation.mutate({ username, password });
   };
 
+  const handleCodeSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge) return;
+    setError(null);
+    if (challenge.kind === "verify") {
+      verifyMutation.mutate({ challenge: challenge.token, code });
+    } else {
+      completeSetupMutation.mutate({ challenge: challenge.token, code });
+    }
+  };
+
+  const handleStartOver = () => {
+    setChallenge(null);
+    setSetupResult(null);
+    setPassword("");
+    setError(null);
+  };
+
+  const isCheckingCode = verifyMutation.isPending || completeSetupMutation.isPending;
+
   // Show auto-login loading state
   if (autoLoginQuery.isLoading || isAutoLoggingIn) {
     return (
@@ -105,60 +187,164 @@ function LoginPage() {
 
       <Card className="relative w-full max-w-md border-border bg-card/50 backdrop-blur">
         <CardHeader className="space-y-1">
-          <CardTitle className="text-2xl">Welcome back</CardTitle>
+          <CardTitle className="text-2xl">
+            {challenge?.kind === "setup"
+              ? "Set up two-factor"
+              : challenge
+                ? "Two-factor authentication"
+                : "Welcome back"}
+          </CardTitle>
           <CardDescription>
-            Sign in to your Claude Usage Tracker account
+            {challenge?.kind === "setup"
+              ? "This server requires a second step when you sign in"
+              : challenge
+                ? "Enter the code from your authenticator app"
+                : "Sign in to your Claude Usage Tracker account"}
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            {error && (
-              <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
-                {error}
-              </div>
-            )}
-
-            <div className="space-y-2">
-              <Label htmlFor="username">Username</Label>
-              <Input
-                id="username"
-                type="text"
-                placeholder="admin"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
-                required
-              />
+          {setupResult ? (
+            <div className="space-y-4">
+              <RecoveryCodesList codes={setupResult.recoveryCodes} />
+              <Button className="w-full" onClick={() => signIn(setupResult.token)}>
+                Continue
+              </Button>
             </div>
+          ) : challenge ? (
+            <form onSubmit={handleCodeSubmit} className="space-y-4">
+              {error && (
+                <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+                  {error}
+                </div>
+              )}
 
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-              />
-            </div>
+              {challenge.kind === "setup" &&
+                (startSetupMutation.data ? (
+                  <TotpSetupDetails
+                    qrCode={startSetupMutation.data.qrCode}
+                    secret={startSetupMutation.data.secret}
+                  />
+                ) : (
+                  startSetupMutation.isPending && (
+                    <div className="flex items-center justify-center gap-2 py-6">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      <span className="text-sm text-muted-foreground">Preparing setup...</span>
+                    </div>
+                  )
+                ))}
+
+              <div className="space-y-2">
+                <Label htmlFor="code">
+                  {challenge.kind === "verify" ? "Code or recovery code" : "Code"}
+                </Label>
+                <Input
+                  id="code"
+                  type="text"
+                  inputMode={challenge.kind === "setup" ? "numeric" : undefined}
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  autoFocus
+                  required
+                />
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isCheckingCode || (challenge.kind === "setup" && !startSetupMutation.data)}
+              >
+                {isCheckingCode ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Checking...
+                  </>
+                ) : (
+                  "Continue"
+                )}
+              </Button>
 
-            <Button
-              type="submit"
-              className="w-full"
-              disabled={loginMutation.isPending}
-            >
-              {loginMutation.isPending ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Signing in...
-                </>
-              ) : (
-                "Sign in"
+              <button
+                type="button"
+                onClick={handleStartOver}
+                className="w-full text-center text-xs text-muted-foreground hover:text-foreground"
+              >
+                Sign in as someone else
+              </button>
+            </form>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+                  {error}
+                </div>
               )}
-            </Button>
-          </form>
+
+              <div className="space-y-2">
+                <Label htmlFor="username">Username</Label>
+                <Input
+                  id="username"
+                  type="text"
+                  placeholder="admin"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={loginMutation.isPending}
+              >
+                {loginMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Signing in...
+                  </>
+                ) : (
+                  "Sign in"
+                )}
+              </Button>
+            </form>
+          )}
+
+          {!challenge && ssoQuery.data?.enabled && (
+            <>
+              <div className="my-4 flex items-center gap-3 text-xs text-muted-foreground">
+                <div className="h-px flex-1 bg-border" />
+                or
+                <div className="h-px flex-1 bg-border" />
+              </div>
+              {/* A full page load - the server redirects on to the identity provider */}
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={() => {
+                  window.location.href = "/api/auth/oidc/login";
+                }}
+              >
+                <KeyRound className="mr-2 h-4 w-4" />
+                Sign in with SSO
+              </Button>
+            </>
+          )}
 
           {/* Auto-login hint */}
-          {autoLoginQuery.data?.autoLoginEnabled === false && (
+          {!challenge && autoLoginQuery.data?.autoLoginEnabled === false && (
             <div className="mt-4 flex items-center justify-center gap-2 text-xs text-muted-foreground">
               <ShieldCheck className="h-3 w-3" />
               <span>Auto-login disabled</span>
@@ -22,6 +22,7 @@ import {
   CardHeader,
   CardTitle,
 } from "~/app/components/ui/card";
+import { Select } from "~/app/components/ui/select";
 import { Layout } from "~/app/components/layout";
 import { useTRPC } from "~/trpc/react";
 import {
@@ -32,15 +33,53 @@ import {
   cn,
 } from "~/app/lib/utils";
 import { useState, useEffect } from "react";
+import { isEncodedProjectDir } from "@davidilie/claude-code-prometheus-shared";
 
 export const Route = createFileRoute("/sessions")({
   component: SessionsPage,
 });
 
+type SessionStatus = "active" | "ended";
+
+const statusFilters: { label: string; value: SessionStatus | undefined }[] = [
+  { label: "All", value: undefined },
+  { label: "Active", value: "active" },
+  { label: "Ended", value: "ended" },
+];
+
+function SessionStatusBadge({ status }: { status: string }) {
+  return status === "active" ? (
+    <Badge variant="success" className="text-xs">
+      Active
+    </Badge>
+  ) : (
+    <Badge variant="offline" className="text-xs">
+      Ended
+    </Badge>
+  );
+}
+
+// acme/app @ main
+function formatRepo(session: { gitRepo: string | null; gitBranch: string | null }): string {
+  return session.gitBranch ? `${session.gitRepo} @ ${session.gitBranch}` : (session.gitRepo ?? "");
+}
+
+// Folder names from before entries recorded their cwd can't be turned back into a path
+function projectTitle(project: string): string {
+  return isEncodedProjectDir(project)
+    ? `${project} - stored by an older daemon without a working directory, so it keeps Claude Code's folder name`
+    : project;
+}
+
 function SessionsPage() {
   const navigate = useNavigate();
   const api = useTRPC();
   const [page, setPage] = useState(1);
+  const [statusFilter, setStatusFilter] = useState<SessionStatus | undefined>(undefined);
+  const [profileFilter, setProfileFilter] = useState("");
+  const [projectFilter, setProjectFilter] = useState("");
+  const [repoFilter, setRepoFilter] = useState("");
+  const [teamFilter, setTeamFilter] = useState("");
   const limit = 20;
 
   // Check authentication
@@ -57,12 +96,39 @@ function SessionsPage() {
 
   const { data, isLoading } = useQuery({
     ...api.sessions.list.queryOptions({
+      status: statusFilter,
+      profile: profileFilter || undefined,
+      project: projectFilter || undefined,
+      // Picked from the list, so /src/app doesn't also match /src/app-old
+      projectExact: !!projectFilter,
+      gitRepo: repoFilter || undefined,
+      teamId: teamFilter || undefined,
       limit,
       offset: (page - 1) * limit,
     }),
     enabled: !!session,
   });
 
+  const { data: projects } = useQuery({
+    ...api.sessions.projects.queryOptions(),
+    enabled: !!session,
+  });
+
+  const { data: repositories } = useQuery({
+    ...api.sessions.repositories.queryOptions(),
+    enabled: !!session,
+  });
+
+  const { data: profiles } = useQuery({
+    ...api.sessions.profiles.queryOptions(),
+    enabled: !!session,
+  });
+
+  const { data: teams } = useQuery({
+    ...api.teams.list.queryOptions(),
+    enabled: !!session,
+  });
+
   const totalPages = data ? Math.ceil(data.total / limit) : 1;
 
   // Calculate stats from all sessions
@@ -176,12 +242,100 @@ function SessionsPage() {
                   </CardDescription>
                 </div>
               </div>
-              {data && (
-                <div className="hidden text-sm text-muted-foreground sm:block">
-                  Showing {(page - 1) * limit + 1}-
-                  {Math.min(page * limit, data.total)} of {data.total}
+              <div className="flex items-center gap-4">
+                {data && (
+                  <div className="hidden text-sm text-muted-foreground sm:block">
+                    Showing {(page - 1) * limit + 1}-
+                    {Math.min(page * limit, data.total)} of {data.total}
+                  </div>
+                )}
+                {projects && projects.length > 1 && (
+                  <Select
+                    aria-label="Project"
+                    value={projectFilter}
+                    onChange={(e) => {
+                      setProjectFilter(e.target.value);
+                      setPage(1);
+                    }}
+                    className="h-7 w-48 text-xs"
+                    options={[
+                      { value: "", label: "All projects" },
+                      ...projects.map(({ project, sessions }) => ({
+                        value: project,
+                        label: `${project.split("/").pop() || project} (${sessions})`,
+                      })),
+                    ]}
+                  />
+                )}
+                {repositories && repositories.length > 0 && (
+                  <Select
+                    aria-label="Repository"
+                    value={repoFilter}
+                    onChange={(e) => {
+                      setRepoFilter(e.target.value);
+                      setPage(1);
+                    }}
+                    className="h-7 w-48 text-xs"
+                    options={[
+                      { value: "", label: "All repositories" },
+                      ...repositories.map(({ repo, sessions }) => ({
+                        value: repo,
+                        label: `${repo} (${sessions})`,
+                      })),
+                    ]}
+                  />
+                )}
+                {teams && teams.length > 0 && (
+                  <Select
+                    aria-label="Team"
+                    value={teamFilter}
+                    onChange={(e) => {
+                      setTeamFilter(e.target.value);
+                      setPage(1);
+                    }}
+                    className="h-7 w-36 text-xs"
+                    options={[
+                      { value: "", label: "All teams" },
+                      ...teams.map((team) => ({ value: team.id, label: team.name })),
+                    ]}
+                  />
+                )}
+                {profiles && profiles.length > 0 && (
+                  <Select
+                    aria-label="Profile"
+                    value={profileFilter}
+                    onChange={(e) => {
+                      setProfileFilter(e.target.value);
+                      setPage(1);
+                    }}
+                    className="h-7 w-36 text-xs"
+                    options={[
+                      { value: "", label: "All profiles" },
+                      ...profiles.map((profile) => ({ value: profile, label: profile })),
+                    ]}
+                  />
+                )}
+                <div className="flex gap-1">
+                  {statusFilters.map((filter) => (
+                    <button
+                      key={filter.label}
+                      type="button"
+                      onClick={() => {
+                        setStatusFilter(filter.value);
+                        setPage(1);
+                      }}
+                      className={cn(
+                        "rounded-lg border px-3 py-1 text-xs font-medium transition-colors",
+                        statusFilter === filter.value
+                          ? "border-primary bg-primary/10 text-primary"
+                          : "border-border bg-secondary/30 text-muted-foreground hover:bg-secondary/50"
+                      )}
+                    >
+                      {filter.label}
+                    </button>
+                  ))}
                 </div>
-              )}
+              </div>
             </div>
           </CardHeader>
           <CardContent>
@@ -259,6 +413,8 @@ function SessionsPage() {
                                 </p>
                                 <p className="text-xs text-muted-foreground">
                                   {session.device.name}
+                                  {session.profile && ` · ${session.profile}`}
+                                  {session.gitRepo && ` · ${formatRepo(session)}`}
                                 </p>
                               </div>
                             </div>
@@ -276,17 +432,13 @@ function SessionsPage() {
                               <Clock className="h-3 w-3" />
                               {formatRelativeTime(new Date(session.startedAt))}
                             </span>
-                            {duration && (
+                            {duration !== null && (
                               <>
                                 <span className="text-border">|</span>
                                 <span>{formatDuration(duration)}</span>
                               </>
                             )}
-                            {!duration && (
-                              <Badge variant="success" className="text-xs">
-                                Active
-                              </Badge>
-                            )}
+                            <SessionStatusBadge status={session.status} />
                           </div>
                         </div>
 
@@ -299,34 +451,36 @@ function SessionsPage() {
                             <div className="min-w-0">
                               <p
                                 className="truncate font-medium text-sm"
-                                title={session.project}
+                                title={projectTitle(session.project)}
                               >
                                 {session.project.split("/").pop() ||
                                   session.project}
                               </p>
                               <p
                                 className="truncate text-xs text-muted-foreground"
-                                title={session.project}
+                                title={session.gitRemote ?? session.project}
                               >
-                                {session.project}
+                                {session.gitRepo ? formatRepo(session) : session.project}
                               </p>
                             </div>
                           </div>
-                          <div className="text-sm text-muted-foreground">
-                            {session.device.name}
+                          <div className="min-w-0 text-sm text-muted-foreground">
+                            <p className="truncate">{session.device.name}</p>
+                            {session.profile && (
+                              <p className="truncate text-xs" title={session.profile}>
+                                {session.profile}
+                              </p>
+                            )}
                           </div>
                           <div className="text-sm text-muted-foreground">
                             {formatRelativeTime(new Date(session.startedAt))}
                           </div>
-                          <div className="text-sm">
-                            {duration ? (
-                              <span className="text-muted-foreground">
+                          <div className="flex flex-col items-start gap-1 text-sm">
+                            <SessionStatusBadge status={session.status} />
+                            {duration !== null && (
+                              <span className="text-xs text-muted-foreground">
                                 {formatDuration(duration)}
                               </span>
-                            ) : (
-                              <Badge variant="success" className="text-xs">
-                                Active
-                              </Badge>
                             )}
                           </div>
                           <div className="text-right font-mono text-sm text-emerald-500">
@@ -32,11 +32,25 @@ import {
   AlertCircle,
   Bug,
   Zap,
+  Wallet,
+  Plus,
+  Webhook,
+  Send,
+  Copy,
+  Users,
+  UserPlus,
+  Building2,
+  Pencil,
+  KeyRound,
+  ShieldCheck,
+  ShieldOff,
 } from "lucide-react";
 import { Button } from "~/app/components/ui/button";
 import { Input } from "~/app/components/ui/input";
 import { Label } from "~/app/components/ui/label";
 import { Skeleton } from "~/app/components/ui/skeleton";
+import { Select } from "~/app/components/ui/select";
+import { Badge } from "~/app/components/ui/badge";
 import {
   Card,
   CardContent,
@@ -45,8 +59,10 @@ import {
   CardTitle,
 } from "~/app/components/ui/card";
 import { Layout } from "~/app/components/layout";
+import { TotpSetupDetails, RecoveryCodesList } from "~/app/components/two-factor";
+import { hasRole, type UserRole } from "@davidilie/claude-code-prometheus-shared";
 import { useTRPC } from "~/trpc/react";
-import { cn, formatNumber } from "~/app/lib/utils";
+import { cn, formatCurrency, formatNumber } from "~/app/lib/utils";
 
 export const Route = createFileRoute("/settings")({
   component: SettingsPage,
@@ -83,6 +99,19 @@ function formatLogTime(timestamp: Date | string): string {
   });
 }
 
+type BudgetScope = "global" | "device" | "project" | "model";
+type BudgetPeriod = "daily" | "monthly";
+
+const webhookEventOptions = [
+  { value: "budget.threshold", label: "Budget threshold" },
+  { value: "device.offline", label: "Device offline" },
+  { value: "device.registered", label: "Device registered" },
+  { value: "device.key_regenerated", label: "API key regenerated" },
+  { value: "pricing.refresh_failed", label: "Pricing refresh failed" },
+] as const;
+
+type WebhookEventType = (typeof webhookEventOptions)[number]["value"];
+
 function SettingsPage() {
   const navigate = useNavigate();
   const api = useTRPC();
@@ -100,6 +129,10 @@ function SettingsPage() {
     }
   }, [sessionLoading, sessionError, navigate]);
 
+  // Viewers get a read-only page, members can manage budgets, admins everything
+  const isAdmin = !!session && hasRole(session.role, "admin");
+  const canManage = !!session && hasRole(session.role, "member");
+
   const { data: settings, isLoading } = useQuery({
     ...api.settings.get.queryOptions(),
     enabled: !!session,
@@ -138,6 +171,180 @@ function SettingsPage() {
     })
   );
 
+  // Budgets state - members can only budget their own devices
+  const emptyBudget = {
+    name: "",
+    scope: (isAdmin ? "global" : "device") as BudgetScope,
+    scopeValue: "",
+    period: "monthly" as BudgetPeriod,
+    amountUSD: "",
+  };
+  const [newBudget, setNewBudget] = useState(emptyBudget);
+
+  useEffect(() => {
+    if (session && !isAdmin) {
+      setNewBudget((budget) => ({ ...budget, scope: "device", scopeValue: "" }));
+    }
+  }, [session, isAdmin]);
+
+  const { data: budgets } = useQuery({
+    ...api.budgets.list.queryOptions(),
+    refetchInterval: 60000,
+    enabled: !!session,
+  });
+  const { data: budgetAlerts } = useQuery({
+    ...api.budgets.alerts.queryOptions({ limit: 10 }),
+    refetchInterval: 60000,
+    enabled: !!session,
+  });
+  const { data: devices } = useQuery({
+    ...api.devices.list.queryOptions(),
+    enabled: !!session,
+  });
+
+  const invalidateBudgets = () => {
+    queryClient.invalidateQueries({ queryKey: api.budgets.list.queryKey() });
+    queryClient.invalidateQueries({ queryKey: api.budgets.alerts.queryKey() });
+  };
+
+  const createBudgetMutation = useMutation(
+    api.budgets.create.mutationOptions({
+      onSuccess: () => {
+        setNewBudget(emptyBudget);
+        invalidateBudgets();
+      },
+    })
+  );
+
+  const updateBudgetMutation = useMutation(
+    api.budgets.update.mutationOptions({
+      onSuccess: invalidateBudgets,
+    })
+  );
+
+  const deleteBudgetMutation = useMutation(
+    api.budgets.delete.mutationOptions({
+      onSuccess: invalidateBudgets,
+    })
+  );
+
+  const handleCreateBudget = (e: React.FormEvent) => {
+    e.preventDefault();
+    createBudgetMutation.mutate({
+      name: newBudget.name,
+      scope: newBudget.scope,
+      scopeValue: newBudget.scope === "global" ? null : newBudget.scopeValue,
+      period: newBudget.period,
+      amountUSD: parseFloat(newBudget.amountUSD),
+    });
+  };
+
+  const handleDeleteBudget = (id: string, name: string) => {
+    if (confirm(`Delete budget "${name}"? Its alert history will be removed too.`)) {
+      deleteBudgetMutation.mutate({ id });
+    }
+  };
+
+  const budgetScopeLabel = (scope: string, scopeValue: string | null) => {
+    if (scope === "global") return "All usage";
+    if (scope === "device") {
+      const device = devices?.find((d) => d.id === scopeValue);
+      return `Device: ${device?.name ?? scopeValue}`;
+    }
+    return `${scope === "project" ? "Project" : "Model"}: ${scopeValue}`;
+  };
+
+  // Webhooks state
+  const emptyWebhook = {
+    name: "",
+    url: "",
+    events: [] as WebhookEventType[],
+  };
+  const [newWebhook, setNewWebhook] = useState(emptyWebhook);
+  const [visibleSecrets, setVisibleSecrets] = useState<Record<string, boolean>>({});
+
+  const { data: webhooks } = useQuery({
+    ...api.webhooks.list.queryOptions(),
+    enabled: isAdmin,
+  });
+  const { data: webhookDeliveries, refetch: refetchDeliveries } = useQuery({
+    ...api.webhooks.deliveries.queryOptions({ limit: 20 }),
+    refetchInterval: 15000,
+    enabled: isAdmin,
+  });
+
+  const invalidateWebhooks = () => {
+    queryClient.invalidateQueries({ queryKey: api.webhooks.list.queryKey() });
+    queryClient.invalidateQueries({ queryKey: api.webhooks.deliveries.queryKey() });
+  };
+
+  const createWebhookMutation = useMutation(
+    api.webhooks.create.mutationOptions({
+      onSuccess: (webhook) => {
+        setNewWebhook(emptyWebhook);
+        setVisibleSecrets((prev) => ({ ...prev, [webhook.id]: true }));
+        invalidateWebhooks();
+      },
+    })
+  );
+
+  const updateWebhookMutation = useMutation(
+    api.webhooks.update.mutationOptions({
+      onSuccess: invalidateWebhooks,
+    })
+  );
+
+  const deleteWebhookMutation = useMutation(
+    api.webhooks.delete.mutationOptions({
+      onSuccess: invalidateWebhooks,
+    })
+  );
+
+  const regenerateSecretMutation = useMutation(
+    api.webhooks.regenerateSecret.mutationOptions({
+      onSuccess: invalidateWebhooks,
+    })
+  );
+
+  const testWebhookMutation = useMutation(
+    api.webhooks.test.mutationOptions({
+      onSettled: () => refetchDeliveries(),
+    })
+  );
+
+  const redeliverMutation = useMutation(
+    api.webhooks.redeliver.mutationOptions({
+      onSettled: () => refetchDeliveries(),
+    })
+  );
+
+  const handleCreateWebhook = (e: React.FormEvent) => {
+    e.preventDefault();
+    createWebhookMutation.mutate(newWebhook);
+  };
+
+  const toggleNewWebhookEvent = (event: WebhookEventType) => {
+    setNewWebhook({
+      ...newWebhook,
+      events: newWebhook.events.includes(event)
+        ? newWebhook.events.filter((e) => e !== event)
+        : [...newWebhook.events, event],
+    });
+  };
+
+  const handleDeleteWebhook = (id: string, name: string) => {
+    if (confirm(`Delete webhook "${name}"? Its delivery log will be removed too.`)) {
+      deleteWebhookMutation.mutate({ id });
+    }
+  };
+
+  const handleRegenerateSecret = (id: string, name: string) => {
+    if (confirm(`Regenerate the signing secret for "${name}"? The receiver must be updated to verify new deliveries.`)) {
+      regenerateSecretMutation.mutate({ id });
+      setVisibleSecrets((prev) => ({ ...prev, [id]: true }));
+    }
+  };
+
   const [formData, setFormData] = useState<{
     serverName?: string;
     serverUrl?: string;
@@ -147,6 +354,7 @@ function SettingsPage() {
     prometheusPort?: number;
     retentionDays?: number;
     autoUpdatePricing?: boolean;
+    sessionIdleTimeoutMinutes?: number;
   }>({});
 
   const [passwordData, setPasswordData] = useState({
@@ -229,6 +437,7 @@ function SettingsPage() {
         prometheusPort: settings.prometheusPort,
         retentionDays: settings.retentionDays,
         autoUpdatePricing: settings.autoUpdatePricing,
+        sessionIdleTimeoutMinutes: settings.sessionIdleTimeoutMinutes,
       });
     }
   }, [settings, formData]);
@@ -255,386 +464,948 @@ function SettingsPage() {
     <Layout
       title="Settings"
       actions={
-        <Button
-          onClick={handleSave}
-          disabled={updateMutation.isPending}
-          className={cn(
-            "gap-2 transition-colors",
-            saveSuccess && "bg-emerald-600 hover:bg-emerald-600"
-          )}
-        >
-          {saveSuccess ? (
-            <>
-              <CheckCircle className="h-4 w-4" />
-              Saved!
-            </>
-          ) : updateMutation.isPending ? (
-            <>
-              <span className="h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
-              Saving...
-            </>
-          ) : (
-            <>
-              <Save className="h-4 w-4" />
-              Save Changes
-            </>
-          )}
-        </Button>
+        isAdmin && (
+          <Button
+            onClick={handleSave}
+            disabled={updateMutation.isPending}
+            className={cn(
+              "gap-2 transition-colors",
+              saveSuccess && "bg-emerald-600 hover:bg-emerald-600"
+            )}
+          >
+            {saveSuccess ? (
+              <>
+                <CheckCircle className="h-4 w-4" />
+                Saved!
+              </>
+            ) : updateMutation.isPending ? (
+              <>
+                <span className="h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+                Saving...
+              </>
+            ) : (
+              <>
+                <Save className="h-4 w-4" />
+                Save Changes
+              </>
+            )}
+          </Button>
+        )
       }
     >
       <div className="space-y-6">
-        {/* Server Configuration */}
-        <Card>
-          <CardHeader className="pb-4">
-            <div className="flex items-center gap-3">
-              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10">
-                <Server className="h-5 w-5 text-primary" />
-              </div>
-              <div>
-                <CardTitle>Server Configuration</CardTitle>
-                <CardDescription>
-                  Configure your server name, URL, and regional settings
-                </CardDescription>
-              </div>
-            </div>
-          </CardHeader>
-          <CardContent>
-            {isLoading ? (
-              <div className="grid gap-4 sm:grid-cols-2">
-                {Array.from({ length: 4 }).map((_, i) => (
-                  <div key={i} className="space-y-2">
-                    <Skeleton className="h-4 w-24" />
-                    <Skeleton className="h-10 w-full" />
+        {isAdmin && (
+          <>
+            {/* Server Configuration */}
+            <Card>
+              <CardHeader className="pb-4">
+                <div className="flex items-center gap-3">
+                  <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10">
+                    <Server className="h-5 w-5 text-primary" />
+                  </div>
+                  <div>
+                    <CardTitle>Server Configuration</CardTitle>
+                    <CardDescription>
+                      Configure your server name, URL, and regional settings
+                    </CardDescription>
                   </div>
-                ))}
-              </div>
-            ) : (
-              <div className="grid gap-4 sm:grid-cols-2">
-                <div className="space-y-2">
-                  <Label
-                    htmlFor="serverName"
-                    className="text-xs uppercase tracking-wider text-muted-foreground"
-                  >
-                    Server Name
-                  </Label>
-                  <Input
-                    id="serverName"
-                    value={formData.serverName ?? ""}
-                    onChange={(e) =>
-                      setFormData({ ...formData, serverName: e.target.value })
-                    }
-                    placeholder="My Homelab"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label
-                    htmlFor="serverUrl"
-                    className="text-xs uppercase tracking-wider text-muted-foreground"
-                  >
-                    Server URL
-                  </Label>
-                  <Input
-                    id="serverUrl"
-                    value={formData.serverUrl ?? ""}
-                    onChange={(e) =>
-                      setFormData({ ...formData, serverUrl: e.target.value })
-                    }
-                    placeholder="https://claude-tracker.local"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label
-                    htmlFor="timezone"
-                    className="text-xs uppercase tracking-wider text-muted-foreground"
-                  >
-                    Timezone
-                  </Label>
-                  <Input
-                    id="timezone"
-                    value={formData.timezone ?? ""}
-                    onChange={(e) =>
-                      setFormData({ ...formData, timezone: e.target.value })
-                    }
-                    placeholder="America/New_York"
-                  />
                 </div>
-                <div className="space-y-2">
-                  <Label
-                    htmlFor="currency"
-                    className="text-xs uppercase tracking-wider text-muted-foreground"
-                  >
-                    Currency
-                  </Label>
-                  <div className="flex gap-2">
-                    {currencies.map((currency) => (
-                      <button
-                        key={currency.value}
-                        type="button"
-                        onClick={() =>
-                          setFormData({
-                            ...formData,
-                            currency: currency.value as "USD" | "EUR" | "GBP",
-                          })
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    {Array.from({ length: 4 }).map((_, i) => (
+                      <div key={i} className="space-y-2">
+                        <Skeleton className="h-4 w-24" />
+                        <Skeleton className="h-10 w-full" />
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label
+                        htmlFor="serverName"
+                        className="text-xs uppercase tracking-wider text-muted-foreground"
+                      >
+                        Server Name
+                      </Label>
+                      <Input
+                        id="serverName"
+                        value={formData.serverName ?? ""}
+                        onChange={(e) =>
+                          setFormData({ ...formData, serverName: e.target.value })
+                        }
+                        placeholder="My Homelab"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label
+                        htmlFor="serverUrl"
+                        className="text-xs uppercase tracking-wider text-muted-foreground"
+                      >
+                        Server URL
+                      </Label>
+                      <Input
+                        id="serverUrl"
+                        value={formData.serverUrl ?? ""}
+                        onChange={(e) =>
+                          setFormData({ ...formData, serverUrl: e.target.value })
+                        }
+                        placeholder="https://claude-tracker.local"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label
+                        htmlFor="timezone"
+                        className="text-xs uppercase tracking-wider text-muted-foreground"
+                      >
+                        Timezone
+                      </Label>
+                      <Input
+                        id="timezone"
+                        value={formData.timezone ?? ""}
+                        onChange={(e) =>
+                          setFormData({ ...formData, timezone: e.target.value })
                         }
+                        placeholder="America/New_York"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label
+                        htmlFor="currency"
+                        className="text-xs uppercase tracking-wider text-muted-foreground"
+                      >
+                        Currency
+                      </Label>
+                      <div className="flex gap-2">
+                        {currencies.map((currency) => (
+                          <button
+                            key={currency.value}
+                            type="button"
+                            onClick={() =>
+                              setFormData({
+                                ...formData,
+                                currency: currency.value as "USD" | "EUR" | "GBP",
+                              })
+                            }
+                            className={cn(
+                              "flex-1 rounded-lg border px-3 py-2 text-sm font-medium transition-colors",
+                              formData.currency === currency.value
+                                ? "border-primary bg-primary/10 text-primary"
+                                : "border-border bg-secondary/30 text-muted-foreground hover:bg-secondary/50"
+                            )}
+                          >
+                            {currency.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Data & Storage */}
+            <Card>
+              <CardHeader className="pb-4">
+                <div className="flex items-center gap-3">
+                  <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-accent/10">
+                    <Database className="h-5 w-5 text-accent" />
+                  </div>
+                  <div>
+                    <CardTitle>Data & Storage</CardTitle>
+                    <CardDescription>
+                      Manage data retention and storage settings
+                    </CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label
+                      htmlFor="retentionDays"
+                      className="text-xs uppercase tracking-wider text-muted-foreground"
+                    >
+                      Data Retention (days)
+                    </Label>
+                    <Input
+                      id="retentionDays"
+                      type="number"
+                      value={formData.retentionDays ?? 90}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          retentionDays: parseInt(e.target.value, 10),
+                        })
+                      }
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Data older than this will be eligible for cleanup
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-xs uppercase tracking-wider text-muted-foreground">
+                      Auto-update Pricing
+                    </Label>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setFormData({
+                          ...formData,
+                          autoUpdatePricing: !formData.autoUpdatePricing,
+                        })
+                      }
+                      className={cn(
+                        "flex w-full items-center justify-between rounded-lg border px-4 py-2 transition-colors",
+                        formData.autoUpdatePricing
+                          ? "border-emerald-500/30 bg-emerald-500/10"
+                          : "border-border bg-secondary/30"
+                      )}
+                    >
+                      <span className="text-sm">
+                        {formData.autoUpdatePricing ? "Enabled" : "Disabled"}
+                      </span>
+                      <div
                         className={cn(
-                          "flex-1 rounded-lg border px-3 py-2 text-sm font-medium transition-colors",
-                          formData.currency === currency.value
-                            ? "border-primary bg-primary/10 text-primary"
-                            : "border-border bg-secondary/30 text-muted-foreground hover:bg-secondary/50"
+                          "h-5 w-9 rounded-full p-0.5 transition-colors",
+                          formData.autoUpdatePricing ? "bg-emerald-500" : "bg-muted"
                         )}
                       >
-                        {currency.label}
-                      </button>
-                    ))}
+                        <div
+                          className={cn(
+                            "h-4 w-4 rounded-full bg-white transition-transform",
+                            formData.autoUpdatePricing && "translate-x-4"
+                          )}
+                        />
+                      </div>
+                    </button>
+                    <p className="text-xs text-muted-foreground">
+                      Fetch latest pricing from LiteLLM daily
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label
+                      htmlFor="sessionIdleTimeoutMinutes"
+                      className="text-xs uppercase tracking-wider text-muted-foreground"
+                    >
+                      Session Idle Timeout (minutes)
+                    </Label>
+                    <Input
+                      id="sessionIdleTimeoutMinutes"
+                      type="number"
+                      min={1}
+                      value={formData.sessionIdleTimeoutMinutes ?? 30}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          sessionIdleTimeoutMinutes: parseInt(e.target.value, 10),
+                        })
+                      }
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Sessions with no new activity for this long are marked as ended
+                    </p>
                   </div>
                 </div>
-              </div>
-            )}
-          </CardContent>
-        </Card>
 
-        {/* Data & Storage */}
-        <Card>
-          <CardHeader className="pb-4">
-            <div className="flex items-center gap-3">
-              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-accent/10">
-                <Database className="h-5 w-5 text-accent" />
-              </div>
-              <div>
-                <CardTitle>Data & Storage</CardTitle>
-                <CardDescription>
-                  Manage data retention and storage settings
-                </CardDescription>
-              </div>
-            </div>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="grid gap-4 sm:grid-cols-2">
-              <div className="space-y-2">
-                <Label
-                  htmlFor="retentionDays"
-                  className="text-xs uppercase tracking-wider text-muted-foreground"
+                {/* Database Stats */}
+                {dbStats && (
+                  <div className="rounded-lg border border-border bg-secondary/30 p-4">
+                    <h4 className="mb-3 text-sm font-medium">Database Statistics</h4>
+                    <div className="grid gap-4 sm:grid-cols-3">
+                      <div className="flex items-center gap-3">
+                        <div className="flex h-9 w-9 items-center justify-center rounded-lg bg-primary/10">
+                          <HardDrive className="h-4 w-4 text-primary" />
+                        </div>
+                        <div>
+                          <p className="text-xs text-muted-foreground">Devices</p>
+                          <p className="font-mono text-lg font-semibold">
+                            {formatNumber(dbStats.devices)}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <div className="flex h-9 w-9 items-center justify-center rounded-lg bg-accent/10">
+                          <Layers className="h-4 w-4 text-accent" />
+                        </div>
+                        <div>
+                          <p className="text-xs text-muted-foreground">Sessions</p>
+                          <p className="font-mono text-lg font-semibold">
+                            {formatNumber(dbStats.sessions)}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <div className="flex h-9 w-9 items-center justify-center rounded-lg bg-emerald-500/10">
+                          <FileText className="h-4 w-4 text-emerald-500" />
+                        </div>
+                        <div>
+                          <p className="text-xs text-muted-foreground">Entries</p>
+                          <p className="font-mono text-lg font-semibold">
+                            {formatNumber(dbStats.entries)}
+                          </p>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                <Button
+                  variant="outline"
+                  onClick={handleClearOldData}
+                  disabled={clearDataMutation.isPending}
+                  className="gap-2"
                 >
-                  Data Retention (days)
-                </Label>
-                <Input
-                  id="retentionDays"
-                  type="number"
-                  value={formData.retentionDays ?? 90}
-                  onChange={(e) =>
-                    setFormData({
-                      ...formData,
-                      retentionDays: parseInt(e.target.value, 10),
-                    })
-                  }
-                />
-                <p className="text-xs text-muted-foreground">
-                  Data older than this will be eligible for cleanup
-                </p>
-              </div>
-              <div className="space-y-2">
-                <Label className="text-xs uppercase tracking-wider text-muted-foreground">
-                  Auto-update Pricing
-                </Label>
+                  {clearDataMutation.isPending ? (
+                    <>
+                      <span className="h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+                      Clearing...
+                    </>
+                  ) : (
+                    <>
+                      <Trash2 className="h-4 w-4" />
+                      Clear Old Data
+                    </>
+                  )}
+                </Button>
+                {clearDataMutation.isSuccess && (
+                  <p className="text-sm text-emerald-500">
+                    Deleted {clearDataMutation.data?.deletedEntries} old entries
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Prometheus Metrics */}
+            <Card>
+              <CardHeader className="pb-4">
+                <div className="flex items-center gap-3">
+                  <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-violet-500/10">
+                    <Activity className="h-5 w-5 text-violet-500" />
+                  </div>
+                  <div>
+                    <CardTitle>Prometheus Metrics</CardTitle>
+                    <CardDescription>
+                      Configure the Prometheus metrics endpoint
+                    </CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
                 <button
                   type="button"
                   onClick={() =>
                     setFormData({
                       ...formData,
-                      autoUpdatePricing: !formData.autoUpdatePricing,
+                      enablePrometheus: !formData.enablePrometheus,
                     })
                   }
                   className={cn(
-                    "flex w-full items-center justify-between rounded-lg border px-4 py-2 transition-colors",
-                    formData.autoUpdatePricing
-                      ? "border-emerald-500/30 bg-emerald-500/10"
+                    "flex w-full items-center justify-between rounded-lg border px-4 py-3 transition-colors",
+                    formData.enablePrometheus
+                      ? "border-violet-500/30 bg-violet-500/10"
                       : "border-border bg-secondary/30"
                   )}
                 >
-                  <span className="text-sm">
-                    {formData.autoUpdatePricing ? "Enabled" : "Disabled"}
-                  </span>
+                  <div className="flex items-center gap-3">
+                    <Activity
+                      className={cn(
+                        "h-5 w-5",
+                        formData.enablePrometheus
+                          ? "text-violet-500"
+                          : "text-muted-foreground"
+                      )}
+                    />
+                    <div className="text-left">
+                      <p className="text-sm font-medium">Enable Prometheus Metrics</p>
+                      <p className="text-xs text-muted-foreground">
+                        Expose metrics at /metrics endpoint
+                      </p>
+                    </div>
+                  </div>
                   <div
                     className={cn(
                       "h-5 w-9 rounded-full p-0.5 transition-colors",
-                      formData.autoUpdatePricing ? "bg-emerald-500" : "bg-muted"
+                      formData.enablePrometheus ? "bg-violet-500" : "bg-muted"
                     )}
                   >
                     <div
                       className={cn(
                         "h-4 w-4 rounded-full bg-white transition-transform",
-                        formData.autoUpdatePricing && "translate-x-4"
+                        formData.enablePrometheus && "translate-x-4"
                       )}
                     />
                   </div>
                 </button>
-                <p className="text-xs text-muted-foreground">
-                  Fetch latest pricing from LiteLLM daily
-                </p>
-              </div>
-            </div>
 
-            {/* Database Stats */}
-            {dbStats && (
-              <div className="rounded-lg border border-border bg-secondary/30 p-4">
-                <h4 className="mb-3 text-sm font-medium">Database Statistics</h4>
-                <div className="grid gap-4 sm:grid-cols-3">
-                  <div className="flex items-center gap-3">
-                    <div className="flex h-9 w-9 items-center justify-center rounded-lg bg-primary/10">
-                      <HardDrive className="h-4 w-4 text-primary" />
-                    </div>
-                    <div>
-                      <p className="text-xs text-muted-foreground">Devices</p>
-                      <p className="font-mono text-lg font-semibold">
-                        {formatNumber(dbStats.devices)}
-                      </p>
-                    </div>
-                  </div>
-                  <div className="flex items-center gap-3">
-                    <div className="flex h-9 w-9 items-center justify-center rounded-lg bg-accent/10">
-                      <Layers className="h-4 w-4 text-accent" />
-                    </div>
-                    <div>
-                      <p className="text-xs text-muted-foreground">Sessions</p>
-                      <p className="font-mono text-lg font-semibold">
-                        {formatNumber(dbStats.sessions)}
-                      </p>
-                    </div>
-                  </div>
-                  <div className="flex items-center gap-3">
-                    <div className="flex h-9 w-9 items-center justify-center rounded-lg bg-emerald-500/10">
-                      <FileText className="h-4 w-4 text-emerald-500" />
-                    </div>
-                    <div>
-                      <p className="text-xs text-muted-foreground">Entries</p>
-                      <p className="font-mono text-lg font-semibold">
-                        {formatNumber(dbStats.entries)}
-                      </p>
+                {formData.enablePrometheus && (
+                  <div className="space-y-2">
+                    <Label
+                      htmlFor="prometheusPort"
+                      className="text-xs uppercase tracking-wider text-muted-foreground"
+                    >
+                      Metrics Port
+                    </Label>
+                    <Input
+                      id="prometheusPort"
+                      type="number"
+                      value={formData.prometheusPort ?? 9090}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          prometheusPort: parseInt(e.target.value, 10),
+                        })
+                      }
+                      className="max-w-[200px]"
+                    />
+                    <div className="flex items-center gap-2 rounded-lg border border-border bg-secondary/30 px-3 py-2">
+                      <span className="text-xs text-muted-foreground">Endpoint:</span>
+                      <code className="font-mono text-xs text-primary">
+                        http://localhost:{formData.prometheusPort ?? 9090}/metrics
+                      </code>
                     </div>
                   </div>
-                </div>
-              </div>
-            )}
-
-            <Button
-              variant="outline"
-              onClick={handleClearOldData}
-              disabled={clearDataMutation.isPending}
-              className="gap-2"
-            >
-              {clearDataMutation.isPending ? (
-                <>
-                  <span className="h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
-                  Clearing...
-                </>
-              ) : (
-                <>
-                  <Trash2 className="h-4 w-4" />
-                  Clear Old Data
-                </>
-              )}
-            </Button>
-            {clearDataMutation.isSuccess && (
-              <p className="text-sm text-emerald-500">
-                Deleted {clearDataMutation.data?.deletedEntries} old entries
-              </p>
-            )}
-          </CardContent>
-        </Card>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
 
-        {/* Prometheus Metrics */}
+        {/* Budgets */}
         <Card>
           <CardHeader className="pb-4">
             <div className="flex items-center gap-3">
-              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-violet-500/10">
-                <Activity className="h-5 w-5 text-violet-500" />
+              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-amber-500/10">
+                <Wallet className="h-5 w-5 text-amber-500" />
               </div>
               <div>
-                <CardTitle>Prometheus Metrics</CardTitle>
+                <CardTitle>Budgets</CardTitle>
                 <CardDescription>
-                  Configure the Prometheus metrics endpoint
+                  Daily or monthly spend limits with alerts at 50%, 80% and 100%
                 </CardDescription>
               </div>
             </div>
           </CardHeader>
           <CardContent className="space-y-4">
-            <button
-              type="button"
-              onClick={() =>
-                setFormData({
-                  ...formData,
-                  enablePrometheus: !formData.enablePrometheus,
-                })
-              }
-              className={cn(
-                "flex w-full items-center justify-between rounded-lg border px-4 py-3 transition-colors",
-                formData.enablePrometheus
-                  ? "border-violet-500/30 bg-violet-500/10"
-                  : "border-border bg-secondary/30"
-              )}
-            >
-              <div className="flex items-center gap-3">
-                <Activity
-                  className={cn(
-                    "h-5 w-5",
-                    formData.enablePrometheus
-                      ? "text-violet-500"
-                      : "text-muted-foreground"
-                  )}
-                />
-                <div className="text-left">
-                  <p className="text-sm font-medium">Enable Prometheus Metrics</p>
-                  <p className="text-xs text-muted-foreground">
-                    Expose metrics at /metrics endpoint
-                  </p>
-                </div>
-              </div>
-              <div
-                className={cn(
-                  "h-5 w-9 rounded-full p-0.5 transition-colors",
-                  formData.enablePrometheus ? "bg-violet-500" : "bg-muted"
-                )}
-              >
-                <div
-                  className={cn(
-                    "h-4 w-4 rounded-full bg-white transition-transform",
-                    formData.enablePrometheus && "translate-x-4"
-                  )}
-                />
+            {/* Existing budgets */}
+            {budgets && budgets.length > 0 ? (
+              <div className="space-y-3">
+                {budgets.map((budget) => {
+                  const percent = Math.round(budget.utilization * 100);
+                  return (
+                    <div
+                      key={budget.id}
+                      className="rounded-lg border border-border bg-secondary/30 p-4"
+                    >
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="min-w-0">
+                          <p className="truncate text-sm font-medium">{budget.name}</p>
+                          <p className="truncate text-xs text-muted-foreground">
+                            {budgetScopeLabel(budget.scope, budget.scopeValue)} ·{" "}
+                            {budget.period === "daily" ? "Daily" : "Monthly"}
+                          </p>
+                        </div>
+                        {canManage && (
+                          <div className="flex shrink-0 items-center gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() =>
+                                updateBudgetMutation.mutate({
+                                  id: budget.id,
+                                  enabled: !budget.enabled,
+                                })
+                              }
+                              disabled={updateBudgetMutation.isPending}
+                            >
+                              {budget.enabled ? "Disable" : "Enable"}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDeleteBudget(budget.id, budget.name)}
+                              disabled={deleteBudgetMutation.isPending}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                      <div className="mt-3 space-y-1">
+                        <div className="flex justify-between text-xs">
+                          <span className="font-mono">
+                            {formatCurrency(budget.spendUSD)} / {formatCurrency(budget.amountUSD)}
+                          </span>
+                          <span
+                            className={cn(
+                              "font-mono",
+                              percent >= 100
+                                ? "text-red-500"
+                                : percent >= 80
+                                  ? "text-amber-500"
+                                  : "text-muted-foreground"
+                            )}
+                          >
+                            {budget.enabled ? `${percent}%` : "Disabled"}
+                          </span>
+                        </div>
+                        <div className="h-2 overflow-hidden rounded-full bg-muted">
+                          <div
+                            className={cn(
+                              "h-full rounded-full transition-all",
+                              !budget.enabled
+                                ? "bg-muted-foreground/30"
+                                : percent >= 100
+                                  ? "bg-red-500"
+                                  : percent >= 80
+                                    ? "bg-amber-500"
+                                    : "bg-emerald-500"
+                            )}
+                            style={{ width: `${Math.min(percent, 100)}%` }}
+                          />
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
               </div>
-            </button>
+            ) : (
+              <p className="text-sm text-muted-foreground">No budgets configured yet</p>
+            )}
 
-            {formData.enablePrometheus && (
-              <div className="space-y-2">
-                <Label
-                  htmlFor="prometheusPort"
-                  className="text-xs uppercase tracking-wider text-muted-foreground"
+            {canManage && (
+              <>
+                {/* New budget */}
+                <form
+                  onSubmit={handleCreateBudget}
+                  className="space-y-4 rounded-lg border border-border p-4"
                 >
-                  Metrics Port
-                </Label>
-                <Input
-                  id="prometheusPort"
-                  type="number"
-                  value={formData.prometheusPort ?? 9090}
-                  onChange={(e) =>
-                    setFormData({
-                      ...formData,
-                      prometheusPort: parseInt(e.target.value, 10),
-                    })
-                  }
-                  className="max-w-[200px]"
-                />
-                <div className="flex items-center gap-2 rounded-lg border border-border bg-secondary/30 px-3 py-2">
-                  <span className="text-xs text-muted-foreground">Endpoint:</span>
-                  <code className="font-mono text-xs text-primary">
-                    http://localhost:{formData.prometheusPort ?? 9090}/metrics
-                  </code>
+                  <h4 className="text-sm font-medium">Add Budget</h4>
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label
+                        htmlFor="budgetName"
+                        className="text-xs uppercase tracking-wider text-muted-foreground"
+                      >
+                        Name
+                      </Label>
+                      <Input
+                        id="budgetName"
+                        value={newBudget.name}
+                        onChange={(e) => setNewBudget({ ...newBudget, name: e.target.value })}
+                        placeholder="Monthly team budget"
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label
+                        htmlFor="budgetAmount"
+                        className="text-xs uppercase tracking-wider text-muted-foreground"
+                      >
+                        Amount (USD)
+                      </Label>
+                      <Input
+                        id="budgetAmount"
+                        type="number"
+                        min={0.01}
+                        step={0.01}
+                        value={newBudget.amountUSD}
+                        onChange={(e) => setNewBudget({ ...newBudget, amountUSD: e.target.value })}
+                        placeholder="100"
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label
+                        htmlFor="budgetScope"
+                        className="text-xs uppercase tracking-wider text-muted-foreground"
+                      >
+                        Scope
+                      </Label>
+                      <Select
+                        id="budgetScope"
+                        value={newBudget.scope}
+                        onChange={(e) =>
+                          setNewBudget({
+                            ...newBudget,
+                            scope: e.target.value as BudgetScope,
+                            scopeValue: "",
+                          })
+                        }
+                        options={
+                          isAdmin
+                            ? [
+                                { value: "global", label: "All usage" },
+                                { value: "device", label: "Device" },
+                                { value: "project", label: "Project" },
+                                { value: "model", label: "Model" },
+                              ]
+                            : [{ value: "device", label: "Device" }]
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label className="text-xs uppercase tracking-wider text-muted-foreground">
+                        Period
+                      </Label>
+                      <div className="flex gap-2">
+                        {(["daily", "monthly"] as const).map((period) => (
+                          <button
+                            key={period}
+                            type="button"
+                            onClick={() => setNewBudget({ ...newBudget, period })}
+                            className={cn(
+                              "flex-1 rounded-lg border px-3 py-2 text-sm font-medium capitalize transition-colors",
+                              newBudget.period === period
+                                ? "border-primary bg-primary/10 text-primary"
+                                : "border-border bg-secondary/30 text-muted-foreground hover:bg-secondary/50"
+                            )}
+                          >
+                            {period}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    {newBudget.scope === "device" && (
+                      <div className="space-y-2 sm:col-span-2">
+                        <Label
+                          htmlFor="budgetDevice"
+                          className="text-xs uppercase tracking-wider text-muted-foreground"
+                        >
+                          Device
+                        </Label>
+                        <Select
+                          id="budgetDevice"
+                          value={newBudget.scopeValue}
+                          onChange={(e) => setNewBudget({ ...newBudget, scopeValue: e.target.value })}
+                          options={[
+                            { value: "", label: "Select a device" },
+                            ...(devices ?? []).map((device) => ({
+                              value: device.id,
+                              label: device.name,
+                            })),
+                          ]}
+                          required
+                        />
+                      </div>
+                    )}
+                    {(newBudget.scope === "project" || newBudget.scope === "model") && (
+                      <div className="space-y-2 sm:col-span-2">
+                        <Label
+                          htmlFor="budgetScopeValue"
+                          className="text-xs uppercase tracking-wider text-muted-foreground"
+                        >
+                          {newBudget.scope === "project" ? "Project" : "Model"}
+                        </Label>
+                        <Input
+                          id="budgetScopeValue"
+                          value={newBudget.scopeValue}
+                          onChange={(e) => setNewBudget({ ...newBudget, scopeValue: e.target.value })}
+                          placeholder={
+                            newBudget.scope === "project"
+                              ? "/home/user/my-project"
+                              : "claude-sonnet-4-20250514"
+                          }
+                          required
+                        />
+                      </div>
+                    )}
+                  </div>
+                  {createBudgetMutation.error && (
+                    <p className="text-sm text-red-500">{createBudgetMutation.error.message}</p>
+                  )}
+                  <Button type="submit" disabled={createBudgetMutation.isPending} className="gap-2">
+                    <Plus className="h-4 w-4" />
+                    {createBudgetMutation.isPending ? "Adding..." : "Add Budget"}
+                  </Button>
+                </form>
+              </>
+            )}
+
+            {/* Recent alerts */}
+            {budgetAlerts && budgetAlerts.length > 0 && (
+              <div className="rounded-lg border border-border bg-secondary/30 p-4">
+                <h4 className="mb-3 text-sm font-medium">Recent Alerts</h4>
+                <div className="space-y-2">
+                  {budgetAlerts.map((alert) => (
+                    <div key={alert.id} className="flex items-center gap-3 text-sm">
+                      <AlertTriangle
+                        className={cn(
+                          "h-4 w-4 shrink-0",
+                          alert.threshold >= 100
+                            ? "text-red-500"
+                            : alert.threshold >= 80
+                              ? "text-amber-500"
+                              : "text-muted-foreground"
+                        )}
+                      />
+                      <span className="min-w-0 flex-1 truncate">
+                        {alert.budget.name} reached {alert.threshold}% (
+                        {formatCurrency(alert.spendUSD)} of {formatCurrency(alert.amountUSD)})
+                      </span>
+                      <span className="shrink-0 text-xs text-muted-foreground">
+                        {new Date(alert.createdAt).toLocaleString()}
+                      </span>
+                    </div>
+                  ))}
                 </div>
               </div>
             )}
           </CardContent>
         </Card>
 
+        {isAdmin && (
+          <>
+            {/* Webhooks */}
+            <Card>
+              <CardHeader className="pb-4">
+                <div className="flex items-center gap-3">
+                  <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-sky-500/10">
+                    <Webhook className="h-5 w-5 text-sky-500" />
+                  </div>
+                  <div>
+                    <CardTitle>Webhooks</CardTitle>
+                    <CardDescription>
+                      POST signed JSON to your own endpoints when server events happen
+                    </CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {/* Existing webhooks */}
+                {webhooks && webhooks.length > 0 ? (
+                  <div className="space-y-3">
+                    {webhooks.map((webhook) => (
+                      <div
+                        key={webhook.id}
+                        className="space-y-3 rounded-lg border border-border bg-secondary/30 p-4"
+                      >
+                        <div className="flex items-start justify-between gap-4">
+                          <div className="min-w-0">
+                            <div className="flex items-center gap-2">
+                              <p className="truncate text-sm font-medium">{webhook.name}</p>
+                              {!webhook.enabled && <Badge variant="offline">Disabled</Badge>}
+                            </div>
+                            <p className="truncate font-mono text-xs text-muted-foreground">
+                              {webhook.url}
+                            </p>
+                          </div>
+                          <div className="flex shrink-0 items-center gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => testWebhookMutation.mutate({ id: webhook.id })}
+                              disabled={testWebhookMutation.isPending}
+                              className="gap-2"
+                            >
+                              <Send className="h-4 w-4" />
+                              Test
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() =>
+                                updateWebhookMutation.mutate({
+                                  id: webhook.id,
+                                  enabled: !webhook.enabled,
+                                })
+                              }
+                              disabled={updateWebhookMutation.isPending}
+                            >
+                              {webhook.enabled ? "Disable" : "Enable"}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDeleteWebhook(webhook.id, webhook.name)}
+                              disabled={deleteWebhookMutation.isPending}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                        <div className="flex flex-wrap gap-1">
+                          {webhook.events.map((event) => (
+                            <Badge key={event} variant="secondary">
+                              {event}
+                            </Badge>
+                          ))}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs text-muted-foreground">Secret:</span>
+                          <code className="min-w-0 flex-1 truncate font-mono text-xs">
+                            {visibleSecrets[webhook.id] ? webhook.secret : "whsec_••••••••••••••••"}
+                          </code>
+                          <button
+                            type="button"
+                            onClick={() =>
+                              setVisibleSecrets((prev) => ({
+                                ...prev,
+                                [webhook.id]: !prev[webhook.id],
+                              }))
+                            }
+                            className="text-muted-foreground hover:text-foreground"
+                          >
+                            {visibleSecrets[webhook.id] ? (
+                              <EyeOff className="h-4 w-4" />
+                            ) : (
+                              <Eye className="h-4 w-4" />
+                            )}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => navigator.clipboard.writeText(webhook.secret)}
+                            className="text-muted-foreground hover:text-foreground"
+                          >
+                            <Copy className="h-4 w-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleRegenerateSecret(webhook.id, webhook.name)}
+                            disabled={regenerateSecretMutation.isPending}
+                            className="text-muted-foreground hover:text-foreground"
+                          >
+                            <RefreshCw className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No webhooks configured yet</p>
+                )}
+
+                {/* New webhook */}
+                <form
+                  onSubmit={handleCreateWebhook}
+                  className="space-y-4 rounded-lg border border-border p-4"
+                >
+                  <h4 className="text-sm font-medium">Add Webhook</h4>
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label
+                        htmlFor="webhookName"
+                        className="text-xs uppercase tracking-wider text-muted-foreground"
+                      >
+                        Name
+                      </Label>
+                      <Input
+                        id="webhookName"
+                        value={newWebhook.name}
+                        onChange={(e) => setNewWebhook({ ...newWebhook, name: e.target.value })}
+                        placeholder="Slack relay"
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label
+                        htmlFor="webhookUrl"
+                        className="text-xs uppercase tracking-wider text-muted-foreground"
+                      >
+                        URL
+                      </Label>
+                      <Input
+                        id="webhookUrl"
+                        type="url"
+                        value={newWebhook.url}
+                        onChange={(e) => setNewWebhook({ ...newWebhook, url: e.target.value })}
+                        placeholder="https://example.com/hooks/claude"
+                        required
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-xs uppercase tracking-wider text-muted-foreground">
+                      Events
+                    </Label>
+                    <div className="flex flex-wrap gap-2">
+                      {webhookEventOptions.map((option) => (
+                        <button
+                          key={option.value}
+                          type="button"
+                          onClick={() => toggleNewWebhookEvent(option.value)}
+                          className={cn(
+                            "rounded-lg border px-3 py-1.5 text-xs font-medium transition-colors",
+                            newWebhook.events.includes(option.value)
+                              ? "border-primary bg-primary/10 text-primary"
+                              : "border-border bg-secondary/30 text-muted-foreground hover:bg-secondary/50"
+                          )}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  {createWebhookMutation.error && (
+                    <p className="text-sm text-red-500">{createWebhookMutation.error.message}</p>
+                  )}
+                  <Button
+                    type="submit"
+                    disabled={createWebhookMutation.isPending || newWebhook.events.length === 0}
+                    className="gap-2"
+                  >
+                    <Plus className="h-4 w-4" />
+                    {createWebhookMutation.isPending ? "Adding..." : "Add Webhook"}
+                  </Button>
+                </form>
+
+                {/* Delivery log */}
+                {webhookDeliveries && webhookDeliveries.length > 0 && (
+                  <div className="rounded-lg border border-border bg-secondary/30 p-4">
+                    <h4 className="mb-3 text-sm font-medium">Recent Deliveries</h4>
+                    <div className="space-y-2">
+                      {webhookDeliveries.map((delivery) => (
+                        <div key={delivery.id} className="flex items-center gap-3 text-sm">
+                          {delivery.status === "success" ? (
+                            <CheckCircle className="h-4 w-4 shrink-0 text-emerald-500" />
+                          ) : delivery.status === "failed" ? (
+                            <XCircle className="h-4 w-4 shrink-0 text-red-500" />
+                          ) : (
+                            <Clock className="h-4 w-4 shrink-0 text-amber-500" />
+                          )}
+                          <div className="min-w-0 flex-1">
+                            <p className="truncate">
+                              <span className="font-mono text-xs">{delivery.event}</span>
+                              <span className="text-muted-foreground"> → {delivery.webhook.name}</span>
+                            </p>
+                            {delivery.error && (
+                              <p className="truncate text-xs text-red-500">{delivery.error}</p>
+                            )}
+                          </div>
+                          <span className="shrink-0 font-mono text-xs text-muted-foreground">
+                            {delivery.responseStatus ?? "—"} · {delivery.attempts}x
+                          </span>
+                          <span className="shrink-0 text-xs text-muted-foreground">
+                            {formatLogTime(delivery.createdAt)}
+                          </span>
+                          {delivery.status === "failed" && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => redeliverMutation.mutate({ id: delivery.id })}
+                              disabled={redeliverMutation.isPending}
+                            >
+                              Retry
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        {isAdmin && <UsersSection currentUserId={session.id} />}
+
+        {isAdmin && <TeamsSection />}
+
+        {isAdmin && <SsoSection />}
+
         {/* System Status */}
         <Card>
           <CardHeader className="pb-4">
@@ -864,16 +1635,18 @@ function SettingsPage() {
                 >
                   <RefreshCw className="h-4 w-4" />
                 </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => clearLogsMutation.mutate()}
-                  disabled={clearLogsMutation.isPending}
-                  className="gap-2"
-                >
-                  <Trash2 className="h-4 w-4" />
-                  Clear
-                </Button>
+                {isAdmin && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => clearLogsMutation.mutate()}
+                    disabled={clearLogsMutation.isPending}
+                    className="gap-2"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Clear
+                  </Button>
+                )}
               </div>
             </div>
           </CardHeader>
@@ -1053,228 +1826,1142 @@ function SettingsPage() {
           </CardContent>
         </Card>
 
-        {/* Account Security */}
-        <Card>
-          <CardHeader className="pb-4">
-            <div className="flex items-center gap-3">
-              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-emerald-500/10">
-                <Shield className="h-5 w-5 text-emerald-500" />
-              </div>
-              <div>
-                <CardTitle>Account Security</CardTitle>
-                <CardDescription>Change your admin password</CardDescription>
+        {/* Account Security - single sign-on accounts have no password to change */}
+        {session.hasPassword && (
+          <Card>
+            <CardHeader className="pb-4">
+              <div className="flex items-center gap-3">
+                <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-emerald-500/10">
+                  <Shield className="h-5 w-5 text-emerald-500" />
+                </div>
+                <div>
+                  <CardTitle>Account Security</CardTitle>
+                  <CardDescription>Change your password</CardDescription>
+                </div>
               </div>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={handleChangePassword} className="space-y-4">
-              <div className="grid gap-4 sm:grid-cols-3">
-                <div className="space-y-2">
-                  <Label
-                    htmlFor="currentPassword"
-                    className="text-xs uppercase tracking-wider text-muted-foreground"
-                  >
-                    Current Password
-                  </Label>
-                  <div className="relative">
-                    <Input
-                      id="currentPassword"
-                      type={showPasswords.current ? "text" : "password"}
-                      value={passwordData.currentPassword}
-                      onChange={(e) =>
-                        setPasswordData({
-                          ...passwordData,
-                          currentPassword: e.target.value,
-                        })
-                      }
-                      className="pr-10"
-                    />
-                    <button
-                      type="button"
-                      onClick={() =>
-                        setShowPasswords({
-                          ...showPasswords,
-                          current: !showPasswords.current,
-                        })
-                      }
-                      className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleChangePassword} className="space-y-4">
+                <div className="grid gap-4 sm:grid-cols-3">
+                  <div className="space-y-2">
+                    <Label
+                      htmlFor="currentPassword"
+                      className="text-xs uppercase tracking-wider text-muted-foreground"
                     >
-                      {showPasswords.current ? (
-                        <EyeOff className="h-4 w-4" />
-                      ) : (
-                        <Eye className="h-4 w-4" />
-                      )}
-                    </button>
+                      Current Password
+                    </Label>
+                    <div className="relative">
+                      <Input
+                        id="currentPassword"
+                        type={showPasswords.current ? "text" : "password"}
+                        value={passwordData.currentPassword}
+                        onChange={(e) =>
+                          setPasswordData({
+                            ...passwordData,
+                            currentPassword: e.target.value,
+                          })
+                        }
+                        className="pr-10"
+                      />
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setShowPasswords({
+                            ...showPasswords,
+                            current: !showPasswords.current,
+                          })
+                        }
+                        className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                      >
+                        {showPasswords.current ? (
+                          <EyeOff className="h-4 w-4" />
+                        ) : (
+                          <Eye className="h-4 w-4" />
+                        )}
+                      </button>
+                    </div>
                   </div>
-                </div>
-                <div className="space-y-2">
-                  <Label
-                    htmlFor="newPassword"
-                    className="text-xs uppercase tracking-wider text-muted-foreground"
-                  >
-                    New Password
-                  </Label>
-                  <div className="relative">
-                    <Input
-                      id="newPassword"
-                      type={showPasswords.new ? "text" : "password"}
-                      value={passwordData.newPassword}
-                      onChange={(e) =>
-                        setPasswordData({
-                          ...passwordData,
-                          newPassword: e.target.value,
-                        })
-                      }
-                      className="pr-10"
-                    />
-                    <button
-                      type="button"
-                      onClick={() =>
-                        setShowPasswords({
-                          ...showPasswords,
-                          new: !showPasswords.new,
-                        })
-                      }
-                      className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                  <div className="space-y-2">
+                    <Label
+                      htmlFor="newPassword"
+                      className="text-xs uppercase tracking-wider text-muted-foreground"
                     >
-                      {showPasswords.new ? (
-                        <EyeOff className="h-4 w-4" />
-                      ) : (
-                        <Eye className="h-4 w-4" />
-                      )}
-                    </button>
+                      New Password
+                    </Label>
+                    <div className="relative">
+                      <Input
+                        id="newPassword"
+                        type={showPasswords.new ? "text" : "password"}
+                        value={passwordData.newPassword}
+                        onChange={(e) =>
+                          setPasswordData({
+                            ...passwordData,
+                            newPassword: e.target.value,
+                          })
+                        }
+                        className="pr-10"
+                      />
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setShowPasswords({
+                            ...showPasswords,
+                            new: !showPasswords.new,
+                          })
+                        }
+                        className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                      >
+                        {showPasswords.new ? (
+                          <EyeOff className="h-4 w-4" />
+                        ) : (
+                          <Eye className="h-4 w-4" />
+                        )}
+                      </button>
+                    </div>
                   </div>
-                </div>
-                <div className="space-y-2">
-                  <Label
-                    htmlFor="confirmPassword"
-                    className="text-xs uppercase tracking-wider text-muted-foreground"
-                  >
-                    Confirm Password
-                  </Label>
-                  <div className="relative">
-                    <Input
-                      id="confirmPassword"
-                      type={showPasswords.confirm ? "text" : "password"}
-                      value={passwordData.confirmPassword}
-                      onChange={(e) =>
-                        setPasswordData({
-                          ...passwordData,
-                          confirmPassword: e.target.value,
-                        })
-                      }
-                      className="pr-10"
-                    />
-                    <button
-                      type="button"
-                      onClick={() =>
-                        setShowPasswords({
-                          ...showPasswords,
-                          confirm: !showPasswords.confirm,
-                        })
-                      }
-                      className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                  <div className="space-y-2">
+                    <Label
+                      htmlFor="confirmPassword"
+                      className="text-xs uppercase tracking-wider text-muted-foreground"
                     >
-                      {showPasswords.confirm ? (
-                        <EyeOff className="h-4 w-4" />
-                      ) : (
-                        <Eye className="h-4 w-4" />
-                      )}
-                    </button>
+                      Confirm Password
+                    </Label>
+                    <div className="relative">
+                      <Input
+                        id="confirmPassword"
+                        type={showPasswords.confirm ? "text" : "password"}
+                        value={passwordData.confirmPassword}
+                        onChange={(e) =>
+                          setPasswordData({
+                            ...passwordData,
+                            confirmPassword: e.target.value,
+                          })
+                        }
+                        className="pr-10"
+                      />
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setShowPasswords({
+                            ...showPasswords,
+                            confirm: !showPasswords.confirm,
+                          })
+                        }
+                        className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                      >
+                        {showPasswords.confirm ? (
+                          <EyeOff className="h-4 w-4" />
+                        ) : (
+                          <Eye className="h-4 w-4" />
+                        )}
+                      </button>
+                    </div>
                   </div>
                 </div>
-              </div>
-              {passwordData.newPassword &&
-                passwordData.confirmPassword &&
-                passwordData.newPassword !== passwordData.confirmPassword && (
-                  <div className="flex items-center gap-2 text-sm text-destructive">
-                    <XCircle className="h-4 w-4" />
-                    Passwords do not match
+                {passwordData.newPassword &&
+                  passwordData.confirmPassword &&
+                  passwordData.newPassword !== passwordData.confirmPassword && (
+                    <div className="flex items-center gap-2 text-sm text-destructive">
+                      <XCircle className="h-4 w-4" />
+                      Passwords do not match
+                    </div>
+                  )}
+                {changePasswordMutation.error && (
+                  <div className="flex items-center gap-2 rounded-lg border border-destructive/20 bg-destructive/5 p-3 text-sm text-destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    {changePasswordMutation.error.message}
                   </div>
                 )}
-              {changePasswordMutation.error && (
-                <div className="flex items-center gap-2 rounded-lg border border-destructive/20 bg-destructive/5 p-3 text-sm text-destructive">
-                  <AlertTriangle className="h-4 w-4" />
-                  {changePasswordMutation.error.message}
-                </div>
-              )}
-              {changePasswordMutation.isSuccess && (
-                <div className="flex items-center gap-2 rounded-lg border border-emerald-500/20 bg-emerald-500/5 p-3 text-sm text-emerald-500">
-                  <CheckCircle className="h-4 w-4" />
-                  Password changed successfully
-                </div>
-              )}
-              <Button
-                type="submit"
-                variant="outline"
-                disabled={
-                  changePasswordMutation.isPending ||
-                  !passwordData.currentPassword ||
-                  !passwordData.newPassword ||
-                  passwordData.newPassword !== passwordData.confirmPassword
-                }
-                className="gap-2"
-              >
-                {changePasswordMutation.isPending ? (
-                  <>
-                    <span className="h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
-                    Changing...
-                  </>
-                ) : (
-                  <>
-                    <Shield className="h-4 w-4" />
-                    Change Password
-                  </>
+                {changePasswordMutation.isSuccess && (
+                  <div className="flex items-center gap-2 rounded-lg border border-emerald-500/20 bg-emerald-500/5 p-3 text-sm text-emerald-500">
+                    <CheckCircle className="h-4 w-4" />
+                    Password changed successfully
+                  </div>
                 )}
-              </Button>
-            </form>
-          </CardContent>
-        </Card>
+                <Button
+                  type="submit"
+                  variant="outline"
+                  disabled={
+                    changePasswordMutation.isPending ||
+                    !passwordData.currentPassword ||
+                    !passwordData.newPassword ||
+                    passwordData.newPassword !== passwordData.confirmPassword
+                  }
+                  className="gap-2"
+                >
+                  {changePasswordMutation.isPending ? (
+                    <>
+                      <span className="h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+                      Changing...
+                    </>
+                  ) : (
+                    <>
+                      <Shield className="h-4 w-4" />
+                      Change Password
+                    </>
+                  )}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
 
-        {/* Danger Zone */}
-        <Card className="border-destructive/20">
-          <CardHeader className="pb-4">
-            <div className="flex items-center gap-3">
-              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-destructive/10">
-                <AlertTriangle className="h-5 w-5 text-destructive" />
+        <TwoFactorSection isAdmin={isAdmin} />
+
+        {isAdmin && (
+          <>
+            {/* Danger Zone */}
+            <Card className="border-destructive/20">
+              <CardHeader className="pb-4">
+                <div className="flex items-center gap-3">
+                  <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-destructive/10">
+                    <AlertTriangle className="h-5 w-5 text-destructive" />
+                  </div>
+                  <div>
+                    <CardTitle className="text-destructive">Danger Zone</CardTitle>
+                    <CardDescription>
+                      Irreversible and destructive actions
+                    </CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+                  <div>
+                    <p className="text-sm font-medium">Reset All Data</p>
+                    <p className="text-xs text-muted-foreground">
+                      Delete all sessions, entries, and device data. This cannot be undone.
+                    </p>
+                  </div>
+                  <Button
+                    variant="destructive"
+                    onClick={() => {
+                      if (
+                        confirm(
+                          "Are you absolutely sure? This will delete ALL data including devices, sessions, and usage entries. This action cannot be undone."
+                        )
+                      ) {
+                        // TODO: Implement reset all data
+                        alert("This feature is not yet implemented");
+                      }
+                    }}
+                    className="gap-2"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Reset All Data
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+      </div>
+    </Layout>
+  );
+}
+
+const roleOptions: { value: UserRole; label: string }[] = [
+  { value: "admin", label: "Admin" },
+  { value: "member", label: "Member" },
+  { value: "viewer", label: "Viewer" },
+];
+
+const roleDescriptions: Record<UserRole, string> = {
+  admin: "Everything, including server settings, pricing, webhooks and users",
+  member: "Register and remove devices, delete sessions and budget their own devices",
+  viewer: "Read-only access to dashboards, devices and sessions",
+};
+
+function UsersSection({ currentUserId }: { currentUserId: string }) {
+  const api = useTRPC();
+  const queryClient = useQueryClient();
+  const [newInvite, setNewInvite] = useState({ email: "", role: "viewer" as UserRole });
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+
+  const { data: users } = useQuery(api.users.list.queryOptions());
+  const { data: invites } = useQuery(api.users.invites.queryOptions());
+  const { data: teams } = useQuery(api.teams.list.queryOptions());
+
+  const invalidateUsers = () => {
+    queryClient.invalidateQueries({ queryKey: api.users.list.queryKey() });
+    queryClient.invalidateQueries({ queryKey: api.users.invites.queryKey() });
+  };
+
+  const getInviteLink = (token: string) => `${window.location.origin}/invite/${token}`;
+
+  const createInviteMutation = useMutation(
+    api.users.createInvite.mutationOptions({
+      onSuccess: (invite) => {
+        setNewInvite({ email: "", role: "viewer" });
+        setInviteLink(getInviteLink(invite.token));
+        invalidateUsers();
+      },
+    })
+  );
+
+  const revokeInviteMutation = useMutation(
+    api.users.revokeInvite.mutationOptions({
+      onSuccess: invalidateUsers,
+    })
+  );
+
+  const updateRoleMutation = useMutation(
+    api.users.updateRole.mutationOptions({
+      onSuccess: invalidateUsers,
+      onError: (err) => alert(err.message),
+    })
+  );
+
+  const deleteUserMutation = useMutation(
+    api.users.delete.mutationOptions({
+      onSuccess: invalidateUsers,
+      onError: (err) => alert(err.message),
+    })
+  );
+
+  const updateTeamMutation = useMutation(
+    api.users.updateTeam.mutationOptions({
+      onSuccess: () => {
+        invalidateUsers();
+        queryClient.invalidateQueries({ queryKey: api.teams.list.queryKey() });
+      },
+      onError: (err) => alert(err.message),
+    })
+  );
+
+  const handleCreateInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    createInviteMutation.mutate(newInvite);
+  };
+
+  const resetTwoFactorMutation = useMutation(
+    api.users.resetTwoFactor.mutationOptions({
+      onSuccess: invalidateUsers,
+      onError: (err) => alert(err.message),
+    })
+  );
+
+  const handleDeleteUser = (id: string, username: string) => {
+    if (confirm(`Remove "${username}"? They will be signed out immediately.`)) {
+      deleteUserMutation.mutate({ id });
+    }
+  };
+
+  const handleResetTwoFactor = (id: string, username: string) => {
+    if (confirm(`Turn off two-factor for "${username}"? Their recovery codes stop working too.`)) {
+      resetTwoFactorMutation.mutate({ id });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <div className="flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-violet-500/10">
+            <Users className="h-5 w-5 text-violet-500" />
+          </div>
+          <div>
+            <CardTitle>Users</CardTitle>
+            <CardDescription>Invite teammates and choose what they can change</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Existing users */}
+        <div className="space-y-3">
+          {users?.map((user) => (
+            <div
+              key={user.id}
+              className="flex items-center justify-between gap-4 rounded-lg border border-border bg-secondary/30 p-4"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="truncate text-sm font-medium">{user.username}</p>
+                  {user.id === currentUserId && <Badge variant="secondary">You</Badge>}
+                  {user.totpEnabled && <Badge variant="outline">2FA</Badge>}
+                  {!user.hasPassword && <Badge variant="outline">SSO</Badge>}
+                </div>
+                <p className="truncate text-xs text-muted-foreground">
+                  {user.email ?? "No email"} · Joined {new Date(user.createdAt).toLocaleDateString()}
+                </p>
               </div>
-              <div>
-                <CardTitle className="text-destructive">Danger Zone</CardTitle>
-                <CardDescription>
-                  Irreversible and destructive actions
-                </CardDescription>
+              <div className="flex shrink-0 items-center gap-1">
+                {teams && teams.length > 0 && (
+                  <Select
+                    aria-label={`Team of ${user.username}`}
+                    value={user.teamId ?? ""}
+                    onChange={(e) =>
+                      updateTeamMutation.mutate({ id: user.id, teamId: e.target.value || null })
+                    }
+                    disabled={updateTeamMutation.isPending}
+                    className="h-8 w-32 text-xs"
+                    options={[
+                      { value: "", label: "No team" },
+                      ...teams.map((team) => ({ value: team.id, label: team.name })),
+                    ]}
+                  />
+                )}
+                <Select
+                  aria-label={`Role of ${user.username}`}
+                  value={user.role}
+                  onChange={(e) =>
+                    updateRoleMutation.mutate({ id: user.id, role: e.target.value as UserRole })
+                  }
+                  disabled={updateRoleMutation.isPending}
+                  className="h-8 w-28 text-xs"
+                  options={roleOptions}
+                />
+                {user.totpEnabled && user.id !== currentUserId && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Turn off two-factor"
+                    onClick={() => handleResetTwoFactor(user.id, user.username)}
+                    disabled={resetTwoFactorMutation.isPending}
+                  >
+                    <ShieldOff className="h-4 w-4" />
+                  </Button>
+                )}
+                {user.id !== currentUserId && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDeleteUser(user.id, user.username)}
+                    disabled={deleteUserMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
               </div>
             </div>
-          </CardHeader>
-          <CardContent>
-            <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
-              <div>
-                <p className="text-sm font-medium">Reset All Data</p>
-                <p className="text-xs text-muted-foreground">
-                  Delete all sessions, entries, and device data. This cannot be undone.
-                </p>
+          ))}
+        </div>
+
+        {/* Pending invites */}
+        {invites && invites.length > 0 && (
+          <div className="rounded-lg border border-border bg-secondary/30 p-4">
+            <h4 className="mb-3 text-sm font-medium">Pending Invites</h4>
+            <div className="space-y-2">
+              {invites.map((invite) => (
+                <div key={invite.id} className="flex items-center gap-3 text-sm">
+                  <Badge variant="outline">{invite.role}</Badge>
+                  <span className="min-w-0 flex-1 truncate">
+                    {invite.email ?? "Anyone with the link"}
+                  </span>
+                  <span className="shrink-0 text-xs text-muted-foreground">
+                    Expires {new Date(invite.expiresAt).toLocaleDateString()}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => navigator.clipboard.writeText(getInviteLink(invite.token))}
+                    className="text-muted-foreground hover:text-foreground"
+                  >
+                    <Copy className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => revokeInviteMutation.mutate({ id: invite.id })}
+                    disabled={revokeInviteMutation.isPending}
+                    className="text-muted-foreground hover:text-destructive"
+                  >
+                    <XCircle className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* New invite */}
+        <form
+          onSubmit={handleCreateInvite}
+          className="space-y-4 rounded-lg border border-border p-4"
+        >
+          <h4 className="text-sm font-medium">Invite User</h4>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label
+                htmlFor="inviteEmail"
+                className="text-xs uppercase tracking-wider text-muted-foreground"
+              >
+                Email (optional)
+              </Label>
+              <Input
+                id="inviteEmail"
+                type="email"
+                value={newInvite.email}
+                onChange={(e) => setNewInvite({ ...newInvite, email: e.target.value })}
+                placeholder="teammate@example.com"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label
+                htmlFor="inviteRole"
+                className="text-xs uppercase tracking-wider text-muted-foreground"
+              >
+                Role
+              </Label>
+              <Select
+                id="inviteRole"
+                value={newInvite.role}
+                onChange={(e) => setNewInvite({ ...newInvite, role: e.target.value as UserRole })}
+                options={roleOptions}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">{roleDescriptions[newInvite.role]}</p>
+          {createInviteMutation.error && (
+            <p className="text-sm text-red-500">{createInviteMutation.error.message}</p>
+          )}
+          {inviteLink && (
+            <div className="flex items-center gap-2 rounded-lg border border-emerald-500/20 bg-emerald-500/5 p-3">
+              <code className="min-w-0 flex-1 truncate font-mono text-xs">{inviteLink}</code>
+              <button
+                type="button"
+                onClick={() => navigator.clipboard.writeText(inviteLink)}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <Copy className="h-4 w-4" />
+              </button>
+            </div>
+          )}
+          <Button type="submit" disabled={createInviteMutation.isPending} className="gap-2">
+            <UserPlus className="h-4 w-4" />
+            {createInviteMutation.isPending ? "Creating..." : "Create Invite Link"}
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            Links work once and expire after 7 days. Send it to your teammate yourself.
+          </p>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function TeamsSection() {
+  const api = useTRPC();
+  const queryClient = useQueryClient();
+  const [newTeamName, setNewTeamName] = useState("");
+
+  const { data: teams } = useQuery(api.teams.list.queryOptions());
+
+  // Team changes show up in the users list and device owners too
+  const invalidateTeams = () => {
+    queryClient.invalidateQueries({ queryKey: api.teams.list.queryKey() });
+    queryClient.invalidateQueries({ queryKey: api.users.list.queryKey() });
+  };
+
+  const createTeamMutation = useMutation(
+    api.teams.create.mutationOptions({
+      onSuccess: () => {
+        setNewTeamName("");
+        invalidateTeams();
+      },
+    })
+  );
+
+  const renameTeamMutation = useMutation(
+    api.teams.rename.mutationOptions({
+      onSuccess: invalidateTeams,
+      onError: (err) => alert(err.message),
+    })
+  );
+
+  const deleteTeamMutation = useMutation(
+    api.teams.delete.mutationOptions({
+      onSuccess: invalidateTeams,
+      onError: (err) => alert(err.message),
+    })
+  );
+
+  const handleCreateTeam = (e: React.FormEvent) => {
+    e.preventDefault();
+    createTeamMutation.mutate({ name: newTeamName });
+  };
+
+  const handleRenameTeam = (id: string, name: string) => {
+    const newName = prompt("Team name", name);
+    if (newName && newName !== name) {
+      renameTeamMutation.mutate({ id, name: newName });
+    }
+  };
+
+  const handleDeleteTeam = (id: string, name: string) => {
+    if (confirm(`Delete the team "${name}"? Its users and devices will no longer be in a team.`)) {
+      deleteTeamMutation.mutate({ id });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <div className="flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-teal-500/10">
+            <Building2 className="h-5 w-5 text-teal-500" />
+          </div>
+          <div>
+            <CardTitle>Teams</CardTitle>
+            <CardDescription>Group users and their devices to report spend per team</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {teams && teams.length > 0 && (
+          <div className="space-y-3">
+            {teams.map((team) => (
+              <div
+                key={team.id}
+                className="flex items-center justify-between gap-4 rounded-lg border border-border bg-secondary/30 p-4"
+              >
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium">{team.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {team.usersCount} {team.usersCount === 1 ? "user" : "users"} ·{" "}
+                    {team.devicesCount} {team.devicesCount === 1 ? "device" : "devices"}
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRenameTeam(team.id, team.name)}
+                    disabled={renameTeamMutation.isPending}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDeleteTeam(team.id, team.name)}
+                    disabled={deleteTeamMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
               </div>
-              <Button
-                variant="destructive"
-                onClick={() => {
-                  if (
-                    confirm(
-                      "Are you absolutely sure? This will delete ALL data including devices, sessions, and usage entries. This action cannot be undone."
-                    )
-                  ) {
-                    // TODO: Implement reset all data
-                    alert("This feature is not yet implemented");
+            ))}
+          </div>
+        )}
+
+        {/* New team */}
+        <form
+          onSubmit={handleCreateTeam}
+          className="space-y-4 rounded-lg border border-border p-4"
+        >
+          <h4 className="text-sm font-medium">New Team</h4>
+          <div className="flex gap-2">
+            <Input
+              aria-label="Team name"
+              value={newTeamName}
+              onChange={(e) => setNewTeamName(e.target.value)}
+              placeholder="Platform"
+              required
+            />
+            <Button type="submit" disabled={createTeamMutation.isPending} className="shrink-0 gap-2">
+              <Plus className="h-4 w-4" />
+              {createTeamMutation.isPending ? "Creating..." : "Create Team"}
+            </Button>
+          </div>
+          {createTeamMutation.error && (
+            <p className="text-sm text-red-500">{createTeamMutation.error.message}</p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Pick a team for each user above. Their devices move with them, and devices they register
+            later join it too.
+          </p>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function SsoSection() {
+  const api = useTRPC();
+  const queryClient = useQueryClient();
+  const [saveSuccess, setSaveSuccess] = useState(false);
+  const [ssoData, setSsoData] = useState({
+    oidcEnabled: false,
+    oidcIssuer: "",
+    oidcClientId: "",
+    oidcScopes: "",
+    oidcGroupsClaim: "",
+    oidcAdminGroups: "",
+    oidcMemberGroups: "",
+    oidcDefaultRole: "viewer" as UserRole,
+  });
+  // Only sent when typed - the stored secret is never shown
+  const [clientSecret, setClientSecret] = useState("");
+
+  const { data: settings } = useQuery(api.settings.get.queryOptions());
+
+  useEffect(() => {
+    if (settings) {
+      setSsoData({
+        oidcEnabled: settings.oidcEnabled,
+        oidcIssuer: settings.oidcIssuer ?? "",
+        oidcClientId: settings.oidcClientId ?? "",
+        oidcScopes: settings.oidcScopes,
+        oidcGroupsClaim: settings.oidcGroupsClaim,
+        oidcAdminGroups: settings.oidcAdminGroups ?? "",
+        oidcMemberGroups: settings.oidcMemberGroups ?? "",
+        oidcDefaultRole: settings.oidcDefaultRole as UserRole,
+      });
+    }
+  }, [settings]);
+
+  const updateSsoMutation = useMutation(
+    api.settings.update.mutationOptions({
+      onSuccess: () => {
+        setClientSecret("");
+        queryClient.invalidateQueries({ queryKey: api.settings.get.queryKey() });
+        setSaveSuccess(true);
+        setTimeout(() => setSaveSuccess(false), 3000);
+      },
+    })
+  );
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateSsoMutation.mutate({
+      ...ssoData,
+      oidcIssuer: ssoData.oidcIssuer.trim() || null,
+      oidcClientId: ssoData.oidcClientId.trim() || null,
+      oidcAdminGroups: ssoData.oidcAdminGroups.trim() || null,
+      oidcMemberGroups: ssoData.oidcMemberGroups.trim() || null,
+      ...(clientSecret && { oidcClientSecret: clientSecret }),
+    });
+  };
+
+  const handleClearSecret = () => {
+    if (confirm("Remove the stored client secret? Public clients sign in with PKCE only.")) {
+      updateSsoMutation.mutate({ oidcClientSecret: null });
+    }
+  };
+
+  const callbackUrl = `${(settings?.serverUrl || window.location.origin).replace(/\/$/, "")}/api/auth/oidc/callback`;
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <div className="flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-indigo-500/10">
+            <KeyRound className="h-5 w-5 text-indigo-500" />
+          </div>
+          <div>
+            <CardTitle>Single Sign-On</CardTitle>
+            <CardDescription>Let users sign in with an OpenID Connect provider</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSave} className="space-y-4">
+          <button
+            type="button"
+            onClick={() => setSsoData({ ...ssoData, oidcEnabled: !ssoData.oidcEnabled })}
+            className={cn(
+              "flex w-full items-center justify-between rounded-lg border px-4 py-3 transition-colors",
+              ssoData.oidcEnabled
+                ? "border-indigo-500/30 bg-indigo-500/10"
+                : "border-border bg-secondary/30"
+            )}
+          >
+            <div className="text-left">
+              <p className="text-sm font-medium">Enable Single Sign-On</p>
+              <p className="text-xs text-muted-foreground">
+                Adds a "Sign in with SSO" button to the login page
+              </p>
+            </div>
+            <div
+              className={cn(
+                "h-5 w-9 rounded-full p-0.5 transition-colors",
+                ssoData.oidcEnabled ? "bg-indigo-500" : "bg-muted"
+              )}
+            >
+              <div
+                className={cn(
+                  "h-4 w-4 rounded-full bg-white transition-transform",
+                  ssoData.oidcEnabled && "translate-x-4"
+                )}
+              />
+            </div>
+          </button>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="oidcIssuer" className="text-xs uppercase tracking-wider text-muted-foreground">
+                Issuer URL
+              </Label>
+              <Input
+                id="oidcIssuer"
+                type="url"
+                value={ssoData.oidcIssuer}
+                onChange={(e) => setSsoData({ ...ssoData, oidcIssuer: e.target.value })}
+                placeholder="https://auth.example.com/realms/main"
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="oidcClientId" className="text-xs uppercase tracking-wider text-muted-foreground">
+                Client ID
+              </Label>
+              <Input
+                id="oidcClientId"
+                value={ssoData.oidcClientId}
+                onChange={(e) => setSsoData({ ...ssoData, oidcClientId: e.target.value })}
+                placeholder="claude-tracker"
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="oidcClientSecret" className="text-xs uppercase tracking-wider text-muted-foreground">
+                Client Secret
+              </Label>
+              <div className="flex gap-2">
+                <Input
+                  id="oidcClientSecret"
+                  type="password"
+                  value={clientSecret}
+                  onChange={(e) => setClientSecret(e.target.value)}
+                  placeholder={settings?.oidcClientSecretSet ? "Saved - type to replace" : "Optional for public clients"}
+                  autoComplete="off"
+                />
+                {settings?.oidcClientSecretSet && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleClearSecret}
+                    disabled={updateSsoMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="oidcScopes" className="text-xs uppercase tracking-wider text-muted-foreground">
+                Scopes
+              </Label>
+              <Input
+                id="oidcScopes"
+                value={ssoData.oidcScopes}
+                onChange={(e) => setSsoData({ ...ssoData, oidcScopes: e.target.value })}
+                className="font-mono"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs uppercase tracking-wider text-muted-foreground">Callback URL</Label>
+            <div className="rounded-lg border border-border bg-secondary/30 px-3 py-2 font-mono text-sm">
+              {callbackUrl}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Register this as the redirect URI with your provider.
+            </p>
+          </div>
+
+          {/* Roles from groups */}
+          <div className="space-y-4 rounded-lg border border-border p-4">
+            <div>
+              <h4 className="text-sm font-medium">Roles</h4>
+              <p className="text-xs text-muted-foreground">
+                Comma-separated group names. A user's role is set from their groups every time they
+                sign in, and new users are created on their first sign-in.
+              </p>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="oidcGroupsClaim" className="text-xs uppercase tracking-wider text-muted-foreground">
+                  Groups Claim
+                </Label>
+                <Input
+                  id="oidcGroupsClaim"
+                  value={ssoData.oidcGroupsClaim}
+                  onChange={(e) => setSsoData({ ...ssoData, oidcGroupsClaim: e.target.value })}
+                  className="font-mono"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="oidcDefaultRole" className="text-xs uppercase tracking-wider text-muted-foreground">
+                  Role Without a Matching Group
+                </Label>
+                <Select
+                  id="oidcDefaultRole"
+                  value={ssoData.oidcDefaultRole}
+                  onChange={(e) =>
+                    setSsoData({ ...ssoData, oidcDefaultRole: e.target.value as UserRole })
                   }
-                }}
-                className="gap-2"
+                  options={roleOptions}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="oidcAdminGroups" className="text-xs uppercase tracking-wider text-muted-foreground">
+                  Admin Groups
+                </Label>
+                <Input
+                  id="oidcAdminGroups"
+                  value={ssoData.oidcAdminGroups}
+                  onChange={(e) => setSsoData({ ...ssoData, oidcAdminGroups: e.target.value })}
+                  placeholder="tracker-admins"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="oidcMemberGroups" className="text-xs uppercase tracking-wider text-muted-foreground">
+                  Member Groups
+                </Label>
+                <Input
+                  id="oidcMemberGroups"
+                  value={ssoData.oidcMemberGroups}
+                  onChange={(e) => setSsoData({ ...ssoData, oidcMemberGroups: e.target.value })}
+                  placeholder="engineering, data"
+                />
+              </div>
+            </div>
+          </div>
+
+          {updateSsoMutation.error && (
+            <p className="text-sm text-red-500">{updateSsoMutation.error.message}</p>
+          )}
+          <div className="flex items-center gap-3">
+            <Button type="submit" disabled={updateSsoMutation.isPending} className="gap-2">
+              <Save className="h-4 w-4" />
+              {updateSsoMutation.isPending ? "Saving..." : "Save Single Sign-On"}
+            </Button>
+            {saveSuccess && (
+              <span className="flex items-center gap-1 text-sm text-emerald-500">
+                <CheckCircle className="h-4 w-4" />
+                Saved
+              </span>
+            )}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function TwoFactorSection({ isAdmin }: { isAdmin: boolean }) {
+  const api = useTRPC();
+  const queryClient = useQueryClient();
+  const [code, setCode] = useState("");
+  // Shown once, right after setup or after making new ones
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status } = useQuery(api.twoFactor.status.queryOptions());
+
+  const invalidateStatus = () => {
+    queryClient.invalidateQueries({ queryKey: api.twoFactor.status.queryKey() });
+    queryClient.invalidateQueries({ queryKey: api.auth.getSession.queryKey() });
+  };
+
+  const startSetupMutation = useMutation(
+    api.twoFactor.startSetup.mutationOptions({
+      onSuccess: () => setCode(""),
+      onError: (err) => alert(err.message),
+    })
+  );
+
+  const confirmSetupMutation = useMutation(
+    api.twoFactor.confirmSetup.mutationOptions({
+      onSuccess: (data) => {
+        setRecoveryCodes(data.recoveryCodes);
+        startSetupMutation.reset();
+        invalidateStatus();
+      },
+    })
+  );
+
+  const regenerateCodesMutation = useMutation(
+    api.twoFactor.regenerateRecoveryCodes.mutationOptions({
+      onSuccess: (data) => {
+        setRecoveryCodes(data.recoveryCodes);
+        invalidateStatus();
+      },
+      onError: (err) => alert(err.message),
+    })
+  );
+
+  const disableMutation = useMutation(
+    api.twoFactor.disable.mutationOptions({
+      onSuccess: () => {
+        setRecoveryCodes(null);
+        invalidateStatus();
+      },
+      onError: (err) => alert(err.message),
+    })
+  );
+
+  const requireMutation = useMutation(
+    api.settings.update.mutationOptions({
+      onSuccess: () => {
+        invalidateStatus();
+        queryClient.invalidateQueries({ queryKey: api.settings.get.queryKey() });
+      },
+      onError: (err) => alert(err.message),
+    })
+  );
+
+  const handleConfirmSetup = (e: React.FormEvent) => {
+    e.preventDefault();
+    confirmSetupMutation.mutate({ code });
+  };
+
+  const handleRegenerateCodes = () => {
+    const currentCode = prompt(
+      "Enter a code from your authenticator app. Your old recovery codes will stop working."
+    );
+    if (currentCode) {
+      regenerateCodesMutation.mutate({ code: currentCode });
+    }
+  };
+
+  const handleDisable = () => {
+    const currentCode = prompt("Enter a code from your authenticator app to turn off two-factor");
+    if (currentCode) {
+      disableMutation.mutate({ code: currentCode });
+    }
+  };
+
+  const handleToggleRequired = () => {
+    if (!status) return;
+    if (
+      !status.required &&
+      !confirm(
+        "Require two-factor for everyone? Users without it are signed out and set it up when they next sign in. Auto-login is turned off."
+      )
+    ) {
+      return;
+    }
+    requireMutation.mutate({ requireTwoFactor: !status.required });
+  };
+
+  const setup = startSetupMutation.data;
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <div className="flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-sky-500/10">
+            <ShieldCheck className="h-5 w-5 text-sky-500" />
+          </div>
+          <div>
+            <CardTitle>Two-Factor Authentication</CardTitle>
+            <CardDescription>Ask for a code from an authenticator app when you sign in</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status && !status.available ? (
+          <p className="text-sm text-muted-foreground">
+            You sign in with single sign-on, so your identity provider handles two-factor.
+          </p>
+        ) : status?.enabled ? (
+          <div className="flex items-center justify-between gap-4 rounded-lg border border-emerald-500/20 bg-emerald-500/5 p-4">
+            <div className="flex items-center gap-2 text-sm">
+              <CheckCircle className="h-4 w-4 text-emerald-500" />
+              <span>
+                On · {status.recoveryCodesLeft}{" "}
+                {status.recoveryCodesLeft === 1 ? "recovery code" : "recovery codes"} left
+              </span>
+            </div>
+            <div className="flex shrink-0 items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleRegenerateCodes}
+                disabled={regenerateCodesMutation.isPending}
               >
-                <Trash2 className="h-4 w-4" />
-                Reset All Data
+                New Recovery Codes
               </Button>
+              {!status.required && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleDisable}
+                  disabled={disableMutation.isPending}
+                >
+                  Turn Off
+                </Button>
+              )}
             </div>
-          </CardContent>
-        </Card>
-      </div>
-    </Layout>
+          </div>
+        ) : setup ? (
+          <form onSubmit={handleConfirmSetup} className="space-y-4">
+            <TotpSetupDetails qrCode={setup.qrCode} secret={setup.secret} />
+            <div className="flex gap-2">
+              <Input
+                aria-label="Code from your authenticator app"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="max-w-40 font-mono"
+                required
+              />
+              <Button type="submit" disabled={confirmSetupMutation.isPending} className="gap-2">
+                <CheckCircle className="h-4 w-4" />
+                {confirmSetupMutation.isPending ? "Checking..." : "Turn On"}
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => startSetupMutation.reset()}>
+                Cancel
+              </Button>
+            </div>
+            {confirmSetupMutation.error && (
+              <p className="text-sm text-red-500">{confirmSetupMutation.error.message}</p>
+            )}
+          </form>
+        ) : (
+          <Button
+            variant="outline"
+            onClick={() => startSetupMutation.mutate()}
+            disabled={!status || startSetupMutation.isPending}
+            className="gap-2"
+          >
+            <ShieldCheck className="h-4 w-4" />
+            {startSetupMutation.isPending ? "Preparing..." : "Set Up Two-Factor"}
+          </Button>
+        )}
+
+        {recoveryCodes && <RecoveryCodesList codes={recoveryCodes} />}
+
+        {isAdmin && status && (
+          <button
+            type="button"
+            onClick={handleToggleRequired}
+            disabled={requireMutation.isPending}
+            className={cn(
+              "flex w-full items-center justify-between rounded-lg border px-4 py-3 transition-colors",
+              status.required ? "border-sky-500/30 bg-sky-500/10" : "border-border bg-secondary/30"
+            )}
+          >
+            <div className="text-left">
+              <p className="text-sm font-medium">Require for All Users</p>
+              <p className="text-xs text-muted-foreground">
+                Password users set it up at their next sign-in. Turns off auto-login. Single
+                sign-on is not affected.
+              </p>
+            </div>
+            <div
+              className={cn(
+                "h-5 w-9 rounded-full p-0.5 transition-colors",
+                status.required ? "bg-sky-500" : "bg-muted"
+              )}
+            >
+              <div
+                className={cn(
+                  "h-4 w-4 rounded-full bg-white transition-transform",
+                  status.required && "translate-x-4"
+                )}
+              />
+            </div>
+          </button>
+        )}
+      </CardContent>
+    </Card>
   );
 }
@@ -1,2 +1,5 @@
 export * from "./types.js";
 export * from "./schemas.js";
+export * from "./pricing.js";
+export * from "./projects.js";
+export * from "./roles.js";
@@ -0,0 +1,119 @@
+import type { ModelPricing } from "./types.js";
+
+// Default pricing for Claude models (per token) - used as fallback
+// These will be replaced by auto-fetched pricing from LiteLLM
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  // Claude Opus 4.5
+  "claude-opus-4-5-20251101": {
+    inputCostPerToken: 0.000015,
+    outputCostPerToken: 0.000075,
+    cacheCreationCostPerToken: 0.00001875,
+    cacheReadCostPerToken: 0.0000015,
+  },
+  // Claude Opus 4
+  "claude-opus-4-20250514": {
+    inputCostPerToken: 0.000015,
+    outputCostPerToken: 0.000075,
+    cacheCreationCostPerToken: 0.00001875,
+    cacheReadCostPerToken: 0.0000015,
+  },
+  // Claude Sonnet 4
+  "claude-sonnet-4-20250514": {
+    inputCostPerToken: 0.000003,
+    outputCostPerToken: 0.000015,
+    cacheCreationCostPerToken: 0.00000375,
+    cacheReadCostPerToken: 0.0000003,
+  },
+  // Claude 3.5 Sonnet
+  "claude-3-5-sonnet-20241022": {
+    inputCostPerToken: 0.000003,
+    outputCostPerToken: 0.000015,
+    cacheCreationCostPerToken: 0.00000375,
+    cacheReadCostPerToken: 0.0000003,
+  },
+  // Claude 3.5 Haiku
+  "claude-3-5-haiku-20241022": {
+    inputCostPerToken: 0.0000008,
+    outputCostPerToken: 0.000004,
+    cacheCreationCostPerToken: 0.000001,
+    cacheReadCostPerToken: 0.00000008,
+  },
+  // Claude 3 Opus
+  "claude-3-opus-20240229": {
+    inputCostPerToken: 0.000015,
+    outputCostPerToken: 0.000075,
+    cacheCreationCostPerToken: 0.00001875,
+    cacheReadCostPerToken: 0.0000015,
+  },
+  // Claude 3 Sonnet
+  "claude-3-sonnet-20240229": {
+    inputCostPerToken: 0.000003,
+    outputCostPerToken: 0.000015,
+    cacheCreationCostPerToken: 0.00000375,
+    cacheReadCostPerToken: 0.0000003,
+  },
+  // Claude 3 Haiku
+  "claude-3-haiku-20240307": {
+    inputCostPerToken: 0.00000025,
+    outputCostPerToken: 0.00000125,
+    cacheCreationCostPerToken: 0.0000003,
+    cacheReadCostPerToken: 0.00000003,
+  },
+};
+
+// Fallback pricing for unknown models (use Sonnet pricing as reasonable default)
+export const FALLBACK_PRICING: ModelPricing = {
+  inputCostPerToken: 0.000003,
+  outputCostPerToken: 0.000015,
+  cacheCreationCostPerToken: 0.00000375,
+  cacheReadCostPerToken: 0.0000003,
+};
+
+// Exact match first, then a model name with or without a date suffix
+export function matchModelPricing(
+  model: string,
+  pricing: Iterable<[string, ModelPricing]>
+): ModelPricing | undefined {
+  let partial: ModelPricing | undefined;
+
+  for (const [pricedModel, modelPricing] of pricing) {
+    if (pricedModel === model) return modelPricing;
+    if (!partial && (model.includes(pricedModel) || pricedModel.includes(model))) {
+      partial = modelPricing;
+    }
+  }
+
+  return partial;
+}
+
+// Pricing from the bundled table, for when no fetched pricing is available
+export function getDefaultPricing(model: string | null | undefined): ModelPricing {
+  if (!model) return FALLBACK_PRICING;
+  return matchModelPricing(model, Object.entries(DEFAULT_MODEL_PRICING)) ?? FALLBACK_PRICING;
+}
+
+export function calculateCostWithPricing(
+  pricing: ModelPricing,
+  inputTokens: number,
+  outputTokens: number,
+  cacheCreationTokens: number,
+  cacheReadTokens: number
+): number {
+  // Input tokens that are not cache reads
+  const regularInputTokens = Math.max(0, inputTokens - cacheReadTokens);
+
+  return (
+    regularInputTokens * pricing.inputCostPerToken +
+    outputTokens * pricing.outputCostPerToken +
+    cacheCreationTokens * pricing.cacheCreationCostPerToken +
+    cacheReadTokens * pricing.cacheReadCostPerToken
+  );
+}
+
+// Savings from cache hits compared to regular input pricing
+export function calculateCacheSavingsWithPricing(
+  pricing: ModelPricing,
+  cacheReadTokens: number
+): number {
+  return cacheReadTokens * (pricing.inputCostPerToken - pricing.cacheReadCostPerToken);
+}
@@ -0,0 +1,17 @@
+// Claude Code stores each project's transcripts in a folder named after its
+// working directory, with path separators and dots replaced by dashes
+// (/home/alice/src/my.app -> -home-alice-src-my-app). The encoding is lossy, so
+// a real path is only trusted when it encodes back to the folder name.
+
+function normalizeEncoding(value: string): string {
+  return value.replace(/[^a-zA-Z0-9]/g, "-");
+}
+
+// True for names that still look like an encoded folder rather than a path
+export function isEncodedProjectDir(name: string): boolean {
+  return /^[A-Za-z]?-/.test(name) && !/[/\\]/.test(name);
+}
+
+export function matchesProjectDir(path: string, dirName: string): boolean {
+  return normalizeEncoding(path) === normalizeEncoding(dirName);
+}
@@ -0,0 +1,8 @@
+import type { UserRole } from "./types.js";
+
+// Roles are ordered - each one can do everything the roles below it can
+const ROLE_RANK: Record<UserRole, number> = { viewer: 0, member: 1, admin: 2 };
+
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
@@ -2,6 +2,8 @@ import { z } from "zod";
 
 // Usage entry schema (for API requests)
 export const usageEntrySchema = z.object({
+  // Claude Code message uuid - used by the server to dedupe re-sent entries
+  uuid: z.string().optional(),
   sessionId: z.string(),
   project: z.string(),
   timestamp: z.string().datetime(),
@@ -12,6 +14,20 @@ export const usageEntrySchema = z.object({
   cacheCreationTokens: z.number().int().nonnegative().default(0),
   cacheReadTokens: z.number().int().nonnegative().default(0),
   costUSD: z.number().nonnegative().optional(),
+  // API message and request ids - streamed lines of one response share them
+  messageId: z.string().optional(),
+  requestId: z.string().optional(),
+  cwd: z.string().optional(),
+  gitBranch: z.string().optional(),
+  // Normalized remote URL (github.com/acme/app) and repository name (acme/app) of the checkout
+  gitRemote: z.string().max(500).optional(),
+  gitRepo: z.string().max(200).optional(),
+  // Claude Code version that wrote the entry
+  version: z.string().optional(),
+  // Sub-agent (Task tool) traffic
+  isSidechain: z.boolean().optional(),
+  // Label of the watch root the entry came from (Unix user, CLAUDE_CONFIG_DIR profile)
+  profile: z.string().max(100).optional(),
 });
 
 // Device schema
@@ -32,6 +48,7 @@ export const sessionSchema = z.object({
   project: z.string(),
   startedAt: z.date(),
   endedAt: z.date().nullable(),
+  status: z.enum(["active", "ended"]),
 });
 
 // Usage push request from daemon
@@ -40,6 +57,13 @@ export const usagePushRequestSchema = z.object({
   entries: z.array(usageEntrySchema),
 });
 
+// Usage push envelope - entries are validated one by one on the server so a
+// single malformed entry doesn't reject the whole batch
+export const usagePushEnvelopeSchema = z.object({
+  deviceApiKey: z.string(),
+  entries: z.array(z.unknown()),
+});
+
 // Device registration request
 export const deviceRegistrationSchema = z.object({
   name: z.string().min(1, "Device name is required"),
@@ -65,15 +89,21 @@ export const settingsSchema = z.object({
   prometheusPort: z.number().int().min(1).max(65535).default(9090),
   retentionDays: z.number().int().min(1).default(90),
   autoUpdatePricing: z.boolean().default(true),
+  sessionIdleTimeoutMinutes: z.number().int().min(1).default(30),
   setupCompleted: z.boolean().default(false),
 });
 
+// User roles - admins manage the server and users, members manage devices,
+// sessions and budgets, viewers only read
+export const userRoleSchema = z.enum(["admin", "member", "viewer"]);
+
 // User schema
 export const userSchema = z.object({
   id: z.string(),
   username: z.string().min(1),
   email: z.string().email().optional().nullable(),
   passwordHash: z.string(),
+  role: userRoleSchema,
   createdAt: z.date(),
   updatedAt: z.date(),
 });
@@ -105,12 +135,35 @@ export const setupOptionalSchema = z.object({
   autoUpdatePricing: z.boolean(),
 });
 
+// Invite a teammate - the invite link is shown to the admin once
+export const createInviteSchema = z.object({
+  email: z.string().email().optional().or(z.literal("")),
+  role: userRoleSchema,
+});
+
+// Account created from an invite link
+export const acceptInviteSchema = z
+  .object({
+    token: z.string().min(1),
+    username: z.string().min(3, "Username must be at least 3 characters"),
+    email: z.string().email().optional().or(z.literal("")),
+    password: z.string().min(8, "Password must be at least 8 characters"),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  });
+
 // Login schema
 export const loginSchema = z.object({
   username: z.string().min(1, "Username is required"),
   password: z.string().min(1, "Password is required"),
 });
 
+// Code from an authenticator app, or a recovery code in its place
+export const twoFactorCodeSchema = z.string().trim().min(6, "Enter the code from your app").max(20);
+
 // Query filter schemas
 export const dateRangeSchema = z.object({
   from: z.date().optional(),
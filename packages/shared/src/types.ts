@@ -8,12 +8,16 @@ import type {
   modelPricingSchema,
   settingsSchema,
   userSchema,
+  userRoleSchema,
 } from "./schemas.js";
 
 // Claude Code JSONL entry types
 export interface ClaudeCodeMessage {
+  // API message id - shared by every line written while a response streams
+  id?: string;
   role: string;
-  content: string;
+  model?: string;
+  content: string | unknown[];
   usage?: {
     input_tokens: number;
     cache_creation_input_tokens: number;
@@ -29,6 +33,12 @@ export interface ClaudeCodeEntry {
   timestamp: string;
   type: "user" | "assistant" | "summary";
   message: ClaudeCodeMessage;
+  requestId?: string;
+  cwd?: string;
+  gitBranch?: string;
+  version?: string;
+  isSidechain?: boolean;
+  // Older transcripts only - current ones put the model in message.model and have no cost
   costUSD?: number;
   model?: string;
 }
@@ -42,6 +52,7 @@ export type DeviceRegistration = z.infer<typeof deviceRegistrationSchema>;
 export type ModelPricing = z.infer<typeof modelPricingSchema>;
 export type Settings = z.infer<typeof settingsSchema>;
 export type User = z.infer<typeof userSchema>;
+export type UserRole = z.infer<typeof userRoleSchema>;
 
 // Prometheus metric types
 export interface MetricLabels {
@@ -57,9 +68,19 @@ export interface ApiResponse<T = unknown> {
   error?: string;
 }
 
+export interface UsageEntryError {
+  index: number;
+  uuid?: string;
+  error: string;
+}
+
 export interface UsagePushResponse {
   success: boolean;
   processed: number;
+  inserted: number;
+  duplicates: number;
+  failed: number;
+  errors?: UsageEntryError[];
 }
 
 export interface DeviceRegistrationResponse {
@@ -91,16 +112,69 @@ export interface TokenBreakdown {
 }
 
 // Daemon state types
-export interface DaemonState {
+export interface FileIdentity {
+  inode: number;
+  // File size when it was last read
+  size: number;
+  // sha256 of the file's first bytes, to detect files rewritten in place
+  fingerprint: string;
+}
+
+// Read positions kept by one source adapter, keyed by file path (or whatever the source reads from)
+export interface SourceState {
   filePositions: Record<string, number>;
+  // Identity of each file at its committed position (missing in older state files)
+  fileIdentities?: Record<string, FileIdentity>;
+}
+
+export interface DaemonState {
+  // Keyed by source id, e.g. "claude-code"
+  sources: Record<string, SourceState>;
   lastSync: string;
 }
 
+// Extra log sources the daemon reads alongside Claude Code
+// `profile` labels everything read from the source, e.g. with the Unix user or config profile
+export type SourceConfig =
+  // `dir` defaults to DaemonConfig.claudeDir
+  | { type: "claude-code"; dir?: string; profile?: string }
+  // NDJSON of Anthropic API responses (id, model, usage), e.g. written by our own scripts
+  | { type: "api-usage"; path: string; project?: string; profile?: string };
+
+// How project names are sent to the server. Rules are globs matched against the
+// local project name; exclude wins over aliases, aliases over hashing.
+export interface ProjectPrivacyConfig {
+  // Projects that are never sent
+  exclude?: string[];
+  // Glob -> name to send instead, first match wins
+  aliases?: Record<string, string>;
+  // Projects sent as a salted hash ("*" for everything not aliased)
+  hash?: string[];
+  // Salt for hashed names - generated by setup, or by start for older configs
+  salt?: string;
+}
+
+// How a project's working directory is turned into the name sent to the server
+// path: /home/alice/src/my-app, basename: my-app, repo-root: the enclosing git
+// checkout, git-remote: the origin remote, e.g. github.com/acme/my-app
+export type ProjectNaming = "path" | "basename" | "repo-root" | "git-remote";
+
 export interface DaemonConfig {
   serverUrl: string;
   deviceApiKey: string;
   claudeDir: string;
   pushIntervalMs: number;
+  // Max entries per push request (default 500)
+  pushBatchSize?: number;
+  // Bounds for the on-disk retry queue (defaults: 200k entries, 30 days)
+  maxQueueEntries?: number;
+  maxQueueAgeDays?: number;
+  // Log sources to read (default: Claude Code only)
+  sources?: SourceConfig[];
+  // How project names are derived from their directory (default: path)
+  projectNames?: ProjectNaming;
+  // Exclude, alias or hash project names before they leave the machine
+  privacy?: ProjectPrivacyConfig;
 }
 
 // Supported models